@@ -0,0 +1,133 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { getPool } from '../lib/db.js';
+import { LOCAL_KEY_PROVIDER, getMasterKeys, reencryptLocalKey } from '../services/key-custody.js';
+
+async function loadEnvFile(filePath: string): Promise<void> {
+  try {
+    const contents = await fs.readFile(filePath, 'utf8');
+    for (const rawLine of contents.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) continue;
+      const eqIndex = line.indexOf('=');
+      if (eqIndex === -1) continue;
+      const key = line.slice(0, eqIndex).trim();
+      let value = line.slice(eqIndex + 1).trim();
+      if (
+        (value.startsWith('"') && value.endsWith('"')) ||
+        (value.startsWith("'") && value.endsWith("'"))
+      ) {
+        value = value.slice(1, -1);
+      }
+      if (process.env[key] === undefined) {
+        process.env[key] = value;
+      }
+    }
+  } catch (err) {
+    // Ignore missing file (supports Railway where env is provided via vars)
+    if (
+      err &&
+      typeof err === 'object' &&
+      'code' in err &&
+      (err as { code?: string }).code === 'ENOENT'
+    ) {
+      return;
+    }
+    const msg = err instanceof Error ? err.message : String(err);
+    console.warn(`WARN: Failed to load env file at ${filePath}: ${msg}`);
+  }
+}
+
+/**
+ * Re-encrypt every locally held agent wallet key under the current master key
+ * (AGENT_WALLET_ENCRYPTION_KEY / AGENT_WALLET_ENCRYPTION_KEY_VERSION).
+ * Rows on older versions are decrypted with AGENT_WALLET_PREVIOUS_ENCRYPTION_KEYS.
+ * Each row is updated in its own transaction, so the command can be re-run after a partial failure.
+ */
+export async function rotateAgentKeys(options: { dryRun?: boolean } = {}): Promise<{
+  rotated: number;
+  failed: number;
+}> {
+  await loadEnvFile(path.resolve(process.cwd(), '.env'));
+  await loadEnvFile(path.resolve(process.cwd(), '.env.railway'));
+
+  const { currentVersion } = getMasterKeys();
+  const pool = getPool();
+
+  const pending = await pool.query(
+    `SELECT id, module_id, encryption_key_version
+     FROM agent_wallets
+     WHERE key_provider = $1 AND encryption_key_version IS DISTINCT FROM $2
+     ORDER BY created_at ASC`,
+    [LOCAL_KEY_PROVIDER, currentVersion]
+  );
+
+  console.log(
+    `${pending.rows.length} agent wallet key(s) to re-encrypt under master key v${currentVersion}` +
+      (options.dryRun ? ' (dry run)' : '')
+  );
+
+  let rotated = 0;
+  let failed = 0;
+
+  for (const row of pending.rows) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const locked = await client.query(
+        `SELECT wallet_address, encrypted_private_key, key_provider, encryption_key_version
+         FROM agent_wallets WHERE id = $1 FOR UPDATE`,
+        [row.id]
+      );
+      const wallet = locked.rows[0];
+
+      const reencrypted = reencryptLocalKey({
+        walletAddress: wallet.wallet_address,
+        keyProvider: wallet.key_provider,
+        keyMaterial: wallet.encrypted_private_key,
+        encryptionKeyVersion: wallet.encryption_key_version,
+      });
+
+      if (reencrypted && !options.dryRun) {
+        await client.query(
+          `UPDATE agent_wallets SET encrypted_private_key = $2, encryption_key_version = $3 WHERE id = $1`,
+          [row.id, reencrypted.ciphertext, reencrypted.version]
+        );
+      }
+      await client.query(options.dryRun ? 'ROLLBACK' : 'COMMIT');
+
+      rotated += 1;
+      console.log(`  - module ${row.module_id}: v${row.encryption_key_version ?? '?'} -> v${currentVersion}`);
+    } catch (err) {
+      await client.query('ROLLBACK');
+      failed += 1;
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`  - module ${row.module_id}: FAILED (${msg})`);
+    } finally {
+      client.release();
+    }
+  }
+
+  console.log(`\nRe-encrypted: ${rotated}, failed: ${failed}`);
+  await pool.end();
+  return { rotated, failed };
+}
+
+const isDirectRun = (() => {
+  if (!process.argv[1]) return false;
+  const currentFile = fileURLToPath(import.meta.url);
+  return currentFile === path.resolve(process.argv[1]);
+})();
+
+if (isDirectRun) {
+  rotateAgentKeys({ dryRun: process.argv.includes('--dry-run') })
+    .then(({ failed }) => {
+      if (failed > 0) process.exit(1);
+    })
+    .catch((err) => {
+      const msg = err instanceof Error ? err.message : String(err);
+      console.error(`Key rotation failed: ${msg}`);
+      process.exit(1);
+    });
+}
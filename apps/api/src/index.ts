@@ -8,6 +8,10 @@ import { checkDbConnection, checkPgvector } from './lib/db.js';
 import { ensureDemoSeed } from './lib/demo-seed.js';
 import { ensureDbSchema } from './lib/schema.js';
 import { checkRedisConnection } from './lib/redis.js';
+import { startSettlementWorker } from './services/settlement-queue.js';
+import { startReconciliationWorker } from './services/reconciliation.js';
+import { startTokenIndexer } from './services/token-indexer.js';
+import { startWebhookWorker } from './services/webhooks.js';
 import { authPlugin } from './plugins/auth.js';
 import { observabilityPlugin } from './plugins/observability.js';
 import { premiumRoutes } from './routes/premium.js';
@@ -17,6 +21,15 @@ import { sellerRoutes } from './routes/seller.js';
 import { modulesRoutes } from './routes/modules.js';
 import { chatRoutes } from './routes/chat.js';
 import { adminRoutes } from './routes/admin.js';
+import { facilitatorRoutes } from './routes/facilitator.js';
+import { balanceRoutes } from './routes/balance.js';
+import { subscriptionRoutes } from './routes/subscriptions.js';
+import { creditPackRoutes } from './routes/credit-packs.js';
+import { receiptRoutes } from './routes/receipts.js';
+import { couponRoutes } from './routes/coupons.js';
+import { spendingPolicyRoutes } from './routes/spending-policy.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { sessionPassRoutes } from './routes/session-passes.js';
 
 async function loadEnvFile(filePath: string): Promise<void> {
   try {
@@ -76,6 +89,8 @@ const fastify = Fastify({
 
 await fastify.register(cors, {
   origin: true,
+  // Let browser clients read the x402 settlement response and idempotent replay marker
+  exposedHeaders: ['X-PAYMENT-RESPONSE', 'Idempotent-Replayed'],
 });
 
 // Register observability plugin (request IDs, structured logging)
@@ -160,6 +175,15 @@ await fastify.register(sellerRoutes);
 await fastify.register(modulesRoutes);
 await fastify.register(chatRoutes);
 await fastify.register(adminRoutes);
+await fastify.register(facilitatorRoutes);
+await fastify.register(balanceRoutes);
+await fastify.register(subscriptionRoutes);
+await fastify.register(creditPackRoutes);
+await fastify.register(receiptRoutes);
+await fastify.register(couponRoutes);
+await fastify.register(spendingPolicyRoutes);
+await fastify.register(webhookRoutes);
+await fastify.register(sessionPassRoutes);
 
 try {
   await fastify.listen({ port: config.API_PORT, host: config.API_HOST });
@@ -197,6 +221,15 @@ try {
         await sleep(delayMs);
       }
     }
+
+    // Background settlement of payments answered under the risk policy
+    startSettlementWorker(fastify.log);
+    // Store on-chain status of settled payments and flag unrecorded transfers to sellers
+    startReconciliationWorker(fastify.log);
+    // Follow payment asset Transfer events into token_transfers
+    startTokenIndexer(fastify.log);
+    // Signed seller webhook deliveries, with retries
+    startWebhookWorker(fastify.log);
   })();
 } catch (err) {
   fastify.log.error(err);
@@ -6,6 +6,7 @@ import { getConfig } from '../config.js';
 declare module 'fastify' {
   interface FastifyInstance {
     authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>;
+    authenticateOptional: (request: FastifyRequest) => Promise<void>;
   }
 }
 
@@ -38,6 +39,16 @@ async function authPluginImpl(fastify: FastifyInstance): Promise<void> {
       });
     }
   });
+
+  // Populate request.user when a valid token is sent, but never reject the request
+  fastify.decorate('authenticateOptional', async function (request: FastifyRequest) {
+    if (!request.headers.authorization) return;
+    try {
+      await request.jwtVerify();
+    } catch {
+      // Treat invalid tokens as anonymous
+    }
+  });
 }
 
 // Expose decorators to the parent scope (so route plugins can access fastify.authenticate)
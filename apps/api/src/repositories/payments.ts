@@ -1,5 +1,5 @@
 import { randomUUID } from 'crypto';
-import type { Payment, PaymentEvent } from '@soulforge/shared';
+import type { Payment, PaymentErrorCode, PaymentEvent } from '@soulforge/shared';
 import { getConfig } from '../config.js';
 
 // In-memory storage for POC - will be replaced with DB in T-0201
@@ -10,9 +10,12 @@ export interface CreatePaymentInput {
   payerWallet: string;
   payTo: string;
   value: string;
+  authorizedValue?: string | null;
   txHash: string | null;
   event: PaymentEvent;
   error: string | null;
+  errorCode?: PaymentErrorCode | null;
+  nonce?: string | null;
 }
 
 export async function createPayment(input: CreatePaymentInput): Promise<Payment> {
@@ -23,10 +26,13 @@ export async function createPayment(input: CreatePaymentInput): Promise<Payment>
     payerWallet: input.payerWallet,
     payTo: input.payTo,
     value: input.value,
+    authorizedValue: input.authorizedValue ?? null,
     txHash: input.txHash,
     network: config.X402_NETWORK,
     event: input.event,
     error: input.error,
+    errorCode: input.errorCode ?? null,
+    nonce: input.nonce ?? null,
     createdAt: new Date(),
   };
 
@@ -1,6 +1,11 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { getPool } from '../lib/db.js';
+import { listCredits } from '../services/credits.js';
+import { listSettlementJobs, requeueSettlementJob } from '../services/settlement-queue.js';
+import { listDiscrepancies, resolveDiscrepancy } from '../services/reconciliation.js';
+import { emitWebhookEvent } from '../services/webhooks.js';
+import { revokeSessionPass } from '../services/session-pass.js';
 
 // Helper to verify admin role
 function isAdmin(user: { sub: string; address: string; role: string }): boolean {
@@ -29,7 +34,7 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
 
       const result = await pool.query(`
         SELECT m.id, m.type, m.name, m.description, m.tags, m.status, m.featured,
-               m.pricing_mode, m.price_amount, m.pay_to, m.network, m.asset_contract,
+               m.pricing_mode, m.price_amount, m.price_per_1k_tokens, m.pay_to, m.network, m.asset_contract,
                m.eval_score, m.created_at, m.updated_at,
                u.wallet_address as owner_address
         FROM modules m
@@ -47,6 +52,7 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
         featured: row.featured,
         pricingMode: row.pricing_mode,
         priceAmount: row.price_amount,
+        pricePer1kTokens: row.price_per_1k_tokens,
         payTo: row.pay_to,
         network: row.network,
         assetContract: row.asset_contract,
@@ -92,6 +98,15 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
         [id]
       );
 
+      await emitWebhookEvent(
+        {
+          event: 'module.blocked',
+          moduleId: id,
+          data: { moduleId: id, name: module.name, blockedAt: result.rows[0].updated_at },
+        },
+        request.log
+      );
+
       return reply.send({
         id: result.rows[0].id,
         status: result.rows[0].status,
@@ -311,4 +326,145 @@ export async function adminRoutes(fastify: FastifyInstance): Promise<void> {
       return reply.send({ users, count: users.length });
     }
   );
+
+  const CreditsQuerySchema = z.object({
+    moduleId: z.string().uuid().optional(),
+    status: z.enum(['outstanding', 'redeemed']).optional(),
+    limit: z.coerce.number().int().positive().max(500).default(100),
+  });
+
+  // List buyer credits across all modules (admin view)
+  fastify.get<{ Querystring: z.infer<typeof CreditsQuerySchema> }>(
+    '/api/admin/credits',
+    { preValidation: [requireAdmin] },
+    async (request: FastifyRequest<{ Querystring: z.infer<typeof CreditsQuerySchema> }>, reply: FastifyReply) => {
+      const parseResult = CreditsQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const credits = await listCredits(parseResult.data);
+      return reply.send({ credits, count: credits.length });
+    }
+  );
+
+  const SettlementsQuerySchema = z.object({
+    status: z.enum(['queued', 'processing', 'succeeded', 'dead']).optional(),
+    limit: z.coerce.number().int().positive().max(500).default(100),
+  });
+
+  // List background settlement jobs (?status=dead for the dead-letter queue)
+  fastify.get<{ Querystring: z.infer<typeof SettlementsQuerySchema> }>(
+    '/api/admin/settlements',
+    { preValidation: [requireAdmin] },
+    async (
+      request: FastifyRequest<{ Querystring: z.infer<typeof SettlementsQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const parseResult = SettlementsQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const jobs = await listSettlementJobs(parseResult.data);
+      return reply.send({ jobs, count: jobs.length });
+    }
+  );
+
+  // Requeue a dead-lettered settlement with a fresh set of attempts
+  fastify.post<{ Params: { id: string } }>(
+    '/api/admin/settlements/:id/retry',
+    { preValidation: [requireAdmin] },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const job = await requeueSettlementJob(request.params.id);
+      if (!job) {
+        return reply.status(404).send({ error: 'Dead-lettered settlement not found or expired' });
+      }
+
+      return reply.send({ job });
+    }
+  );
+
+  const DiscrepanciesQuerySchema = z.object({
+    kind: z.enum(['payment_unconfirmed', 'unrecorded_transfer']).optional(),
+    unresolved: z.enum(['true', 'false']).optional(),
+    limit: z.coerce.number().int().positive().max(500).default(100),
+  });
+
+  // Reconciliation discrepancy report across all sellers (?unresolved=true for the open ones)
+  fastify.get<{ Querystring: z.infer<typeof DiscrepanciesQuerySchema> }>(
+    '/api/admin/discrepancies',
+    { preValidation: [requireAdmin] },
+    async (
+      request: FastifyRequest<{ Querystring: z.infer<typeof DiscrepanciesQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const parseResult = DiscrepanciesQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const { kind, unresolved, limit } = parseResult.data;
+      const discrepancies = await listDiscrepancies({ kind, unresolvedOnly: unresolved === 'true', limit });
+      return reply.send({ discrepancies, count: discrepancies.length });
+    }
+  );
+
+  const ResolveDiscrepancySchema = z.object({
+    note: z.string().max(1000).optional(),
+  });
+
+  // Mark a discrepancy as investigated
+  fastify.post<{ Params: { id: string }; Body: z.infer<typeof ResolveDiscrepancySchema> }>(
+    '/api/admin/discrepancies/:id/resolve',
+    { preValidation: [requireAdmin] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: z.infer<typeof ResolveDiscrepancySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = ResolveDiscrepancySchema.safeParse(request.body ?? {});
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const discrepancy = await resolveDiscrepancy({
+        id: request.params.id,
+        resolvedBy: user.sub,
+        note: parseResult.data.note ?? null,
+      });
+      if (!discrepancy) {
+        return reply.status(404).send({ error: 'Unresolved discrepancy not found' });
+      }
+
+      return reply.send({ discrepancy });
+    }
+  );
+
+  // Revoke any buyer's session pass (e.g. a token posted publicly)
+  fastify.post<{ Params: { id: string } }>(
+    '/api/admin/session-passes/:id/revoke',
+    { preValidation: [requireAdmin] },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const sessionPass = await revokeSessionPass({ passId: request.params.id });
+      if (!sessionPass) {
+        return reply.status(404).send({ error: 'Session pass not found' });
+      }
+
+      return reply.send({ sessionPass });
+    }
+  );
 }
@@ -0,0 +1,216 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import type { PaymentErrorCode } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+import {
+  buildPaymentRequirements,
+  verifyPayment,
+  settlePayment,
+  encodePaymentResponseHeader,
+  describePaymentError,
+} from '../services/x402.js';
+import { createDeposit, getBalances, getStatement } from '../services/balance.js';
+
+const DepositSchema = z.object({
+  amount: z
+    .string()
+    .regex(/^\d+$/, 'Amount must be a non-negative integer string')
+    .refine((val) => BigInt(val) > 0n, 'Amount must be greater than 0'),
+});
+
+type DepositRequest = z.infer<typeof DepositSchema>;
+
+const StatementQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(200).default(50),
+  before: z.string().regex(/^\d+$/).optional(),
+});
+
+export async function balanceRoutes(fastify: FastifyInstance): Promise<void> {
+  // Top up the prepaid balance with a single x402 payment to the platform
+  fastify.post<{ Body: DepositRequest }>(
+    '/api/balance/deposit',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Body: DepositRequest }>, reply: FastifyReply) => {
+      const user = request.user as { sub: string; address: string; role: string };
+      const config = getConfig();
+
+      if (!config.PLATFORM_PAY_TO) {
+        return reply.status(404).send({ error: 'Prepaid balances are not enabled' });
+      }
+
+      const parseResult = DepositSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const { amount } = parseResult.data;
+      const requirements = buildPaymentRequirements(config.PLATFORM_PAY_TO, amount, `balance top-up: ${amount}`);
+
+      const paymentHeader = request.headers['x-payment'] as string | undefined;
+      if (!paymentHeader) {
+        return reply.status(402).send({
+          error: 'Payment Required',
+          paymentRequirements: requirements,
+        });
+      }
+
+      const verifyResult = await verifyPayment(paymentHeader, requirements);
+      if (!verifyResult.valid) {
+        await recordFailedDeposit({
+          payerWallet: verifyResult.payer || 'unknown',
+          payTo: requirements.payTo,
+          value: verifyResult.value || amount,
+          network: requirements.network,
+          asset: requirements.asset,
+          error: `verify: ${verifyResult.error}`,
+          errorCode: verifyResult.code ?? 'UNKNOWN',
+          nonce: verifyResult.nonce,
+        });
+
+        return reply.status(402).send({
+          error: 'Payment verification failed',
+          details: verifyResult.error,
+          reason: verifyResult.reason,
+          ...describePaymentError(verifyResult.code),
+          paymentRequirements: requirements,
+        });
+      }
+
+      // The balance belongs to the signed-in wallet, so it must also be the payer
+      if (verifyResult.payer?.toLowerCase() !== user.address.toLowerCase()) {
+        return reply.status(403).send({ error: 'Payment must be signed by the authenticated wallet' });
+      }
+
+      // The balance is credited with what the authorization transfers, so it must be the requested amount
+      const value = verifyResult.value;
+      if (!value || !/^\d+$/.test(value) || BigInt(value) !== BigInt(amount)) {
+        return reply.status(402).send({
+          error: 'Payment amount does not match the deposit',
+          details: `X-PAYMENT must transfer exactly ${amount}`,
+          paymentRequirements: requirements,
+        });
+      }
+
+      const settleResult = await settlePayment(paymentHeader, requirements);
+      if (!settleResult.success) {
+        await recordFailedDeposit({
+          payerWallet: verifyResult.payer,
+          payTo: requirements.payTo,
+          value,
+          network: requirements.network,
+          asset: requirements.asset,
+          error: `settle: ${settleResult.error}`,
+          errorCode: settleResult.code,
+          nonce: verifyResult.nonce,
+        });
+
+        return reply.status(402).send({
+          error: 'Payment settlement failed',
+          details: settleResult.error,
+          reason: settleResult.reason,
+          ...describePaymentError(settleResult.code),
+          paymentRequirements: requirements,
+        });
+      }
+
+      const deposit = await createDeposit({
+        walletAddress: user.address,
+        network: requirements.network,
+        asset: requirements.asset,
+        payTo: requirements.payTo,
+        amount: value,
+        txHash: settleResult.txHash,
+        nonce: settleResult.nonce,
+      });
+
+      reply.header(
+        'X-PAYMENT-RESPONSE',
+        encodePaymentResponseHeader({
+          success: true,
+          transaction: settleResult.txHash,
+          network: requirements.network,
+          payer: verifyResult.payer,
+        })
+      );
+      return reply.status(201).send({
+        deposit: {
+          paymentId: deposit.paymentId,
+          amount: value,
+          network: requirements.network,
+          asset: deposit.entry.asset,
+          txHash: settleResult.txHash,
+          isMock: settleResult.isMock,
+        },
+        balance: deposit.balance,
+      });
+    }
+  );
+
+  // Current prepaid balances for the signed-in wallet
+  fastify.get('/api/balance', { preValidation: [fastify.authenticate] }, async (request: FastifyRequest) => {
+    const user = request.user as { sub: string; address: string; role: string };
+    return {
+      walletAddress: user.address.toLowerCase(),
+      balances: await getBalances(user.address),
+    };
+  });
+
+  // Ledger statement (deposits, debits, refunds), newest first; page with ?before=<entry id>
+  fastify.get<{ Querystring: z.infer<typeof StatementQuerySchema> }>(
+    '/api/balance/statement',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Querystring: z.infer<typeof StatementQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = StatementQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const entries = await getStatement({ walletAddress: user.address, ...parseResult.data });
+      return reply.send({
+        entries,
+        nextCursor: entries.length === parseResult.data.limit ? entries[entries.length - 1].id : null,
+      });
+    }
+  );
+}
+
+// Helper functions
+
+async function recordFailedDeposit(payment: {
+  payerWallet: string;
+  payTo: string;
+  value: string;
+  network: string;
+  asset: string;
+  error: string;
+  errorCode: PaymentErrorCode;
+  nonce?: string;
+}): Promise<void> {
+  const pool = getPool();
+  await pool.query(
+    `INSERT INTO payments (module_id, payer_wallet, pay_to, value, network, asset, event, error, error_code, nonce)
+     VALUES (NULL, $1, $2, $3, $4, $5, 'failed', $6, $7, $8)`,
+    [
+      payment.payerWallet,
+      payment.payTo,
+      payment.value,
+      payment.network,
+      payment.asset,
+      payment.error,
+      payment.errorCode,
+      payment.nonce ?? null,
+    ]
+  );
+}
@@ -1,26 +1,102 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
+import type {
+  BuyerCredit,
+  Coupon,
+  FreeTierPolicy,
+  PaymentErrorCode,
+  PaymentEvent,
+  PaymentOption,
+  PricingTier,
+  Subscription,
+  SubscriptionPolicy,
+} from '@soulforge/shared';
 import { getPool } from '../lib/db.js';
-import { buildPaymentRequirements, verifyPayment, settlePayment } from '../services/x402.js';
+import {
+  buildPaymentRequirements,
+  buildAcceptedPaymentRequirements,
+  selectPaymentRequirements,
+  verifyPayment,
+  settlePayment,
+  claimSettlement,
+  completeClaimedSettlement,
+  computeMeteredCharge,
+  scaleAmount,
+  encodePaymentResponseHeader,
+  describePaymentError,
+  getPaymentValidBefore,
+  type SettlementClaim,
+} from '../services/x402.js';
 import { executeRAG } from '../services/rag.js';
 import {
-  checkTryOnceEligible,
-  recordTryOnceUsage,
-  truncateForTryOnce,
-  TRY_ONCE_LIMITS,
-} from '../services/try-once.js';
+  claimFreeMessage,
+  resolveFreeTierPolicy,
+  truncateFreePreview,
+  type FreeTierClaim,
+} from '../services/free-tier.js';
+import { isFreeChallengeRequired, verifyFreeChallenge } from '../services/free-challenge.js';
 import {
   issueSessionPass,
   validateSessionPass,
   consumeSessionCredit,
+  refundSessionCredit,
   supportsSessionPass,
   type SessionPolicy,
   type SessionPassInfo,
 } from '../services/session-pass.js';
 import {
+  AgentWalletBudgetError,
   buildAgentPaymentHeader,
   getAgentWallet,
+  releaseAgentWalletReservation,
 } from '../services/agent-wallet.js';
+import { createCredit, redeemCredit, attachCreditChat, restoreCredit } from '../services/credits.js';
+import { debitBalance, refundDebit, attachDebitChat, getBalance, type BalanceDebit } from '../services/balance.js';
+import {
+  consumeSubscriptionMessage,
+  getSubscription,
+  grantSubscriptionPeriod,
+  isRenewalDue,
+  releaseSubscriptionMessage,
+} from '../services/subscriptions.js';
+import {
+  consumePackCredit,
+  findPricingTier,
+  getPackCreditsRemaining,
+  getTierPaymentOptions,
+  issueCreditPack,
+  restorePackCredit,
+} from '../services/credit-packs.js';
+import { issueReceipt, hashChatRequest, hashChatResponse } from '../services/receipts.js';
+import {
+  enqueueSettlement,
+  releaseSettlementDeferral,
+  reserveSettlementDeferral,
+} from '../services/settlement-queue.js';
+import {
+  releaseSpendingPolicyReservation,
+  reserveWithinSpendingPolicy,
+  type SpendingPolicyCheck,
+} from '../services/spending-policy.js';
+import { emitPaymentWebhook, emitWebhookEvent } from '../services/webhooks.js';
+import {
+  applyCouponDiscount,
+  attachRedemptionChat,
+  findCouponForModule,
+  recordCouponRedemption,
+  redeemFreeMessage,
+  releaseCouponUse,
+  reserveCouponUse,
+  restoreFreeMessage,
+} from '../services/coupons.js';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  computeChatFingerprint,
+  getIdempotencyCaller,
+  isValidIdempotencyKey,
+  releaseIdempotencyKey,
+} from '../services/idempotency.js';
 import {
   logPaymentAttempt,
   logPaymentVerify,
@@ -31,6 +107,16 @@ const ChatRequestSchema = z.object({
   chatId: z.string().uuid().optional().nullable(),
   message: z.string().min(1).max(4000),
   mode: z.enum(['try', 'paid']).optional(), // 'try' for free preview, 'paid' for payment flow
+  tierId: z.string().max(32).optional(), // buy this credit pack instead of a single message
+  // Answer to a challenge from POST /api/modules/:id/free-challenge, for free messages
+  freeChallenge: z
+    .object({
+      id: z.string().uuid(),
+      pow: z.string().max(64).optional(),
+      message: z.string().max(2000).optional(),
+      signature: z.string().max(200).optional(),
+    })
+    .optional(),
 });
 
 type ChatRequest = z.infer<typeof ChatRequestSchema>;
@@ -42,10 +128,15 @@ interface ModuleInfo {
   type: 'base' | 'remix';
   payTo: string;
   priceAmount: string;
+  pricePer1kTokens: string | null;
   pricingMode: string;
   sessionPolicy: SessionPolicy | null;
+  subscriptionPolicy: SubscriptionPolicy | null;
+  pricingTiers: PricingTier[] | null;
+  freeTierPolicy: FreeTierPolicy | null;
   network: string;
   assetContract: string;
+  paymentOptions: PaymentOption[] | null;
   personaPrompt: string;
   upstreamModuleId: string | null;
   remixPolicy: {
@@ -56,6 +147,39 @@ interface ModuleInfo {
   } | null;
 }
 
+// Idempotency-Key claims held by in-flight chat requests; resolved in onSend
+const idempotencyClaims = new WeakMap<FastifyRequest, { caller: string; key: string; charged: boolean }>();
+
+/**
+ * onSend: store the response under the request's Idempotency-Key if it is final
+ * (success, or anything after a payment was taken); otherwise free the key for a retry.
+ */
+async function finishIdempotentRequest(request: FastifyRequest, reply: FastifyReply, payload: unknown) {
+  const claim = idempotencyClaims.get(request);
+  if (!claim) return payload;
+  idempotencyClaims.delete(request);
+
+  const moduleId = (request.params as { id: string }).id;
+  try {
+    if ((reply.statusCode < 300 || claim.charged) && typeof payload === 'string') {
+      const paymentResponse = reply.getHeader('x-payment-response');
+      await completeIdempotencyKey({
+        moduleId,
+        caller: claim.caller,
+        key: claim.key,
+        responseStatus: reply.statusCode,
+        responseBody: JSON.parse(payload),
+        paymentResponse: typeof paymentResponse === 'string' ? paymentResponse : null,
+      });
+    } else {
+      await releaseIdempotencyKey({ moduleId, caller: claim.caller, key: claim.key });
+    }
+  } catch (err) {
+    request.log.warn(err, 'Failed to record idempotent response');
+  }
+  return payload;
+}
+
 interface UpstreamPayment {
   txHash?: string;
   from?: string;
@@ -68,6 +192,7 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
   // Chat endpoint for modules
   fastify.post<{ Params: { id: string }; Body: ChatRequest }>(
     '/api/modules/:id/chat',
+    { preValidation: [fastify.authenticateOptional], onSend: finishIdempotentRequest },
     async (request: FastifyRequest<{ Params: { id: string }; Body: ChatRequest }>, reply: FastifyReply) => {
       const { id } = request.params;
       const pool = getPool();
@@ -81,12 +206,13 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
-      const { chatId, message, mode } = parseResult.data;
+      const { chatId, message, mode, tierId, freeChallenge } = parseResult.data;
 
       // Fetch module
       const moduleResult = await pool.query(
-        `SELECT id, name, status, type, pay_to, price_amount, pricing_mode, session_policy,
-                network, asset_contract, persona_prompt, upstream_module_id, remix_policy
+        `SELECT id, name, status, type, pay_to, price_amount, price_per_1k_tokens, pricing_mode, session_policy,
+                subscription_policy, pricing_tiers, network, asset_contract, payment_options, persona_prompt,
+                free_tier_policy, upstream_module_id, remix_policy
          FROM modules WHERE id = $1`,
         [id]
       );
@@ -95,6 +221,40 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
         return reply.status(404).send({ error: 'Module not found' });
       }
 
+      // Idempotency-Key: a retried request replays the first response instead of paying again
+      const idempotencyKey = request.headers['idempotency-key'];
+      if (typeof idempotencyKey === 'string') {
+        if (!isValidIdempotencyKey(idempotencyKey)) {
+          return reply.status(400).send({ error: 'Idempotency-Key must be 1-255 visible ASCII characters' });
+        }
+
+        const caller = getIdempotencyCaller({
+          signedInWallet: (request.user as { address?: string } | undefined)?.address,
+          paymentHeader: request.headers['x-payment'] as string | undefined,
+          sessionPassToken: request.headers['x-session-pass'] as string | undefined,
+          clientIp: request.ip,
+        });
+        const claim = await claimIdempotencyKey({
+          moduleId: id,
+          caller,
+          key: idempotencyKey,
+          fingerprint: computeChatFingerprint({ moduleId: id, ...parseResult.data }),
+        });
+        if (claim.status === 'mismatch') {
+          return reply.status(422).send({ error: 'Idempotency-Key was already used for a different request' });
+        }
+        if (claim.status === 'in_progress') {
+          return reply.status(409).send({ error: 'A request with this Idempotency-Key is still in progress' });
+        }
+        if (claim.status === 'replay') {
+          if (claim.paymentResponse) {
+            reply.header('X-PAYMENT-RESPONSE', claim.paymentResponse);
+          }
+          return reply.header('Idempotent-Replayed', 'true').status(claim.responseStatus).send(claim.responseBody);
+        }
+        idempotencyClaims.set(request, { caller, key: idempotencyKey, charged: false });
+      }
+
       const module: ModuleInfo = {
         id: moduleResult.rows[0].id,
         name: moduleResult.rows[0].name,
@@ -102,10 +262,15 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
         type: moduleResult.rows[0].type as 'base' | 'remix',
         payTo: moduleResult.rows[0].pay_to,
         priceAmount: moduleResult.rows[0].price_amount,
+        pricePer1kTokens: moduleResult.rows[0].price_per_1k_tokens,
         pricingMode: moduleResult.rows[0].pricing_mode,
         sessionPolicy: moduleResult.rows[0].session_policy as SessionPolicy | null,
+        subscriptionPolicy: moduleResult.rows[0].subscription_policy as SubscriptionPolicy | null,
+        pricingTiers: moduleResult.rows[0].pricing_tiers as PricingTier[] | null,
+        freeTierPolicy: moduleResult.rows[0].free_tier_policy as FreeTierPolicy | null,
         network: moduleResult.rows[0].network,
         assetContract: moduleResult.rows[0].asset_contract,
+        paymentOptions: moduleResult.rows[0].payment_options as PaymentOption[] | null,
         personaPrompt: moduleResult.rows[0].persona_prompt || '',
         upstreamModuleId: moduleResult.rows[0].upstream_module_id,
         remixPolicy: moduleResult.rows[0].remix_policy,
@@ -116,32 +281,81 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
         return reply.status(404).send({ error: 'Module not available' });
       }
 
-      // Get client identifiers for try-once check
+      // Get client identifiers for the free tier
       const clientIp = request.ip;
       const walletAddress = request.headers['x-wallet-address'] as string | undefined;
-      const paymentDescription = `module:${module.id} / 1 ${
-        module.pricingMode === 'per_message' ? 'message' : 'session'
-      }`;
+      // Wallet proven by a SIWE JWT (required for prepaid balances and subscriptions)
+      const signedInWallet = (request.user as { address?: string } | undefined)?.address;
+      const isSubscription = module.pricingMode === 'subscription' && module.subscriptionPolicy !== null;
+      const isPerMessage = module.pricingMode === 'per_message';
+
+      // Credit packs are sold on per_message modules only
+      const selectedTier = tierId ? findPricingTier(isPerMessage ? module.pricingTiers : null, tierId) : null;
+      if (tierId && !selectedTier) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: [{ path: ['tierId'], message: 'Unknown pricing tier for this module' }],
+        });
+      }
+
+      const paymentDescription = selectedTier
+        ? `module:${module.id} / ${selectedTier.credits}-message pack`
+        : isSubscription
+          ? `module:${module.id} / ${module.subscriptionPolicy?.periodDays}-day subscription`
+          : `module:${module.id} / 1 ${module.pricingMode === 'per_session' ? 'session' : 'message'}`;
+      // Metered modules advertise price_amount as the cap and charge actual usage
+      const isMetered = module.pricingMode === 'metered';
+      const paymentScheme = isMetered ? 'upto' : 'exact';
+      // Coupon (X-COUPON): a discount lowers every accepted price; free messages skip payment below
+      let coupon: Coupon | null = null;
+      const couponHeader = request.headers['x-coupon'];
+      if (typeof couponHeader === 'string' && mode !== 'try') {
+        const couponCheck = await findCouponForModule({ code: couponHeader, moduleId: id });
+        if (!couponCheck.valid) {
+          return reply.status(400).send({ error: couponCheck.error, reason: couponCheck.reason });
+        }
+        coupon = couponCheck.coupon;
+      }
+
+      // Every (network, asset) pair the module accepts; the first is its primary option
+      const listAccepts = buildAcceptedPaymentRequirements({
+        payTo: module.payTo,
+        priceAmount: selectedTier ? selectedTier.priceAmount : module.priceAmount,
+        description: paymentDescription,
+        scheme: paymentScheme,
+        paymentOptions: selectedTier
+          ? getTierPaymentOptions(module.paymentOptions, module.priceAmount, selectedTier)
+          : module.paymentOptions,
+      });
+      const accepts = coupon?.discountPercent ? applyCouponDiscount(listAccepts, coupon.discountPercent) : listAccepts;
 
       // Check for session pass (skip payment if valid)
       const sessionPassHeader = request.headers['x-session-pass'] as string | undefined;
       if (sessionPassHeader) {
         const sessionPassResult = await validateSessionPass(sessionPassHeader);
 
-        if (sessionPassResult.valid && sessionPassResult.payload) {
-          // Verify session pass is for this module
-          if (sessionPassResult.payload.moduleId !== id) {
-            return reply.status(403).send({
-              error: 'Session pass not valid for this module',
-            });
-          }
-
-          // Consume a credit
-          const { creditsRemaining } = await consumeSessionCredit({
-            moduleId: id,
-            walletAddress: sessionPassResult.payload.sub,
-            paymentTxHash: sessionPassResult.payload.paymentTxHash,
+        // Verify session pass is for this module
+        if (sessionPassResult.payload && sessionPassResult.payload.moduleId !== id) {
+          return reply.status(403).send({
+            error: 'Session pass not valid for this module',
           });
+        }
+
+        // Consume a credit: this alone decides whether one is left (atomic, so concurrent requests
+        // cannot both spend the last one)
+        const sessionCredit =
+          sessionPassResult.valid && sessionPassResult.payload
+            ? {
+                passId: sessionPassResult.payload.passId,
+                moduleId: id,
+                walletAddress: sessionPassResult.payload.sub,
+                paymentTxHash: sessionPassResult.payload.paymentTxHash,
+              }
+            : null;
+        const consumed = sessionCredit ? await consumeSessionCredit(sessionCredit) : null;
+
+        if (sessionCredit && consumed && sessionPassResult.payload) {
+          const { creditsRemaining } = consumed;
 
           // Execute RAG with session pass (full response, no limits)
           try {
@@ -183,98 +397,479 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
             });
           } catch (err) {
             fastify.log.error(err, 'Failed to execute RAG with session pass');
+            await refundSessionCredit(sessionCredit);
             return reply.status(500).send({ error: 'Failed to generate response' });
           }
         } else {
           // Session pass invalid/expired/exhausted - fall through to payment flow
           // but inform client about session pass status
-          fastify.log.info({ error: sessionPassResult.error }, 'Session pass invalid, requiring payment');
+          fastify.log.info(
+            { error: sessionPassResult.error ?? 'Session pass credits exhausted' },
+            'Session pass invalid, requiring payment'
+          );
         }
       }
 
-      // Check for free try eligibility
-      if (mode === 'try' || !request.headers['x-payment']) {
-        const eligibility = await checkTryOnceEligible({
+      // Free-message coupon: one full reply without payment, limited per signed-in wallet
+      if (coupon?.freeMessages && mode !== 'try' && !request.headers['x-payment']) {
+        if (!signedInWallet) {
+          return reply.status(401).send({ error: 'Sign in to redeem a free-message coupon' });
+        }
+
+        const freeMessage = await redeemFreeMessage({
+          couponId: coupon.id,
           moduleId: id,
-          walletAddress,
-          ipAddress: clientIp,
+          walletAddress: signedInWallet,
+          listPrice: listAccepts[0].maxAmountRequired,
         });
 
-        if (eligibility.eligible) {
-          // Execute free try
+        if (freeMessage) {
           try {
-            const ragResult = await executeRAG({
-              moduleId: id,
-              userMessage: message,
-              maxContextDocs: 3, // Fewer docs for free try
+            const { ragResult, upstreamPayment } = await generatePaidReply(fastify, pool, module, chatId, message);
+
+            // Create or get chat
+            const chatResult = await getOrCreateChat(pool, chatId, id, signedInWallet);
+
+            // Save messages
+            await saveMessage(pool, chatResult.id, 'user', message);
+            await saveMessage(pool, chatResult.id, 'assistant', ragResult.reply, ragResult.usage);
+
+            await attachRedemptionChat(freeMessage.redemption.id, chatResult.id);
+
+            return reply.send({
+              chatId: chatResult.id,
+              reply: ragResult.reply,
+              coupon: {
+                code: coupon.code,
+                kind: 'free_message',
+                freeMessagesRemaining: freeMessage.freeMessagesRemaining,
+              },
+              upstreamPayment,
             });
+          } catch (err) {
+            fastify.log.error(err, 'Failed to execute RAG with coupon');
+            await restoreFreeMessage(freeMessage.redemption);
+            return reply.status(err instanceof ReplyGenerationError ? err.statusCode : 500).send({
+              error: err instanceof ReplyGenerationError ? err.message : 'Failed to generate response',
+              details: err instanceof ReplyGenerationError ? err.details : undefined,
+            });
+          }
+        }
+        // This wallet's free messages are used up: fall through to the paid flow
+      }
+
+      // Serve subscribers from their current paid period (paying again with X-PAYMENT renews instead)
+      if (isSubscription && mode !== 'try' && !request.headers['x-payment'] && signedInWallet) {
+        const access = await consumeSubscriptionMessage({ moduleId: id, walletAddress: signedInWallet });
+
+        if (access.status === 'cap_reached') {
+          return reply.status(429).send({
+            error: 'Fair-use message cap reached for this subscription period',
+            subscription: formatSubscription(access.subscription),
+            retryAfter: access.subscription.currentPeriodEnd,
+          });
+        }
+
+        if (access.status === 'ok') {
+          try {
+            const { ragResult, upstreamPayment } = await generatePaidReply(fastify, pool, module, chatId, message);
+
+            // Create or get chat
+            const chatResult = await getOrCreateChat(pool, chatId, id, signedInWallet);
+
+            // Save messages
+            await saveMessage(pool, chatResult.id, 'user', message);
+            await saveMessage(pool, chatResult.id, 'assistant', ragResult.reply, ragResult.usage);
+
+            return reply.send({
+              chatId: chatResult.id,
+              reply: ragResult.reply,
+              subscription: formatSubscription(access.subscription),
+              upstreamPayment,
+            });
+          } catch (err) {
+            fastify.log.error(err, 'Failed to execute RAG for subscriber');
+            await releaseSubscriptionMessage(access.periodId);
+            return reply.status(err instanceof ReplyGenerationError ? err.statusCode : 500).send({
+              error: err instanceof ReplyGenerationError ? err.message : 'Failed to generate response',
+              details: err instanceof ReplyGenerationError ? err.details : undefined,
+            });
+          }
+        }
+      }
+
+      // Redeem an outstanding credit from an earlier paid turn that failed after settlement.
+      // Only for the SIWE-authenticated payer: X-WALLET-ADDRESS is unverified.
+      if (mode !== 'try' && !request.headers['x-payment'] && signedInWallet) {
+        const credit = await redeemCredit({ moduleId: id, walletAddress: signedInWallet });
+
+        if (credit) {
+          try {
+            const { ragResult, upstreamPayment } = await generatePaidReply(fastify, pool, module, chatId, message);
+
+            // Create or get chat
+            const chatResult = await getOrCreateChat(pool, chatId, id, signedInWallet);
+
+            // Save messages
+            await saveMessage(pool, chatResult.id, 'user', message);
+            await saveMessage(pool, chatResult.id, 'assistant', ragResult.reply, ragResult.usage);
+
+            await attachCreditChat(credit.id, chatResult.id);
+
+            return reply.send({
+              chatId: chatResult.id,
+              reply: ragResult.reply,
+              credit: {
+                id: credit.id,
+                value: credit.value,
+                paymentId: credit.paymentId,
+                status: credit.status,
+              },
+              upstreamPayment,
+            });
+          } catch (err) {
+            fastify.log.error(err, 'Failed to execute RAG with buyer credit');
+            await restoreCredit(credit.id);
+            return reply.status(err instanceof ReplyGenerationError ? err.statusCode : 500).send({
+              error: err instanceof ReplyGenerationError ? err.message : 'Failed to generate response',
+              details: err instanceof ReplyGenerationError ? err.details : undefined,
+              credit: {
+                id: credit.id,
+                value: credit.value,
+                paymentId: credit.paymentId,
+                status: 'outstanding',
+              },
+            });
+          }
+        }
+      }
+
+      // Spend a credit from a pack the signed-in buyer bought earlier
+      if (isPerMessage && !selectedTier && mode !== 'try' && !request.headers['x-payment'] && signedInWallet) {
+        const pack = await consumePackCredit({ moduleId: id, walletAddress: signedInWallet });
+
+        if (pack) {
+          try {
+            const { ragResult, upstreamPayment } = await generatePaidReply(fastify, pool, module, chatId, message);
+
+            // Create or get chat
+            const chatResult = await getOrCreateChat(pool, chatId, id, signedInWallet);
+
+            // Save messages
+            await saveMessage(pool, chatResult.id, 'user', message);
+            await saveMessage(pool, chatResult.id, 'assistant', ragResult.reply, ragResult.usage);
+
+            return reply.send({
+              chatId: chatResult.id,
+              reply: ragResult.reply,
+              creditPack: {
+                id: pack.id,
+                tierId: pack.tierId,
+                creditsRemaining: await getPackCreditsRemaining({ moduleId: id, walletAddress: signedInWallet }),
+              },
+              upstreamPayment,
+            });
+          } catch (err) {
+            fastify.log.error(err, 'Failed to execute RAG with pack credit');
+            await restorePackCredit(pack.id);
+            return reply.status(err instanceof ReplyGenerationError ? err.statusCode : 500).send({
+              error: err instanceof ReplyGenerationError ? err.message : 'Failed to generate response',
+              details: err instanceof ReplyGenerationError ? err.details : undefined,
+            });
+          }
+        }
+      }
+
+      // Debit the signed-in buyer's prepaid balance instead of asking for an on-chain payment.
+      // Session passes and subscriptions still need a real payment (their grants are bound to it).
+      const balanceWallet = (isPerMessage && !selectedTier) || isMetered ? signedInWallet : undefined;
+      if (mode !== 'try' && !request.headers['x-payment'] && balanceWallet) {
+        // A discounted debit counts as a coupon use
+        const couponReserved = coupon?.discountPercent ? await reserveCouponUse(coupon.id) : false;
+        if (coupon?.discountPercent && !couponReserved) {
+          return reply.status(409).send({ error: 'Coupon has been fully redeemed', reason: 'exhausted' });
+        }
+
+        // Metered turns reserve the cap and refund whatever the turn did not use.
+        // Debits are spend under the buyer's own spending policy, just like x402 payments.
+        let debit: BalanceDebit | null = null;
+        let debitRequirements = accepts[0];
+        let policyRefusal: Extract<SpendingPolicyCheck, { allowed: false }> | undefined;
+        for (const option of accepts) {
+          const policyCheck = await reserveWithinSpendingPolicy({
+            payer: balanceWallet,
+            moduleId: id,
+            value: option.maxAmountRequired,
+          });
+          if (!policyCheck.allowed) {
+            policyRefusal = policyCheck;
+            continue;
+          }
+          debit = await debitBalance({
+            walletAddress: balanceWallet,
+            network: option.network,
+            asset: option.asset,
+            amount: option.maxAmountRequired,
+            moduleId: id,
+            payTo: option.payTo,
+            memo: paymentDescription,
+          });
+          // A debit counts against the policy from the ledger itself
+          await releaseSpendingPolicyReservation(policyCheck.reservationId);
+          if (debit) {
+            debitRequirements = option;
+            break;
+          }
+        }
+
+        if (!debit && policyRefusal) {
+          if (coupon && couponReserved) await releaseCouponUse(coupon.id);
+          request.log.warn(
+            { moduleId: id, payer: balanceWallet, ...policyRefusal },
+            'Balance debit refused by spending policy'
+          );
+          return reply.status(403).send({
+            error: 'Payment would exceed the payer\'s spending policy',
+            reason: 'spending_policy_exceeded',
+            limit: policyRefusal.limit,
+            limitAmount: policyRefusal.limitAmount,
+            attemptedTotal: policyRefusal.attemptedTotal,
+          });
+        }
+
+        if (debit) {
+          try {
+            const { ragResult, upstreamPayment } = await generatePaidReply(fastify, pool, module, chatId, message);
+
+            let debited = debit.amount;
+            if (isMetered && module.pricePer1kTokens) {
+              debited = scaleAmount(
+                computeMeteredCharge(ragResult.usage.totalTokens, module.pricePer1kTokens, module.priceAmount),
+                module.priceAmount,
+                debitRequirements.maxAmountRequired
+              );
+              const unused = BigInt(debit.amount) - BigInt(debited);
+              if (unused > 0n) await refundDebit(debit, unused.toString(), 'metered: unused reservation');
+            }
+
+            // Create or get chat
+            const chatResult = await getOrCreateChat(pool, chatId, id, balanceWallet);
+
+            // Save messages
+            await saveMessage(pool, chatResult.id, 'user', message);
+            await saveMessage(pool, chatResult.id, 'assistant', ragResult.reply, ragResult.usage);
+
+            await attachDebitChat(debit, chatResult.id);
+
+            if (coupon && couponReserved) {
+              const listPrice = listAccepts[accepts.indexOf(debitRequirements)].maxAmountRequired;
+              await recordCouponRedemption({
+                couponId: coupon.id,
+                moduleId: id,
+                walletAddress: balanceWallet,
+                discountAmount: (
+                  BigInt(scaleAmount(debited, debitRequirements.maxAmountRequired, listPrice)) - BigInt(debited)
+                ).toString(),
+                chatId: chatResult.id,
+              });
+            }
+
+            return reply.send({
+              chatId: chatResult.id,
+              reply: ragResult.reply,
+              balance: {
+                debited,
+                remaining: (BigInt(debit.balanceAfter) + BigInt(debit.amount) - BigInt(debited)).toString(),
+                network: debit.network,
+                asset: debit.asset,
+              },
+              coupon:
+                couponReserved && coupon ? { code: coupon.code, discountPercent: coupon.discountPercent } : undefined,
+              upstreamPayment,
+            });
+          } catch (err) {
+            fastify.log.error(err, 'Failed to execute RAG with prepaid balance');
+            await refundDebit(debit, debit.amount, 'refund: failed turn');
+            if (coupon && couponReserved) await releaseCouponUse(coupon.id);
+            return reply.status(err instanceof ReplyGenerationError ? err.statusCode : 500).send({
+              error: err instanceof ReplyGenerationError ? err.message : 'Failed to generate response',
+              details: err instanceof ReplyGenerationError ? err.details : undefined,
+              balance: { debited: '0', network: debit.network, asset: debit.asset },
+            });
+          }
+        }
 
-            // Record usage
-            await recordTryOnceUsage({
+        // Nothing was debited, so the coupon was not used
+        if (coupon && couponReserved) await releaseCouponUse(coupon.id);
+      }
+
+      // Free tier: the module's policy decides how many unpaid messages a wallet/IP gets per day
+      const freeTierPolicy = resolveFreeTierPolicy(module.freeTierPolicy);
+      if (mode === 'try' || !request.headers['x-payment']) {
+        // A challenge is only spent when the module gives anything away
+        const freeCheck =
+          freeTierPolicy.messagesPerDay > 0
+            ? await verifyFreeChallenge({ moduleId: id, answer: freeChallenge, signedInWallet })
+            : null;
+        let freeClaim: FreeTierClaim;
+        if (freeCheck && !freeCheck.passed) {
+          freeClaim = { claimed: false, reason: freeCheck.reason, used: 0, resetsInSeconds: null };
+        } else {
+          // With challenges on, only a signed-in or signature-proven wallet counts; the header is unverified
+          const freeWallet = freeCheck?.kind === 'none' ? walletAddress : (freeCheck?.walletAddress ?? undefined);
+          freeClaim = await claimFreeMessage(
+            { moduleId: id, walletAddress: freeWallet, ipAddress: clientIp },
+            freeTierPolicy
+          );
+        }
+
+        if (freeClaim.claimed) {
+          try {
+            const ragResult = await executeRAG({
               moduleId: id,
-              walletAddress,
-              ipAddress: clientIp,
+              userMessage: message,
+              maxContextDocs: freeTierPolicy.fullAnswers ? undefined : 3, // Fewer docs for previews
             });
 
-            // Truncate response for free preview
-            const truncatedReply = truncateForTryOnce(ragResult.reply);
+            const freeReply = freeTierPolicy.fullAnswers ? ragResult.reply : truncateFreePreview(ragResult.reply);
 
             // Create or get chat
             const chatResult = await getOrCreateChat(pool, chatId, id, walletAddress);
 
             // Save messages
             await saveMessage(pool, chatResult.id, 'user', message);
-            await saveMessage(pool, chatResult.id, 'assistant', truncatedReply, ragResult.usage);
+            await saveMessage(pool, chatResult.id, 'assistant', freeReply, ragResult.usage);
 
             return reply.send({
               chatId: chatResult.id,
-              reply: truncatedReply,
+              reply: freeReply,
               isTryOnce: true,
-              message: 'This is a free preview. Pay to unlock full responses.',
+              freeTier: {
+                remaining: freeClaim.remaining,
+                messagesPerDay: freeTierPolicy.messagesPerDay,
+                fullAnswers: freeTierPolicy.fullAnswers,
+              },
+              message: freeTierPolicy.fullAnswers
+                ? `Free message (${freeClaim.remaining} left today).`
+                : 'This is a free preview. Pay to unlock full responses.',
             });
           } catch (err) {
             fastify.log.error(err, 'Failed to execute free try');
+            await freeClaim.release();
             return reply.status(500).send({ error: 'Failed to generate response' });
           }
         }
 
         // Not eligible for free try and no payment - return 402
         if (!request.headers['x-payment']) {
-          const paymentRequirements = buildPaymentRequirements(module.payTo, module.priceAmount, paymentDescription);
-
           const response402: {
             error: string;
             paymentRequirements: ReturnType<typeof buildPaymentRequirements>;
+            accepts: ReturnType<typeof buildPaymentRequirements>[];
             tryOnceUsed: boolean;
-            tryOnceUsedAt?: string;
+            freeTier: FreeTierPolicy & { used: number; resetsInSeconds: number | null; reason: string };
+            freeChallenge?: { endpoint: string };
             sessionPassSupported?: boolean;
             sessionPolicy?: SessionPolicy;
+            metered?: { pricePer1kTokens: string; maxAmount: string };
+            prepaidBalance?: { balance: string; required: string; network: string; asset: string };
+            subscriptionPolicy?: SubscriptionPolicy;
+            subscription?: ReturnType<typeof formatSubscription>;
+            pricingTiers?: Array<PricingTier & { accepts: ReturnType<typeof buildPaymentRequirements>[] }>;
+            coupon?: { code: string; discountPercent: number | null; listPrice: string };
           } = {
             error: 'Payment Required',
-            paymentRequirements,
-            tryOnceUsed: true,
-            tryOnceUsedAt: eligibility.usedAt,
+            paymentRequirements: accepts[0],
+            accepts,
+            tryOnceUsed: freeTierPolicy.messagesPerDay > 0,
+            freeTier: {
+              ...freeTierPolicy,
+              used: freeClaim.used,
+              resetsInSeconds: freeClaim.resetsInSeconds,
+              reason: freeClaim.reason,
+            },
           };
 
+          // Free messages need an answered challenge: fetch one and resend with `freeChallenge`
+          if (freeTierPolicy.messagesPerDay > 0 && isFreeChallengeRequired() && !signedInWallet) {
+            response402.freeChallenge = { endpoint: `/api/modules/${id}/free-challenge` };
+          }
+
           // Indicate session pass support
           if (supportsSessionPass(module.pricingMode, module.sessionPolicy) && module.sessionPolicy) {
             response402.sessionPassSupported = true;
             response402.sessionPolicy = module.sessionPolicy;
           }
 
+          if (isMetered && module.pricePer1kTokens) {
+            response402.metered = { pricePer1kTokens: module.pricePer1kTokens, maxAmount: module.priceAmount };
+          }
+
+          // Credit packs: pay the tier's requirements and resend with `tierId` to buy one
+          if (isPerMessage && !selectedTier && module.pricingTiers && module.pricingTiers.length > 0) {
+            response402.pricingTiers = module.pricingTiers.map((tier) => ({
+              ...tier,
+              accepts: buildAcceptedPaymentRequirements({
+                payTo: module.payTo,
+                priceAmount: tier.priceAmount,
+                description: `module:${module.id} / ${tier.credits}-message pack`,
+                paymentOptions: getTierPaymentOptions(module.paymentOptions, module.priceAmount, tier),
+              }),
+            }));
+          }
+
+          // One payment buys a period; signed-in buyers also see their lapsed subscription
+          if (isSubscription && module.subscriptionPolicy) {
+            response402.subscriptionPolicy = module.subscriptionPolicy;
+            const existing = signedInWallet
+              ? await getSubscription({ moduleId: id, walletAddress: signedInWallet })
+              : null;
+            if (existing) response402.subscription = formatSubscription(existing);
+          }
+
+          // Prices above already include the coupon's discount
+          if (coupon) {
+            response402.coupon = {
+              code: coupon.code,
+              discountPercent: coupon.discountPercent,
+              listPrice: listAccepts[0].maxAmountRequired,
+            };
+          }
+
+          // Signed-in buyers: show the (insufficient) prepaid balance so clients can offer a top-up
+          if (balanceWallet) {
+            response402.prepaidBalance = {
+              balance: await getBalance({
+                walletAddress: balanceWallet,
+                network: accepts[0].network,
+                asset: accepts[0].asset,
+              }),
+              required: accepts[0].maxAmountRequired,
+              network: accepts[0].network,
+              asset: accepts[0].asset,
+            };
+          }
+
           return reply.status(402).send(response402);
         }
       }
 
       // Process payment
       const paymentHeader = request.headers['x-payment'] as string;
-      const paymentRequirements = buildPaymentRequirements(module.payTo, module.priceAmount, paymentDescription);
+      const paymentRequirements = selectPaymentRequirements(paymentHeader, accepts);
+      if (!paymentRequirements) {
+        return reply.status(402).send({
+          error: 'Unsupported payment network or asset',
+          details: 'X-PAYMENT must target one of the accepted (network, asset) options',
+          accepts,
+        });
+      }
 
       // Log payment attempt
       logPaymentAttempt(request, {
         moduleId: id,
         payer: walletAddress,
-        value: module.priceAmount,
+        value: paymentRequirements.maxAmountRequired,
       });
 
       // Verify payment
@@ -296,22 +891,139 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
         await recordPayment(pool, {
           moduleId: id,
           payerWallet: verifyResult.payer || 'unknown',
-          payTo: module.payTo,
-          value: verifyResult.value || module.priceAmount,
-          network: module.network,
+          payTo: paymentRequirements.payTo,
+          value: verifyResult.value || paymentRequirements.maxAmountRequired,
+          network: paymentRequirements.network,
+          asset: paymentRequirements.asset,
           event: 'failed',
           error: verifyResult.error,
+          errorCode: verifyResult.code,
+          nonce: verifyResult.nonce,
         });
 
         return reply.status(402).send({
           error: 'Payment verification failed',
           details: verifyResult.error,
+          reason: verifyResult.reason,
+          ...describePaymentError(verifyResult.code),
         });
       }
 
-      // Settle payment
+      // The payer's own spending policy: refuse to settle a valid payment that would break it.
+      // Reserved at the authorized value, the most a metered turn can charge, until the payment is recorded.
+      let policyReservation: string | null = null;
+      if (verifyResult.payer) {
+        const policyCheck = await reserveWithinSpendingPolicy({
+          payer: verifyResult.payer,
+          moduleId: id,
+          value: verifyResult.value || paymentRequirements.maxAmountRequired,
+          nonce: verifyResult.nonce,
+          expiresAt: getPaymentValidBefore(paymentHeader),
+        });
+        if (!policyCheck.allowed) {
+          request.log.warn(
+            { moduleId: id, payer: verifyResult.payer, ...policyCheck },
+            'Payment refused by spending policy'
+          );
+          return reply.status(403).send({
+            error: 'Payment would exceed the payer\'s spending policy',
+            reason: 'spending_policy_exceeded',
+            limit: policyCheck.limit,
+            limitAmount: policyCheck.limitAmount,
+            attemptedTotal: policyCheck.attemptedTotal,
+          });
+        }
+        policyReservation = policyCheck.reservationId;
+      }
+
+      // A discounted payment counts as a coupon use; it is given back if nothing gets charged
+      const couponUsed = coupon?.discountPercent ? await reserveCouponUse(coupon.id) : false;
+      if (coupon?.discountPercent && !couponUsed) {
+        await releaseSpendingPolicyReservation(policyReservation);
+        return reply.status(409).send({ error: 'Coupon has been fully redeemed', reason: 'exhausted' });
+      }
+
+      // Metered: generate first, then settle only what the turn actually cost.
+      // Nothing is charged if generation fails, so no credit is needed.
+      let meteredReply: Awaited<ReturnType<typeof generatePaidReply>> | undefined;
+      let meteredClaim: SettlementClaim | undefined;
+      let chargeAmount: string | undefined;
+      if (isMetered) {
+        if (!module.pricePer1kTokens) {
+          if (coupon && couponUsed) await releaseCouponUse(coupon.id);
+          await releaseSpendingPolicyReservation(policyReservation);
+          return reply.status(500).send({ error: 'Metered module has no price per 1k tokens configured' });
+        }
+
+        // Claim the nonce before generating: verification only pre-checks it, so concurrent replays of this
+        // header would otherwise each run a generation (and, for a remix, pay the upstream module)
+        const claim = await claimSettlement(paymentHeader, paymentRequirements);
+        if (!claim.success) {
+          await recordPayment(pool, {
+            moduleId: id,
+            payerWallet: verifyResult.payer || 'unknown',
+            payTo: paymentRequirements.payTo,
+            value: verifyResult.value || paymentRequirements.maxAmountRequired,
+            authorizedValue: verifyResult.value,
+            network: paymentRequirements.network,
+            asset: paymentRequirements.asset,
+            event: 'failed',
+            error: claim.error,
+            errorCode: claim.code,
+            nonce: verifyResult.nonce,
+          });
+          if (coupon && couponUsed) await releaseCouponUse(coupon.id);
+          await releaseSpendingPolicyReservation(policyReservation);
+          return reply.status(402).send({
+            error: 'Payment settlement failed',
+            details: claim.error,
+            reason: claim.reason,
+            ...describePaymentError(claim.code),
+          });
+        }
+        meteredClaim = claim;
+
+        try {
+          meteredReply = await generatePaidReply(fastify, pool, module, chatId, message);
+        } catch (err) {
+          fastify.log.error(err, 'Failed to execute RAG for metered turn');
+          await meteredClaim.release();
+          if (coupon && couponUsed) await releaseCouponUse(coupon.id);
+          await releaseSpendingPolicyReservation(policyReservation);
+          return reply.status(err instanceof ReplyGenerationError ? err.statusCode : 500).send({
+            error: err instanceof ReplyGenerationError ? err.message : 'Failed to generate response',
+            details: err instanceof ReplyGenerationError ? err.details : undefined,
+            payment: { status: 'not_charged' },
+          });
+        }
+        // The rate is in the primary option's units; scale to the option actually paid with
+        chargeAmount = scaleAmount(
+          computeMeteredCharge(meteredReply.ragResult.usage.totalTokens, module.pricePer1kTokens, module.priceAmount),
+          module.priceAmount,
+          paymentRequirements.maxAmountRequired
+        );
+      }
+
+      const chargedValue = chargeAmount ?? (verifyResult.value || paymentRequirements.maxAmountRequired);
+
+      // Risk policy: small payments may be answered now and settled in the background.
+      // Modes whose payment grants something durable (subscriptions, packs, session passes) settle inline.
+      const deferralSlot =
+        (isPerMessage && !selectedTier) || isMetered
+          ? await reserveSettlementDeferral({ payer: verifyResult.payer, value: chargedValue })
+          : null;
+      const deferSettlement = deferralSlot !== null;
+
+      // Settle payment (or just claim its nonce when deferring); a metered turn settles against its claim
       const settleStartTime = Date.now();
-      const settleResult = await settlePayment(paymentHeader, paymentRequirements);
+      const settleResult = meteredClaim
+        ? await completeClaimedSettlement(meteredClaim, paymentHeader, paymentRequirements, {
+            amount: chargeAmount,
+            defer: deferSettlement,
+          })
+        : deferSettlement
+          ? await claimSettlement(paymentHeader, paymentRequirements, { amount: chargeAmount })
+          : await settlePayment(paymentHeader, paymentRequirements, { amount: chargeAmount });
       const settleLatency = Date.now() - settleStartTime;
 
       if (!settleResult.success) {
@@ -319,9 +1031,9 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
         logPaymentSettle(request, {
           moduleId: id,
           payer: verifyResult.payer,
-          payTo: module.payTo,
-          value: verifyResult.value || module.priceAmount,
-          network: module.network,
+          payTo: paymentRequirements.payTo,
+          value: chargedValue,
+          network: paymentRequirements.network,
           success: false,
           error: settleResult.error,
           latencyMs: settleLatency,
@@ -331,162 +1043,148 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
         await recordPayment(pool, {
           moduleId: id,
           payerWallet: verifyResult.payer || 'unknown',
-          payTo: module.payTo,
-          value: verifyResult.value || module.priceAmount,
-          network: module.network,
+          payTo: paymentRequirements.payTo,
+          value: chargedValue,
+          authorizedValue: verifyResult.value,
+          network: paymentRequirements.network,
+          asset: paymentRequirements.asset,
           event: 'failed',
           error: settleResult.error,
+          errorCode: settleResult.code,
+          nonce: verifyResult.nonce,
         });
-
+        await releaseSettlementDeferral(deferralSlot);
+        await releaseSpendingPolicyReservation(policyReservation);
+        if (coupon && couponUsed) await releaseCouponUse(coupon.id);
+
+        reply.header(
+          'X-PAYMENT-RESPONSE',
+          encodePaymentResponseHeader({
+            success: false,
+            transaction: null,
+            network: paymentRequirements.network,
+            payer: verifyResult.payer ?? null,
+            errorReason: settleResult.reason ?? 'settlement_failed',
+          })
+        );
         return reply.status(402).send({
           error: 'Payment settlement failed',
           details: settleResult.error,
+          reason: settleResult.reason,
+          ...describePaymentError(settleResult.code),
         });
       }
 
+      // Queued settlements have no transaction yet
+      const txHash = 'txHash' in settleResult ? settleResult.txHash : undefined;
+      const isMock = 'isMock' in settleResult ? settleResult.isMock : undefined;
+
       // Log settlement success
       logPaymentSettle(request, {
         moduleId: id,
         payer: verifyResult.payer,
-        payTo: module.payTo,
-        value: verifyResult.value || module.priceAmount,
-        txHash: settleResult.txHash,
-        network: module.network,
+        payTo: paymentRequirements.payTo,
+        value: chargedValue,
+        txHash,
+        network: paymentRequirements.network,
         success: true,
         latencyMs: settleLatency,
       });
 
-      // Record successful payment
-      await recordPayment(pool, {
+      // Record successful (or queued) payment
+      const paymentId = await recordPayment(pool, {
         moduleId: id,
         payerWallet: verifyResult.payer || 'unknown',
-        payTo: module.payTo,
-        value: verifyResult.value || module.priceAmount,
-        txHash: settleResult.txHash,
-        network: module.network,
-        event: 'settled',
+        payTo: paymentRequirements.payTo,
+        value: chargedValue,
+        authorizedValue: verifyResult.value,
+        txHash,
+        network: paymentRequirements.network,
+        asset: paymentRequirements.asset,
+        event: deferSettlement ? 'pending' : 'settled',
+        nonce: settleResult.nonce,
       });
+      // The recorded payment now counts against the payer's policy instead of the reservation
+      await releaseSpendingPolicyReservation(policyReservation);
 
-      // Execute RAG and generate response
-      try {
-        // Get chat history if chatId provided
-        let chatHistory: Array<{ role: 'user' | 'assistant'; content: string }> | undefined;
-        if (chatId) {
-          const historyResult = await pool.query(
-            `SELECT role, content FROM chat_messages
-             WHERE chat_id = $1 AND role IN ('user', 'assistant')
-             ORDER BY created_at DESC LIMIT 10`,
-            [chatId]
-          );
-          if (historyResult.rows.length > 0) {
-            chatHistory = historyResult.rows
-              .reverse()
-              .map((r) => ({ role: r.role as 'user' | 'assistant', content: r.content }));
-          }
-        }
-
-        let ragResult;
-        let upstreamPayment: UpstreamPayment | undefined;
-
-        // Handle remix module: call upstream first
-        if (module.type === 'remix' && module.upstreamModuleId && module.remixPolicy) {
-          fastify.log.info({ moduleId: id, upstreamId: module.upstreamModuleId }, 'Executing remix with upstream call');
+      // From here on the buyer has paid, so whatever this request returns is final for its key
+      const idempotencyClaim = idempotencyClaims.get(request);
+      if (idempotencyClaim) idempotencyClaim.charged = true;
 
-          // Get upstream module info
-          const upstreamResult = await pool.query(
-            `SELECT id, name, pay_to, price_amount, network, asset_contract
-             FROM modules WHERE id = $1 AND status = 'published'`,
-            [module.upstreamModuleId]
-          );
-
-          if (upstreamResult.rows.length === 0) {
-            return reply.status(500).send({ error: 'Upstream module not available' });
-          }
-
-          const upstream = upstreamResult.rows[0];
-
-          // Build payment header for upstream using agent wallet
-          let upstreamPaymentHeader: string;
-          try {
-            upstreamPaymentHeader = await buildAgentPaymentHeader({
-              moduleId: id,
-              payTo: upstream.pay_to,
-              value: upstream.price_amount,
-              network: upstream.network,
-              asset: upstream.asset_contract,
-            });
-          } catch (err) {
-            fastify.log.error(err, 'Failed to build agent payment header');
-            return reply.status(500).send({
-              error: 'Remix agent wallet not configured or unfunded',
-              details: 'Please fund the agent wallet to enable upstream calls',
-            });
-          }
-
-          // Call upstream API with agent payment
-          const config = await import('../config.js').then((m) => m.getConfig());
-          const apiUrl = config.API_URL || `http://localhost:${config.API_PORT}`;
-
-          const upstreamResponse = await fetch(`${apiUrl}/api/modules/${module.upstreamModuleId}/chat`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'X-PAYMENT': upstreamPaymentHeader,
-            },
-            body: JSON.stringify({
-              chatId: null, // New chat for upstream
-              message,
-              mode: 'paid',
-            }),
-          });
-
-          const upstreamData = await upstreamResponse.json() as {
-            chatId?: string;
-            reply?: string;
-            payment?: UpstreamPayment;
-            error?: string;
-          };
+      if (coupon && couponUsed) {
+        const listPrice = listAccepts[accepts.indexOf(paymentRequirements)].maxAmountRequired;
+        await recordCouponRedemption({
+          couponId: coupon.id,
+          moduleId: id,
+          walletAddress: verifyResult.payer || 'unknown',
+          discountAmount: (
+            BigInt(scaleAmount(chargedValue, paymentRequirements.maxAmountRequired, listPrice)) - BigInt(chargedValue)
+          ).toString(),
+          paymentId,
+        });
+      }
 
-          if (!upstreamResponse.ok) {
-            // Record failed upstream payment
-            await recordPayment(pool, {
-              moduleId: module.upstreamModuleId,
-              payerWallet: (await getAgentWallet(id))?.walletAddress || 'unknown',
-              payTo: upstream.pay_to,
-              value: upstream.price_amount,
-              network: upstream.network,
-              event: 'failed',
-              error: upstreamData.error || 'Upstream call failed',
-            });
+      if (deferSettlement) {
+        await enqueueSettlement({
+          paymentId,
+          paymentHeader,
+          requirements: paymentRequirements,
+          amount: chargeAmount,
+        });
+        // The queued 'pending' payment now counts against the payer's limit instead of the slot
+        await releaseSettlementDeferral(deferralSlot);
+      } else {
+        reply.header(
+          'X-PAYMENT-RESPONSE',
+          encodePaymentResponseHeader({
+            success: true,
+            transaction: txHash ?? null,
+            network: paymentRequirements.network,
+            payer: verifyResult.payer ?? null,
+          })
+        );
+      }
 
-            fastify.log.error({ upstreamData }, 'Upstream call failed');
-            return reply.status(500).send({
-              error: 'Upstream module call failed',
-              details: upstreamData.error,
-            });
-          }
+      // Subscriptions: the payment buys (or renews) a period, and this turn is its first message
+      let subscription: Subscription | undefined;
+      let subscriptionPeriodId: string | undefined;
+      if (isSubscription && module.subscriptionPolicy && verifyResult.payer) {
+        subscription = await grantSubscriptionPeriod({
+          moduleId: id,
+          walletAddress: verifyResult.payer,
+          paymentId,
+          policy: module.subscriptionPolicy,
+        });
+        const access = await consumeSubscriptionMessage({ moduleId: id, walletAddress: verifyResult.payer });
+        if (access.status === 'ok') {
+          subscription = access.subscription;
+          subscriptionPeriodId = access.periodId;
+        }
+      }
 
-          // Record upstream payment success
-          if (upstreamData.payment) {
-            upstreamPayment = upstreamData.payment;
-          }
+      // Credit packs: the payment issues the pack, and this turn spends its first credit
+      let creditPack: { id: string; tierId: string; creditsRemaining: number } | undefined;
+      let packCreditId: string | undefined;
+      if (selectedTier && verifyResult.payer) {
+        const pack = await issueCreditPack({
+          moduleId: id,
+          walletAddress: verifyResult.payer,
+          paymentId,
+          tier: selectedTier,
+        });
+        const spent = await consumePackCredit({ moduleId: id, walletAddress: verifyResult.payer });
+        creditPack = {
+          id: pack.id,
+          tierId: pack.tierId,
+          creditsRemaining: await getPackCreditsRemaining({ moduleId: id, walletAddress: verifyResult.payer }),
+        };
+        packCreditId = spent?.id;
+      }
 
-          // Now execute remix RAG with upstream context
-          const upstreamReply = upstreamData.reply || '';
-          ragResult = await executeRAG({
-            moduleId: id,
-            userMessage: message,
-            chatHistory,
-            additionalContext: `[Upstream module response]: ${upstreamReply}`,
-          });
-        } else {
-          // Normal module: just execute RAG
-          ragResult = await executeRAG({
-            moduleId: id,
-            userMessage: message,
-            chatHistory,
-          });
-        }
+      // Execute RAG and generate response
+      try {
+        const { ragResult, upstreamPayment } =
+          meteredReply ?? (await generatePaidReply(fastify, pool, module, chatId, message));
 
         // Create or get chat
         const chatResult = await getOrCreateChat(pool, chatId, id, verifyResult.payer);
@@ -502,55 +1200,128 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
           payment: {
             txHash: string | undefined;
             isMock?: boolean;
+            status: 'settled' | 'pending';
+            id: string;
             from: string | undefined;
             to: string;
             value: string;
             network: string;
+            authorizedValue?: string;
+            usage?: { totalTokens: number; pricePer1kTokens: string };
           };
           upstreamPayment?: UpstreamPayment;
           sessionPass?: SessionPassInfo;
+          subscription?: ReturnType<typeof formatSubscription>;
+          creditPack?: { id: string; tierId: string; creditsRemaining: number };
+          receipt?: { id: string; signer: string; signature: string; url: string };
+          coupon?: { code: string; discountPercent: number | null };
         } = {
           chatId: chatResult.id,
           reply: ragResult.reply,
           payment: {
-            txHash: settleResult.txHash,
-            isMock: settleResult.isMock,
+            txHash,
+            isMock,
+            status: deferSettlement ? 'pending' : 'settled',
+            id: paymentId,
             from: verifyResult.payer,
-            to: module.payTo,
-            value: verifyResult.value || module.priceAmount,
-            network: module.network,
+            to: paymentRequirements.payTo,
+            value: chargedValue,
+            network: paymentRequirements.network,
           },
         };
 
+        // Metered turns report what was authorized vs. charged
+        if (isMetered && module.pricePer1kTokens) {
+          response.payment.authorizedValue = verifyResult.value;
+          response.payment.usage = {
+            totalTokens: ragResult.usage.totalTokens,
+            pricePer1kTokens: module.pricePer1kTokens,
+          };
+        }
+
         // Include upstream payment if this was a remix
         if (upstreamPayment) {
           response.upstreamPayment = upstreamPayment;
         }
 
+        if (subscription) {
+          response.subscription = formatSubscription(subscription);
+        }
+
+        if (creditPack) {
+          response.creditPack = creditPack;
+        }
+
+        if (coupon && couponUsed) {
+          response.coupon = { code: coupon.code, discountPercent: coupon.discountPercent };
+        }
+
+        // Signed receipt binding the payment to this exact request and reply (settled payments only)
+        if (verifyResult.payer && txHash) {
+          try {
+            const receipt = await issueReceipt({
+              paymentId,
+              moduleId: id,
+              payer: verifyResult.payer,
+              payTo: paymentRequirements.payTo,
+              amount: chargedValue,
+              network: paymentRequirements.network,
+              asset: paymentRequirements.asset,
+              txHash,
+              requestHash: hashChatRequest({ moduleId: id, chatId: chatId ?? null, message }),
+              responseHash: hashChatResponse(ragResult.reply),
+            });
+            response.receipt = {
+              id: receipt.id,
+              signer: receipt.signer,
+              signature: receipt.signature,
+              url: `/api/receipts/${receipt.id}`,
+            };
+          } catch (err) {
+            fastify.log.warn(err, 'Failed to issue payment receipt (non-fatal)');
+          }
+        }
+
         // Issue session pass for per_session modules
         if (
           supportsSessionPass(module.pricingMode, module.sessionPolicy) &&
           module.sessionPolicy &&
           verifyResult.payer &&
-          settleResult.txHash
+          txHash
         ) {
           try {
             const sessionPassInfo = await issueSessionPass({
               walletAddress: verifyResult.payer,
               moduleId: id,
-              paymentTxHash: settleResult.txHash,
+              paymentTxHash: txHash,
               sessionPolicy: module.sessionPolicy,
             });
             // Consume first credit for this message
             await consumeSessionCredit({
+              passId: sessionPassInfo.passId,
               moduleId: id,
               walletAddress: verifyResult.payer,
-              paymentTxHash: settleResult.txHash,
+              paymentTxHash: txHash,
             });
             response.sessionPass = {
               ...sessionPassInfo,
               creditsRemaining: sessionPassInfo.creditsRemaining - 1,
             };
+            await emitWebhookEvent(
+              {
+                event: 'session_pass.issued',
+                moduleId: id,
+                data: {
+                  moduleId: id,
+                  sessionPassId: sessionPassInfo.passId,
+                  walletAddress: verifyResult.payer.toLowerCase(),
+                  paymentTxHash: txHash,
+                  maxCredits: sessionPassInfo.maxCredits,
+                  expiresAt: new Date(sessionPassInfo.expiresAt * 1000).toISOString(),
+                },
+              },
+              request.log
+            );
           } catch (err) {
             fastify.log.warn(err, 'Failed to issue session pass (non-fatal)');
           }
@@ -559,14 +1330,57 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
         return reply.send(response);
       } catch (err) {
         fastify.log.error(err, 'Failed to execute RAG after payment');
-        // Note: Payment already settled - should ideally refund but that's complex
-        return reply.status(500).send({
-          error: 'Failed to generate response',
+
+        // A subscription payment already bought the period; just give the message back
+        if (subscriptionPeriodId) {
+          await releaseSubscriptionMessage(subscriptionPeriodId);
+        }
+        // Likewise for a pack: its credits stay with the buyer
+        if (packCreditId) {
+          await restorePackCredit(packCreditId);
+          if (creditPack) creditPack.creditsRemaining += 1;
+        }
+
+        // Payment already taken: owe the buyer a turn instead of losing their money. A deferred payment's
+        // credit only becomes redeemable once its settlement succeeds (see redeemCredit).
+        let credit: BuyerCredit | null = null;
+        if (verifyResult.payer && !subscription && !creditPack) {
+          try {
+            credit = await createCredit({
+              moduleId: id,
+              walletAddress: verifyResult.payer,
+              paymentId,
+              value: chargedValue,
+              reason: err instanceof Error ? err.message : 'Failed to generate response',
+            });
+          } catch (creditErr) {
+            fastify.log.error(creditErr, 'Failed to record buyer credit');
+          }
+        }
+
+        return reply.status(err instanceof ReplyGenerationError ? err.statusCode : 500).send({
+          error: err instanceof ReplyGenerationError ? err.message : 'Failed to generate response',
+          details: err instanceof ReplyGenerationError ? err.details : undefined,
           payment: {
-            txHash: settleResult.txHash,
-            status: 'settled',
-            note: 'Payment was processed. Please contact support if issue persists.',
+            txHash,
+            status: deferSettlement ? 'pending' : 'settled',
+            note: subscription
+              ? 'Payment was processed and your subscription is active. Sign in and retry without a new payment.'
+              : creditPack
+                ? 'Payment was processed and your credit pack was issued. Sign in and retry without a new payment.'
+                : credit && deferSettlement
+                  ? 'Payment is settling. Once it settles, your next message to this module will use this credit ' +
+                    'instead of a new payment.'
+                  : credit
+                    ? 'Payment was processed. Your next message to this module will use this credit ' +
+                      'instead of a new payment.'
+                    : 'Payment was processed. Please contact support if issue persists.',
           },
+          credit: credit
+            ? { id: credit.id, value: credit.value, paymentId: credit.paymentId, status: credit.status }
+            : undefined,
+          subscription: subscription ? formatSubscription(subscription) : undefined,
+          creditPack,
         });
       }
     }
@@ -575,6 +1389,186 @@ export async function chatRoutes(fastify: FastifyInstance): Promise<void> {
 
 // Helper functions
 
+/**
+ * Client-facing subscription state, including the renewal reminder
+ */
+function formatSubscription(subscription: Subscription) {
+  return {
+    id: subscription.id,
+    status: subscription.status,
+    expiresAt: subscription.expiresAt,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+    messageCap: subscription.messageCap,
+    messagesUsed: subscription.messagesUsed,
+    canceledAt: subscription.canceledAt,
+    renewalDue: isRenewalDue(subscription),
+  };
+}
+
+/**
+ * Raised when a paid reply cannot be produced (e.g. remix upstream failures).
+ * Carries the HTTP status and client-facing message for the route.
+ */
+class ReplyGenerationError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number = 500,
+    public details?: string
+  ) {
+    super(message);
+    this.name = 'ReplyGenerationError';
+  }
+}
+
+/**
+ * Produce a full (paid) reply: loads chat history, calls the upstream module for
+ * remixes (paying it with the agent wallet) and runs RAG.
+ */
+async function generatePaidReply(
+  fastify: FastifyInstance,
+  pool: ReturnType<typeof getPool>,
+  module: ModuleInfo,
+  chatId: string | null | undefined,
+  message: string
+): Promise<{ ragResult: Awaited<ReturnType<typeof executeRAG>>; upstreamPayment?: UpstreamPayment }> {
+  const id = module.id;
+
+  // Get chat history if chatId provided
+  let chatHistory: Array<{ role: 'user' | 'assistant'; content: string }> | undefined;
+  if (chatId) {
+    const historyResult = await pool.query(
+      `SELECT role, content FROM chat_messages
+       WHERE chat_id = $1 AND role IN ('user', 'assistant')
+       ORDER BY created_at DESC LIMIT 10`,
+      [chatId]
+    );
+    if (historyResult.rows.length > 0) {
+      chatHistory = historyResult.rows
+        .reverse()
+        .map((r) => ({ role: r.role as 'user' | 'assistant', content: r.content }));
+    }
+  }
+
+  // Normal module: just execute RAG
+  if (!(module.type === 'remix' && module.upstreamModuleId && module.remixPolicy)) {
+    const ragResult = await executeRAG({
+      moduleId: id,
+      userMessage: message,
+      chatHistory,
+    });
+    return { ragResult };
+  }
+
+  // Handle remix module: call upstream first
+  fastify.log.info({ moduleId: id, upstreamId: module.upstreamModuleId }, 'Executing remix with upstream call');
+
+  // Get upstream module info
+  const upstreamResult = await pool.query(
+    `SELECT id, name, pay_to, price_amount, pricing_mode, network, asset_contract
+     FROM modules WHERE id = $1 AND status = 'published'`,
+    [module.upstreamModuleId]
+  );
+
+  if (upstreamResult.rows.length === 0) {
+    throw new ReplyGenerationError('Upstream module not available');
+  }
+
+  const upstream = upstreamResult.rows[0];
+
+  // Sign against the same requirements the upstream route will verify against
+  const upstreamRequirements = buildPaymentRequirements(
+    upstream.pay_to,
+    upstream.price_amount,
+    `module:${upstream.id} / 1 message`,
+    upstream.pricing_mode === 'metered' ? 'upto' : 'exact'
+  );
+
+  // Build payment header for upstream using agent wallet
+  let agentPayment: Awaited<ReturnType<typeof buildAgentPaymentHeader>>;
+  try {
+    agentPayment = await buildAgentPaymentHeader({
+      moduleId: id,
+      payTo: upstreamRequirements.payTo,
+      value: upstreamRequirements.maxAmountRequired,
+      network: upstreamRequirements.network,
+      asset: upstreamRequirements.asset,
+      scheme: upstreamRequirements.scheme,
+      extra: upstreamRequirements.extra,
+    });
+  } catch (err) {
+    if (err instanceof AgentWalletBudgetError) {
+      fastify.log.warn({ moduleId: id, limit: err.limit }, 'Agent wallet budget reached');
+      throw new ReplyGenerationError('Remix upstream spending limit reached', 503, err.message);
+    }
+    fastify.log.error(err, 'Failed to build agent payment header');
+    throw new ReplyGenerationError(
+      'Remix agent wallet not configured or unfunded',
+      500,
+      'Please fund the agent wallet to enable upstream calls'
+    );
+  }
+
+  // Call upstream API with agent payment
+  const config = await import('../config.js').then((m) => m.getConfig());
+  const apiUrl = config.API_URL || `http://localhost:${config.API_PORT}`;
+
+  let upstreamResponse: Response;
+  let upstreamData: {
+    chatId?: string;
+    reply?: string;
+    payment?: UpstreamPayment;
+    error?: string;
+    code?: PaymentErrorCode;
+  };
+  try {
+    upstreamResponse = await fetch(`${apiUrl}/api/modules/${module.upstreamModuleId}/chat`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-PAYMENT': agentPayment.paymentHeader,
+      },
+      body: JSON.stringify({
+        chatId: null, // New chat for upstream
+        message,
+        mode: 'paid',
+      }),
+    });
+    upstreamData = (await upstreamResponse.json()) as typeof upstreamData;
+  } finally {
+    // The upstream route has recorded the payment (or not made one) by the time it answers
+    await releaseAgentWalletReservation(agentPayment.reservationId);
+  }
+
+  if (!upstreamResponse.ok) {
+    // Record failed upstream payment
+    await recordPayment(pool, {
+      moduleId: module.upstreamModuleId,
+      payerWallet: (await getAgentWallet(id))?.walletAddress || 'unknown',
+      payTo: upstream.pay_to,
+      value: upstream.price_amount,
+      network: upstream.network,
+      asset: upstreamRequirements.asset,
+      event: 'failed',
+      error: upstreamData.error || 'Upstream call failed',
+      errorCode: upstreamData.code ?? 'UNKNOWN',
+    });
+
+    fastify.log.error({ upstreamData }, 'Upstream call failed');
+    throw new ReplyGenerationError('Upstream module call failed', 500, upstreamData.error);
+  }
+
+  // Now execute remix RAG with upstream context
+  const upstreamReply = upstreamData.reply || '';
+  const ragResult = await executeRAG({
+    moduleId: id,
+    userMessage: message,
+    chatHistory,
+    additionalContext: `[Upstream module response]: ${upstreamReply}`,
+  });
+
+  return { ragResult, upstreamPayment: upstreamData.payment };
+}
+
 async function getOrCreateChat(
   pool: ReturnType<typeof getPool>,
   existingChatId: string | null | undefined,
@@ -619,14 +1613,20 @@ interface PaymentRecord {
   value: string;
   txHash?: string;
   network: string;
-  event: 'settled' | 'failed';
+  event: PaymentEvent;
   error?: string;
+  errorCode?: PaymentErrorCode;
+  nonce?: string;
+  authorizedValue?: string;
+  asset?: string;
 }
 
-async function recordPayment(pool: ReturnType<typeof getPool>, payment: PaymentRecord) {
-  await pool.query(
-    `INSERT INTO payments (module_id, payer_wallet, pay_to, value, tx_hash, network, event, error)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+async function recordPayment(pool: ReturnType<typeof getPool>, payment: PaymentRecord): Promise<string> {
+  const result = await pool.query(
+    `INSERT INTO payments (module_id, payer_wallet, pay_to, value, tx_hash, network, event, error, nonce, authorized_value, asset,
+                           error_code)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+     RETURNING id`,
     [
       payment.moduleId,
       payment.payerWallet,
@@ -636,6 +1636,14 @@ async function recordPayment(pool: ReturnType<typeof getPool>, payment: PaymentR
       payment.network,
       payment.event,
       payment.error || null,
+      payment.nonce ? payment.nonce.toLowerCase() : null,
+      payment.authorizedValue || null,
+      payment.asset ? payment.asset.toLowerCase() : null,
+      payment.event === 'failed' ? (payment.errorCode ?? 'UNKNOWN') : null,
     ]
   );
+  const paymentId = result.rows[0].id as string;
+  // Pending payments notify sellers when the settlement worker resolves them
+  if (payment.event !== 'pending') await emitPaymentWebhook(paymentId);
+  return paymentId;
 }
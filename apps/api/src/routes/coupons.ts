@@ -0,0 +1,147 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { getPool } from '../lib/db.js';
+import {
+  createCoupon,
+  listCouponRedemptions,
+  listCoupons,
+  normalizeCouponCode,
+  updateCoupon,
+} from '../services/coupons.js';
+
+const CreateCouponSchema = z
+  .object({
+    code: z
+      .string()
+      .transform((val) => normalizeCouponCode(val) ?? '')
+      .refine((val) => val !== '', 'Code must be 3-32 letters, digits, dashes or underscores'),
+    // Omit to cover every module you sell
+    moduleIds: z.array(z.string().uuid()).min(1).max(50).optional(),
+    discountPercent: z.number().int().min(1).max(99).optional(),
+    freeMessages: z.number().int().positive().max(1000).optional(),
+    maxRedemptions: z.number().int().positive().optional(),
+    expiresAt: z.coerce.date().optional(),
+  })
+  .refine((val) => (val.discountPercent === undefined) !== (val.freeMessages === undefined), {
+    message: 'Set exactly one of discountPercent or freeMessages',
+  });
+
+const UpdateCouponSchema = z.object({
+  active: z.boolean().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+});
+
+const RedemptionsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(500).default(100),
+});
+
+export async function couponRoutes(fastify: FastifyInstance): Promise<void> {
+  // Create a promo code for your modules
+  fastify.post<{ Body: z.infer<typeof CreateCouponSchema> }>(
+    '/api/seller/coupons',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Body: z.infer<typeof CreateCouponSchema> }>, reply: FastifyReply) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = CreateCouponSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+      const body = parseResult.data;
+
+      if (body.moduleIds) {
+        const pool = getPool();
+        const owned = await pool.query('SELECT id FROM modules WHERE id = ANY($1::uuid[]) AND owner_user_id = $2', [
+          body.moduleIds,
+          user.sub,
+        ]);
+        if (owned.rows.length !== new Set(body.moduleIds).size) {
+          return reply.status(403).send({ error: 'Coupons can only cover modules you own' });
+        }
+      }
+
+      const coupon = await createCoupon({
+        ownerUserId: user.sub,
+        code: body.code,
+        moduleIds: body.moduleIds ?? null,
+        discountPercent: body.discountPercent ?? null,
+        freeMessages: body.freeMessages ?? null,
+        maxRedemptions: body.maxRedemptions ?? null,
+        expiresAt: body.expiresAt ?? null,
+      });
+      if (!coupon) {
+        return reply.status(409).send({ error: 'You already have a coupon with this code' });
+      }
+
+      return reply.status(201).send({ coupon });
+    }
+  );
+
+  // Your coupons with redemption totals
+  fastify.get('/api/seller/coupons', { preValidation: [fastify.authenticate] }, async (request, reply) => {
+    const user = request.user as { sub: string; address: string; role: string };
+    return reply.send({ coupons: await listCoupons(user.sub) });
+  });
+
+  // Switch a coupon off or change its limits (null clears a limit)
+  fastify.patch<{ Params: { id: string }; Body: z.infer<typeof UpdateCouponSchema> }>(
+    '/api/seller/coupons/:id',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: z.infer<typeof UpdateCouponSchema> }>,
+      reply: FastifyReply
+    ) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = UpdateCouponSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const coupon = await updateCoupon(request.params.id, user.sub, parseResult.data);
+      if (!coupon) {
+        return reply.status(404).send({ error: 'Coupon not found' });
+      }
+
+      return reply.send({ coupon });
+    }
+  );
+
+  // Who redeemed a coupon, on which module, and how much it saved them
+  fastify.get<{ Params: { id: string }; Querystring: z.infer<typeof RedemptionsQuerySchema> }>(
+    '/api/seller/coupons/:id/redemptions',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: z.infer<typeof RedemptionsQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = RedemptionsQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const redemptions = await listCouponRedemptions({
+        couponId: request.params.id,
+        ownerUserId: user.sub,
+        limit: parseResult.data.limit,
+      });
+      if (!redemptions) {
+        return reply.status(404).send({ error: 'Coupon not found' });
+      }
+
+      return reply.send({ redemptions });
+    }
+  );
+}
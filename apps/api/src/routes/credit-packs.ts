@@ -0,0 +1,32 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { listCreditPacks } from '../services/credit-packs.js';
+
+const CreditPacksQuerySchema = z.object({
+  moduleId: z.string().uuid().optional(),
+});
+
+export async function creditPackRoutes(fastify: FastifyInstance): Promise<void> {
+  // Credit packs bought by the signed-in wallet, with credits left
+  fastify.get<{ Querystring: z.infer<typeof CreditPacksQuerySchema> }>(
+    '/api/credit-packs',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Querystring: z.infer<typeof CreditPacksQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = CreditPacksQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const packs = await listCreditPacks({ walletAddress: user.address, moduleId: parseResult.data.moduleId });
+      return reply.send({ packs });
+    }
+  );
+}
@@ -0,0 +1,130 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { PaymentRequirementsSchema } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import {
+  facilitatorVerify,
+  facilitatorSettle,
+  getFacilitatorBalance,
+  mintFacilitatorBalance,
+  replayFacilitatorLedger,
+} from '../services/facilitator.js';
+
+const FacilitatorRequestSchema = z.object({
+  x402Version: z.literal(1),
+  paymentHeader: z.string().min(1),
+  paymentRequirements: PaymentRequirementsSchema,
+  amount: z.string().regex(/^\d+$/, 'Must be integer string in smallest units').optional(),
+});
+
+const MintRequestSchema = z.object({
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address'),
+  value: z.string().regex(/^\d+$/, 'Must be integer string in smallest units'),
+  network: z.string().optional(),
+  asset: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid asset address').optional(),
+});
+
+const BalanceQuerySchema = z.object({
+  network: z.string().optional(),
+  asset: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid asset address').optional(),
+});
+
+type FacilitatorRequest = z.infer<typeof FacilitatorRequestSchema>;
+
+/**
+ * Local facilitator stand-in (enabled with X402_LOCAL_FACILITATOR=true).
+ * Point X402_FACILITATOR_BASE_URL at http://localhost:<API_PORT>/facilitator to use it.
+ */
+export async function facilitatorRoutes(fastify: FastifyInstance): Promise<void> {
+  const config = getConfig();
+  if (!config.X402_LOCAL_FACILITATOR) return;
+
+  fastify.log.warn('Local x402 facilitator enabled at /facilitator (not for production use)');
+
+  // Verify a payment header against requirements
+  fastify.post<{ Body: FacilitatorRequest }>(
+    '/facilitator/verify',
+    async (request: FastifyRequest<{ Body: FacilitatorRequest }>, reply: FastifyReply) => {
+      const parseResult = FacilitatorRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const { paymentHeader, paymentRequirements } = parseResult.data;
+      const result = await facilitatorVerify(paymentHeader, paymentRequirements);
+      return reply.send(result);
+    }
+  );
+
+  // Settle a payment header (debits payer, credits payTo in the ledger)
+  fastify.post<{ Body: FacilitatorRequest }>(
+    '/facilitator/settle',
+    async (request: FastifyRequest<{ Body: FacilitatorRequest }>, reply: FastifyReply) => {
+      const parseResult = FacilitatorRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const { paymentHeader, paymentRequirements, amount } = parseResult.data;
+      const result = await facilitatorSettle(paymentHeader, paymentRequirements, amount);
+      return reply.send(result);
+    }
+  );
+
+  // Fund an address (local faucet)
+  fastify.post<{ Body: z.infer<typeof MintRequestSchema> }>(
+    '/facilitator/mint',
+    async (request: FastifyRequest<{ Body: z.infer<typeof MintRequestSchema> }>, reply: FastifyReply) => {
+      const parseResult = MintRequestSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const entry = await mintFacilitatorBalance(parseResult.data);
+      const balance = await getFacilitatorBalance({
+        network: entry.network,
+        asset: entry.asset,
+        address: entry.toAddress,
+      });
+      return reply.status(201).send({ entry, balance });
+    }
+  );
+
+  // Get ledger-derived balance for an address
+  fastify.get<{ Params: { address: string }; Querystring: z.infer<typeof BalanceQuerySchema> }>(
+    '/facilitator/balances/:address',
+    async (
+      request: FastifyRequest<{ Params: { address: string }; Querystring: z.infer<typeof BalanceQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const parseResult = BalanceQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const { address } = request.params;
+      if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+        return reply.status(400).send({ error: 'Invalid EVM address' });
+      }
+
+      return reply.send(await getFacilitatorBalance({ ...parseResult.data, address }));
+    }
+  );
+
+  // Replay the full ledger and return every balance
+  fastify.get('/facilitator/ledger/replay', async (_, reply: FastifyReply) => {
+    return reply.send(await replayFacilitatorLedger());
+  });
+}
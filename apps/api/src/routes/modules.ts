@@ -1,6 +1,8 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { getPool } from '../lib/db.js';
+import { resolveFreeTierPolicy } from '../services/free-tier.js';
+import { isFreeChallengeRequired, issueFreeChallenge } from '../services/free-challenge.js';
 
 const ListModulesQuerySchema = z.object({
   q: z.string().max(200).optional(),
@@ -77,8 +79,8 @@ export async function modulesRoutes(fastify: FastifyInstance): Promise<void> {
       // Get modules
       const query = `
         SELECT id, type, name, description, tags, status, featured,
-               pricing_mode, price_amount, pay_to, network, asset_contract,
-               eval_score, created_at
+               pricing_mode, price_amount, price_per_1k_tokens, subscription_policy, pay_to, network,
+               asset_contract, eval_score, created_at
         FROM modules
         WHERE ${conditions.join(' AND ')}
         ORDER BY ${orderBy}
@@ -97,6 +99,8 @@ export async function modulesRoutes(fastify: FastifyInstance): Promise<void> {
         featured: row.featured,
         pricingMode: row.pricing_mode,
         priceAmount: row.price_amount,
+        pricePer1kTokens: row.price_per_1k_tokens,
+        subscriptionPolicy: row.subscription_policy,
         network: row.network,
         assetContract: row.asset_contract,
         evalScore: row.eval_score,
@@ -124,9 +128,9 @@ export async function modulesRoutes(fastify: FastifyInstance): Promise<void> {
 
       const result = await pool.query(
         `SELECT m.id, m.type, m.name, m.description, m.tags, m.status, m.featured,
-                m.pricing_mode, m.price_amount, m.session_policy,
-                m.pay_to, m.network, m.asset_contract,
-                m.upstream_module_id, m.eval_score, m.last_eval_at, m.created_at,
+                m.pricing_mode, m.price_amount, m.price_per_1k_tokens, m.session_policy,
+                m.subscription_policy, m.pricing_tiers, m.free_tier_policy, m.pay_to, m.network, m.asset_contract,
+                m.payment_options, m.upstream_module_id, m.eval_score, m.last_eval_at, m.created_at,
                 u.wallet_address as owner_address
          FROM modules m
          JOIN users u ON m.owner_user_id = u.id
@@ -171,10 +175,16 @@ export async function modulesRoutes(fastify: FastifyInstance): Promise<void> {
         featured: module.featured,
         pricingMode: module.pricing_mode,
         priceAmount: module.price_amount,
+        pricePer1kTokens: module.price_per_1k_tokens,
         sessionPolicy: module.session_policy,
+        subscriptionPolicy: module.subscription_policy,
+        pricingTiers: module.pricing_tiers,
+        // What buyers get without paying (the platform default when the seller has not set one)
+        freeTier: resolveFreeTierPolicy(module.free_tier_policy),
         payTo: module.pay_to,
         network: module.network,
         assetContract: module.asset_contract,
+        paymentOptions: module.payment_options,
         ownerAddress: module.owner_address,
         upstreamModuleId: module.upstream_module_id,
         evalScore: module.eval_score,
@@ -186,6 +196,30 @@ export async function modulesRoutes(fastify: FastifyInstance): Promise<void> {
     }
   );
 
+  // Issue a challenge to answer before a free message (public)
+  fastify.post<{ Params: { id: string } }>(
+    '/api/modules/:id/free-challenge',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const { id } = request.params;
+      const pool = getPool();
+
+      const result = await pool.query('SELECT status, free_tier_policy FROM modules WHERE id = $1', [id]);
+      if (result.rows.length === 0 || result.rows[0].status !== 'published') {
+        return reply.status(404).send({ error: 'Module not found' });
+      }
+
+      if (resolveFreeTierPolicy(result.rows[0].free_tier_policy).messagesPerDay === 0) {
+        return reply.status(409).send({ error: 'This module has no free tier' });
+      }
+
+      if (!isFreeChallengeRequired()) {
+        return reply.send({ required: false });
+      }
+
+      return reply.send({ required: true, challenge: await issueFreeChallenge(id) });
+    }
+  );
+
   // Get all unique tags (for filtering UI)
   fastify.get('/api/modules/tags', async (_, reply: FastifyReply) => {
     const pool = getPool();
@@ -1,5 +1,11 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import { buildPaymentRequirements, verifyPayment, settlePayment } from '../services/x402.js';
+import {
+  buildPaymentRequirements,
+  verifyPayment,
+  settlePayment,
+  encodePaymentResponseHeader,
+  describePaymentError,
+} from '../services/x402.js';
 import { createPayment } from '../repositories/payments.js';
 
 // Lowercase to avoid checksum validation issues in some clients (e.g., viem strict mixed-case checks)
@@ -44,11 +50,15 @@ export async function premiumRoutes(fastify: FastifyInstance): Promise<void> {
           txHash: null,
           event: 'failed',
           error: `verify: ${verifyResult.error}`,
+          errorCode: verifyResult.code ?? 'UNKNOWN',
+          nonce: verifyResult.nonce,
         });
 
         return reply.status(402).send({
           error: 'Payment verification failed',
           details: verifyResult.error,
+          reason: verifyResult.reason,
+          ...describePaymentError(verifyResult.code),
           paymentRequirements: requirements,
         });
       }
@@ -65,11 +75,15 @@ export async function premiumRoutes(fastify: FastifyInstance): Promise<void> {
           txHash: null,
           event: 'failed',
           error: `settle: ${settleResult.error}`,
+          errorCode: settleResult.code,
+          nonce: verifyResult.nonce,
         });
 
         return reply.status(402).send({
           error: 'Payment settlement failed',
           details: settleResult.error,
+          reason: settleResult.reason,
+          ...describePaymentError(settleResult.code),
           paymentRequirements: requirements,
         });
       }
@@ -83,8 +97,19 @@ export async function premiumRoutes(fastify: FastifyInstance): Promise<void> {
         txHash: settleResult.txHash || null,
         event: 'settled',
         error: null,
+        nonce: settleResult.nonce,
       });
 
+      reply.header(
+        'X-PAYMENT-RESPONSE',
+        encodePaymentResponseHeader({
+          success: true,
+          transaction: payment.txHash,
+          network: requirements.network,
+          payer: verifyResult.payer ?? null,
+        })
+      );
+
       // Return the echo response with payment info
       const body = request.body || { message: 'Hello' };
       return reply.status(200).send({
@@ -0,0 +1,40 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { getReceipt, getReceiptSigner, getReceiptTypedData, verifyReceipt } from '../services/receipts.js';
+
+const ReceiptIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export async function receiptRoutes(fastify: FastifyInstance): Promise<void> {
+  // Address that currently signs receipts
+  fastify.get('/api/receipts/signer', async () => {
+    return { signer: getReceiptSigner().address };
+  });
+
+  // Public receipt lookup with everything needed to check the signature independently
+  fastify.get<{ Params: { id: string } }>(
+    '/api/receipts/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const parseResult = ReceiptIdSchema.safeParse(request.params);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const receipt = await getReceipt(parseResult.data.id);
+      if (!receipt) {
+        return reply.status(404).send({ error: 'Receipt not found' });
+      }
+
+      return reply.send({
+        receipt,
+        valid: await verifyReceipt(receipt),
+        currentSigner: receipt.signer.toLowerCase() === getReceiptSigner().address.toLowerCase(),
+        typedData: getReceiptTypedData(receipt),
+      });
+    }
+  );
+}
@@ -1,5 +1,16 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
+import {
+  AgentWalletBudgetSchema,
+  FreeTierPolicySchema,
+  PaymentOptionSchema,
+  PricingTierSchema,
+  SubscriptionPolicySchema,
+  type PaymentErrorCode,
+  type PaymentOnchainStatus,
+  type PaymentOption,
+  type PricingTier,
+} from '@soulforge/shared';
 import { getPool } from '../lib/db.js';
 import { getConfig } from '../config.js';
 import {
@@ -10,7 +21,12 @@ import {
   countModuleDocuments,
 } from '../services/knowledge.js';
 import { testRAG } from '../services/rag.js';
-import { createAgentWallet, getAgentWallet } from '../services/agent-wallet.js';
+import {
+  createAgentWallet,
+  getAgentWallet,
+  getAgentWalletSpend,
+  updateAgentWalletBudget,
+} from '../services/agent-wallet.js';
 import {
   getEvalCases,
   addEvalCases,
@@ -19,25 +35,39 @@ import {
   getLatestEvalRun,
   getEvalRuns,
 } from '../services/eval.js';
-import { verifyPaymentTxOnchain } from '../services/onchain.js';
+import { AgentWalletSweepError, listAgentWalletSweeps, sweepAgentWallet } from '../services/agent-sweep.js';
+import { getTokenBalance } from '../services/onchain.js';
+import { normalizeNetworkName } from '../services/chains.js';
+import { listCredits } from '../services/credits.js';
+import { listDiscrepancies } from '../services/reconciliation.js';
+import { resolveFreeTierPolicy } from '../services/free-tier.js';
 
 const CreateModuleSchema = z.object({
   name: z.string().min(1, 'Name is required').max(100),
   description: z.string().max(2000).default(''),
   tags: z.array(z.string().max(50)).max(10).default([]),
   personaPrompt: z.string().max(10000).default(''),
-  pricingMode: z.enum(['per_message', 'per_session']),
+  pricingMode: z.enum(['per_message', 'per_session', 'metered', 'subscription']),
   priceAmount: z
     .string()
     .regex(/^\d+$/, 'Price must be a non-negative integer string')
     .refine((val) => BigInt(val) > 0n, 'Price must be greater than 0'),
+  pricePer1kTokens: z
+    .string()
+    .regex(/^\d+$/, 'Price per 1k tokens must be a non-negative integer string')
+    .refine((val) => BigInt(val) > 0n, 'Price per 1k tokens must be greater than 0')
+    .optional(),
   sessionPolicy: z
     .object({
       minutes: z.number().int().positive().optional(),
       messageCredits: z.number().int().positive().optional(),
     })
     .optional(),
+  subscriptionPolicy: SubscriptionPolicySchema.optional(),
+  pricingTiers: z.array(PricingTierSchema).max(10).optional(),
+  freeTierPolicy: FreeTierPolicySchema.optional(),
   payTo: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid pay_to address'),
+  paymentOptions: z.array(PaymentOptionSchema).max(10).optional(),
 });
 
 type CreateModuleRequest = z.infer<typeof CreateModuleSchema>;
@@ -54,33 +84,61 @@ function normalizeEvmAddressLower(value: unknown): string | null {
 function normalizeSupportedNetwork(value: unknown, fallback: unknown): string | null {
   const raw = typeof value === 'string' ? value.trim() : '';
   const fb = typeof fallback === 'string' ? fallback.trim() : '';
-  const chosen = (raw || fb).toLowerCase();
+  const chosen = raw || fb;
+  if (!chosen) return null;
 
-  if (chosen === 'cronos') return 'cronos-mainnet';
-  if (chosen === 'cronos-mainnet' || chosen === 'cronos-testnet') return chosen;
+  return normalizeNetworkName(chosen);
+}
 
-  return null;
+// Payment options must use networks known to the chain registry
+function getPaymentOptionIssues(options: PaymentOption[] | undefined): Array<{ path: (string | number)[]; message: string }> {
+  return (options ?? []).flatMap((option, index) =>
+    normalizeNetworkName(option.network)
+      ? []
+      : [{ path: ['paymentOptions', index, 'network'], message: `Unsupported network: ${option.network}` }]
+  );
 }
 
-async function mapWithConcurrency<T, U>(
-  items: T[],
-  concurrency: number,
-  fn: (item: T) => Promise<U>
-): Promise<U[]> {
-  const results: U[] = new Array(items.length);
-  let nextIndex = 0;
-
-  const workers = new Array(Math.min(concurrency, items.length)).fill(null).map(async () => {
-    while (true) {
-      const current = nextIndex;
-      nextIndex += 1;
-      if (current >= items.length) return;
-      results[current] = await fn(items[current]);
+function getPricingTierIssues(
+  pricingMode: string,
+  tiers: PricingTier[] | undefined
+): Array<{ path: (string | number)[]; message: string }> {
+  if (!tiers || tiers.length === 0) return [];
+  if (pricingMode !== 'per_message') {
+    return [{ path: ['pricingTiers'], message: 'Pricing tiers are only available for per_message pricing' }];
+  }
+  const seen = new Set<string>();
+  return tiers.flatMap((tier, index) => {
+    if (seen.has(tier.id)) {
+      return [{ path: ['pricingTiers', index, 'id'], message: `Duplicate tier id: ${tier.id}` }];
     }
+    seen.add(tier.id);
+    return [];
   });
+}
 
-  await Promise.all(workers);
-  return results;
+type StoredOnchainResult = {
+  status: PaymentOnchainStatus | 'unverified';
+  txHash: string;
+  network: string;
+  blockNumber?: string;
+  blockTimestamp?: string; // ISO
+  error?: string;
+};
+
+// On-chain result saved on the payment row by the reconciliation worker ('unverified' until it has checked)
+function mapStoredOnchain(row: Record<string, unknown>, txHash: string | null, network: string): StoredOnchainResult {
+  if (!row.onchain_status) {
+    return { status: 'unverified', txHash: txHash ?? '', network };
+  }
+  return {
+    status: row.onchain_status as PaymentOnchainStatus,
+    txHash: txHash ?? '',
+    network,
+    blockNumber: (row.onchain_block_number as string | null) ?? undefined,
+    blockTimestamp: row.onchain_block_timestamp ? (row.onchain_block_timestamp as Date).toISOString() : undefined,
+    error: (row.onchain_error as string | null) ?? undefined,
+  };
 }
 
 export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
@@ -104,8 +162,13 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         personaPrompt,
         pricingMode,
         priceAmount,
+        pricePer1kTokens,
         sessionPolicy,
+        subscriptionPolicy,
+        pricingTiers,
+        freeTierPolicy,
         payTo,
+        paymentOptions,
       } = parseResult.data;
 
       // Validate session policy for per_session pricing
@@ -116,6 +179,34 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      // Metered pricing charges per 1k tokens, capped at priceAmount
+      if (pricingMode === 'metered' && !pricePer1kTokens) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: [{ path: ['pricePer1kTokens'], message: 'Price per 1k tokens is required for metered pricing' }],
+        });
+      }
+
+      // Subscriptions grant access for a period (with an optional fair-use cap) per payment
+      if (pricingMode === 'subscription' && !subscriptionPolicy) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: [
+            { path: ['subscriptionPolicy'], message: 'Subscription policy is required for subscription pricing' },
+          ],
+        });
+      }
+
+      const paymentOptionIssues = getPaymentOptionIssues(paymentOptions);
+      if (paymentOptionIssues.length > 0) {
+        return reply.status(400).send({ error: 'Invalid request', details: paymentOptionIssues });
+      }
+
+      const pricingTierIssues = getPricingTierIssues(pricingMode, pricingTiers);
+      if (pricingTierIssues.length > 0) {
+        return reply.status(400).send({ error: 'Invalid request', details: pricingTierIssues });
+      }
+
       const user = request.user as { sub: string; address: string; role: string };
       const config = getConfig();
       const pool = getPool();
@@ -134,11 +225,17 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
           session_policy,
           pay_to,
           network,
-          asset_contract
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+          asset_contract,
+          price_per_1k_tokens,
+          payment_options,
+          subscription_policy,
+          pricing_tiers,
+          free_tier_policy
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
         RETURNING id, owner_user_id, type, name, description, tags, status,
-                  persona_prompt, pricing_mode, price_amount, session_policy,
-                  pay_to, network, asset_contract, created_at, updated_at`,
+                  persona_prompt, pricing_mode, price_amount, price_per_1k_tokens, session_policy,
+                  subscription_policy, pricing_tiers, free_tier_policy, pay_to, network, asset_contract,
+                  payment_options, created_at, updated_at`,
         [
           user.sub,
           'base',
@@ -153,6 +250,11 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
           payTo,
           config.X402_NETWORK,
           config.X402_ASSET_CONTRACT || '',
+          pricingMode === 'metered' ? pricePer1kTokens : null,
+          paymentOptions && paymentOptions.length > 0 ? JSON.stringify(paymentOptions) : null,
+          pricingMode === 'subscription' && subscriptionPolicy ? JSON.stringify(subscriptionPolicy) : null,
+          pricingTiers && pricingTiers.length > 0 ? JSON.stringify(pricingTiers) : null,
+          freeTierPolicy ? JSON.stringify(freeTierPolicy) : null,
         ]
       );
 
@@ -169,10 +271,15 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         personaPrompt: module.persona_prompt,
         pricingMode: module.pricing_mode,
         priceAmount: module.price_amount,
+        pricePer1kTokens: module.price_per_1k_tokens,
         sessionPolicy: module.session_policy,
+        subscriptionPolicy: module.subscription_policy,
+        pricingTiers: module.pricing_tiers,
+        freeTierPolicy: module.free_tier_policy,
         payTo: module.pay_to,
         network: module.network,
         assetContract: module.asset_contract,
+        paymentOptions: module.payment_options,
         createdAt: module.created_at,
         updatedAt: module.updated_at,
       });
@@ -208,7 +315,7 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
 
       const result = await pool.query(
         `SELECT id, type, name, description, tags, status,
-                pricing_mode, price_amount, pay_to, network, asset_contract,
+                pricing_mode, price_amount, price_per_1k_tokens, pay_to, network, asset_contract,
                 eval_score, created_at, updated_at
          FROM modules
          WHERE owner_user_id = $1
@@ -234,6 +341,7 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         status: row.status,
         pricingMode: row.pricing_mode,
         priceAmount: row.price_amount,
+        pricePer1kTokens: row.price_per_1k_tokens,
         payTo: row.pay_to,
         network: row.network,
         assetContract: row.asset_contract,
@@ -265,9 +373,9 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
 
       const result = await pool.query(
         `SELECT id, owner_user_id, type, name, description, tags, status,
-                persona_prompt, pricing_mode, price_amount, session_policy,
-                pay_to, network, asset_contract, upstream_module_id, remix_policy,
-                eval_score, last_eval_at, created_at, updated_at
+                persona_prompt, pricing_mode, price_amount, price_per_1k_tokens, session_policy,
+                subscription_policy, pricing_tiers, free_tier_policy, pay_to, network, asset_contract, payment_options,
+                upstream_module_id, remix_policy, eval_score, last_eval_at, created_at, updated_at
          FROM modules
          WHERE id = $1`,
         [id]
@@ -295,10 +403,15 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         personaPrompt: module.persona_prompt,
         pricingMode: module.pricing_mode,
         priceAmount: module.price_amount,
+        pricePer1kTokens: module.price_per_1k_tokens,
         sessionPolicy: module.session_policy,
+        subscriptionPolicy: module.subscription_policy,
+        pricingTiers: module.pricing_tiers,
+        freeTierPolicy: module.free_tier_policy,
         payTo: module.pay_to,
         network: module.network,
         assetContract: module.asset_contract,
+        paymentOptions: module.payment_options,
         upstreamModuleId: module.upstream_module_id,
         remixPolicy: module.remix_policy,
         evalScore: module.eval_score,
@@ -359,6 +472,164 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
     }
   );
 
+  const UpdatePaymentOptionsSchema = z.object({
+    paymentOptions: z.array(PaymentOptionSchema).max(10),
+  });
+
+  // Replace the extra (network, asset) pairs a module accepts
+  fastify.put<{ Params: { id: string }; Body: z.infer<typeof UpdatePaymentOptionsSchema> }>(
+    '/api/seller/modules/:id/payment-options',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: z.infer<typeof UpdatePaymentOptionsSchema> }>,
+      reply: FastifyReply
+    ) => {
+      const { id } = request.params;
+      const user = request.user as { sub: string; address: string; role: string };
+      const pool = getPool();
+
+      const parseResult = UpdatePaymentOptionsSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const { paymentOptions } = parseResult.data;
+      const paymentOptionIssues = getPaymentOptionIssues(paymentOptions);
+      if (paymentOptionIssues.length > 0) {
+        return reply.status(400).send({ error: 'Invalid request', details: paymentOptionIssues });
+      }
+
+      const moduleResult = await pool.query('SELECT id, owner_user_id FROM modules WHERE id = $1', [id]);
+      if (moduleResult.rows.length === 0) {
+        return reply.status(404).send({ error: 'Module not found' });
+      }
+      if (moduleResult.rows[0].owner_user_id !== user.sub) {
+        return reply.status(403).send({ error: 'Access denied' });
+      }
+
+      const result = await pool.query(
+        `UPDATE modules SET payment_options = $2, updated_at = NOW()
+         WHERE id = $1
+         RETURNING id, payment_options, updated_at`,
+        [id, paymentOptions.length > 0 ? JSON.stringify(paymentOptions) : null]
+      );
+
+      return reply.send({
+        id: result.rows[0].id,
+        paymentOptions: result.rows[0].payment_options,
+        updatedAt: result.rows[0].updated_at,
+      });
+    }
+  );
+
+  const UpdatePricingTiersSchema = z.object({
+    pricingTiers: z.array(PricingTierSchema).max(10),
+  });
+
+  // Replace the credit packs offered on a per_message module (purchased packs are unaffected)
+  fastify.put<{ Params: { id: string }; Body: z.infer<typeof UpdatePricingTiersSchema> }>(
+    '/api/seller/modules/:id/pricing-tiers',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: z.infer<typeof UpdatePricingTiersSchema> }>,
+      reply: FastifyReply
+    ) => {
+      const { id } = request.params;
+      const user = request.user as { sub: string; address: string; role: string };
+      const pool = getPool();
+
+      const parseResult = UpdatePricingTiersSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const moduleResult = await pool.query('SELECT id, owner_user_id, pricing_mode FROM modules WHERE id = $1', [
+        id,
+      ]);
+      if (moduleResult.rows.length === 0) {
+        return reply.status(404).send({ error: 'Module not found' });
+      }
+      if (moduleResult.rows[0].owner_user_id !== user.sub) {
+        return reply.status(403).send({ error: 'Access denied' });
+      }
+
+      const { pricingTiers } = parseResult.data;
+      const pricingTierIssues = getPricingTierIssues(moduleResult.rows[0].pricing_mode, pricingTiers);
+      if (pricingTierIssues.length > 0) {
+        return reply.status(400).send({ error: 'Invalid request', details: pricingTierIssues });
+      }
+
+      const result = await pool.query(
+        `UPDATE modules SET pricing_tiers = $2, updated_at = NOW()
+         WHERE id = $1
+         RETURNING id, pricing_tiers, updated_at`,
+        [id, pricingTiers.length > 0 ? JSON.stringify(pricingTiers) : null]
+      );
+
+      return reply.send({
+        id: result.rows[0].id,
+        pricingTiers: result.rows[0].pricing_tiers,
+        updatedAt: result.rows[0].updated_at,
+      });
+    }
+  );
+
+  const UpdateFreeTierSchema = z.object({
+    // null goes back to the platform default (one truncated preview a day)
+    freeTierPolicy: FreeTierPolicySchema.nullable(),
+  });
+
+  // Set how many free messages buyers get (messagesPerDay: 0 turns the free tier off)
+  fastify.put<{ Params: { id: string }; Body: z.infer<typeof UpdateFreeTierSchema> }>(
+    '/api/seller/modules/:id/free-tier',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: z.infer<typeof UpdateFreeTierSchema> }>,
+      reply: FastifyReply
+    ) => {
+      const { id } = request.params;
+      const user = request.user as { sub: string; address: string; role: string };
+      const pool = getPool();
+
+      const parseResult = UpdateFreeTierSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const moduleResult = await pool.query('SELECT id, owner_user_id FROM modules WHERE id = $1', [id]);
+      if (moduleResult.rows.length === 0) {
+        return reply.status(404).send({ error: 'Module not found' });
+      }
+      if (moduleResult.rows[0].owner_user_id !== user.sub) {
+        return reply.status(403).send({ error: 'Access denied' });
+      }
+
+      const { freeTierPolicy } = parseResult.data;
+      const result = await pool.query(
+        `UPDATE modules SET free_tier_policy = $2, updated_at = NOW()
+         WHERE id = $1
+         RETURNING id, free_tier_policy, updated_at`,
+        [id, freeTierPolicy ? JSON.stringify(freeTierPolicy) : null]
+      );
+
+      return reply.send({
+        id: result.rows[0].id,
+        freeTierPolicy: result.rows[0].free_tier_policy,
+        freeTier: resolveFreeTierPolicy(result.rows[0].free_tier_policy),
+        updatedAt: result.rows[0].updated_at,
+      });
+    }
+  );
+
   // Unpublish module (return to draft)
   fastify.post<{ Params: { id: string } }>(
     '/api/seller/modules/:id/unpublish',
@@ -686,18 +957,27 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
     tags: z.array(z.string().max(50)).max(10).default([]),
     upstreamModuleId: z.string().uuid('Invalid upstream module ID'),
     deltaPersonaPrompt: z.string().max(10000).default(''),
-    pricingMode: z.enum(['per_message', 'per_session']),
+    pricingMode: z.enum(['per_message', 'per_session', 'metered', 'subscription']),
     priceAmount: z
       .string()
       .regex(/^\d+$/, 'Price must be a non-negative integer string')
       .refine((val) => BigInt(val) > 0n, 'Price must be greater than 0'),
+    pricePer1kTokens: z
+      .string()
+      .regex(/^\d+$/, 'Price per 1k tokens must be a non-negative integer string')
+      .refine((val) => BigInt(val) > 0n, 'Price per 1k tokens must be greater than 0')
+      .optional(),
     sessionPolicy: z
       .object({
         minutes: z.number().int().positive().optional(),
         messageCredits: z.number().int().positive().optional(),
       })
       .optional(),
+    subscriptionPolicy: SubscriptionPolicySchema.optional(),
+    pricingTiers: z.array(PricingTierSchema).max(10).optional(),
+    freeTierPolicy: FreeTierPolicySchema.optional(),
     payTo: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid pay_to address'),
+    paymentOptions: z.array(PaymentOptionSchema).max(10).optional(),
     remixPolicy: z
       .object({
         upstreamWeight: z.number().min(0).max(1).default(0.5),
@@ -730,8 +1010,13 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         deltaPersonaPrompt,
         pricingMode,
         priceAmount,
+        pricePer1kTokens,
         sessionPolicy,
+        subscriptionPolicy,
+        pricingTiers,
+        freeTierPolicy,
         payTo,
+        paymentOptions,
         remixPolicy,
       } = parseResult.data;
 
@@ -743,6 +1028,34 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         });
       }
 
+      // Metered pricing charges per 1k tokens, capped at priceAmount
+      if (pricingMode === 'metered' && !pricePer1kTokens) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: [{ path: ['pricePer1kTokens'], message: 'Price per 1k tokens is required for metered pricing' }],
+        });
+      }
+
+      // Subscriptions grant access for a period (with an optional fair-use cap) per payment
+      if (pricingMode === 'subscription' && !subscriptionPolicy) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: [
+            { path: ['subscriptionPolicy'], message: 'Subscription policy is required for subscription pricing' },
+          ],
+        });
+      }
+
+      const paymentOptionIssues = getPaymentOptionIssues(paymentOptions);
+      if (paymentOptionIssues.length > 0) {
+        return reply.status(400).send({ error: 'Invalid request', details: paymentOptionIssues });
+      }
+
+      const pricingTierIssues = getPricingTierIssues(pricingMode, pricingTiers);
+      if (pricingTierIssues.length > 0) {
+        return reply.status(400).send({ error: 'Invalid request', details: pricingTierIssues });
+      }
+
       const user = request.user as { sub: string; address: string; role: string };
       const config = getConfig();
       const pool = getPool();
@@ -790,11 +1103,16 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
             network,
             asset_contract,
             upstream_module_id,
-            remix_policy
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+            remix_policy,
+            price_per_1k_tokens,
+            payment_options,
+            subscription_policy,
+            pricing_tiers,
+            free_tier_policy
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
           RETURNING id, owner_user_id, type, name, description, tags, status,
-                    persona_prompt, pricing_mode, price_amount, session_policy,
-                    pay_to, network, asset_contract, upstream_module_id, remix_policy,
+                    persona_prompt, pricing_mode, price_amount, price_per_1k_tokens, session_policy,
+                    subscription_policy, pricing_tiers, free_tier_policy, pay_to, network, asset_contract, payment_options, upstream_module_id, remix_policy,
                     created_at, updated_at`,
           [
             user.sub,
@@ -817,6 +1135,11 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
               upstreamPayTo: upstreamModule.pay_to,
               upstreamPriceAmount: upstreamModule.price_amount,
             }),
+            pricingMode === 'metered' ? pricePer1kTokens : null,
+            paymentOptions && paymentOptions.length > 0 ? JSON.stringify(paymentOptions) : null,
+            pricingMode === 'subscription' && subscriptionPolicy ? JSON.stringify(subscriptionPolicy) : null,
+            pricingTiers && pricingTiers.length > 0 ? JSON.stringify(pricingTiers) : null,
+            freeTierPolicy ? JSON.stringify(freeTierPolicy) : null,
           ]
         );
 
@@ -848,10 +1171,15 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
           personaPrompt: module.persona_prompt,
           pricingMode: module.pricing_mode,
           priceAmount: module.price_amount,
+          pricePer1kTokens: module.price_per_1k_tokens,
           sessionPolicy: module.session_policy,
+          subscriptionPolicy: module.subscription_policy,
+          pricingTiers: module.pricing_tiers,
+          freeTierPolicy: module.free_tier_policy,
           payTo: module.pay_to,
           network: module.network,
           assetContract: module.asset_contract,
+          paymentOptions: module.payment_options,
           upstreamModuleId: module.upstream_module_id,
           remixPolicy: module.remix_policy,
           createdAt: module.created_at,
@@ -914,12 +1242,259 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         moduleId: id,
         walletAddress: agentWallet.walletAddress,
         keyVersion: agentWallet.keyVersion,
+        budget: agentWallet.budget,
+        spend: await getAgentWalletSpend(agentWallet.walletAddress),
         createdAt: agentWallet.createdAt,
         fundingInstructions: `Fund this wallet with testnet tokens to enable remix payments. Address: ${agentWallet.walletAddress}`,
       });
     }
   );
 
+  // Set the agent wallet's spending limits (null clears a limit; omitted fields are unchanged)
+  fastify.put<{ Params: { id: string }; Body: z.infer<typeof AgentWalletBudgetSchema> }>(
+    '/api/seller/modules/:id/agent-wallet/budget',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: z.infer<typeof AgentWalletBudgetSchema> }>,
+      reply: FastifyReply
+    ) => {
+      const { id } = request.params;
+      const user = request.user as { sub: string; address: string; role: string };
+      const pool = getPool();
+
+      const parseResult = AgentWalletBudgetSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const moduleResult = await pool.query('SELECT id, owner_user_id, type FROM modules WHERE id = $1', [id]);
+      if (moduleResult.rows.length === 0) {
+        return reply.status(404).send({ error: 'Module not found' });
+      }
+      if (moduleResult.rows[0].owner_user_id !== user.sub) {
+        return reply.status(403).send({ error: 'Access denied' });
+      }
+      if (moduleResult.rows[0].type !== 'remix') {
+        return reply.status(400).send({ error: 'Module is not a remix module' });
+      }
+
+      const agentWallet = await updateAgentWalletBudget(id, parseResult.data);
+      if (!agentWallet) {
+        return reply.status(404).send({ error: 'Agent wallet not found' });
+      }
+
+      return reply.send({
+        moduleId: id,
+        walletAddress: agentWallet.walletAddress,
+        budget: agentWallet.budget,
+        spend: await getAgentWalletSpend(agentWallet.walletAddress),
+      });
+    }
+  );
+
+  // On-chain token balance of the agent wallet, flagged 'low' below the threshold
+  // (default: 10 upstream calls) and 'insufficient' when it cannot pay the next call
+  fastify.get<{ Params: { id: string } }>(
+    '/api/seller/modules/:id/agent-wallet/balance',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const { id } = request.params;
+      const user = request.user as { sub: string; address: string; role: string };
+      const pool = getPool();
+      const config = getConfig();
+
+      const moduleResult = await pool.query(
+        `SELECT m.id, m.owner_user_id, m.type, u.price_amount AS upstream_price
+         FROM modules m
+         LEFT JOIN modules u ON u.id = m.upstream_module_id
+         WHERE m.id = $1`,
+        [id]
+      );
+      if (moduleResult.rows.length === 0) {
+        return reply.status(404).send({ error: 'Module not found' });
+      }
+
+      const module = moduleResult.rows[0];
+      if (module.owner_user_id !== user.sub) {
+        return reply.status(403).send({ error: 'Access denied' });
+      }
+      if (module.type !== 'remix') {
+        return reply.status(400).send({ error: 'Module is not a remix module' });
+      }
+
+      const agentWallet = await getAgentWallet(id);
+      if (!agentWallet) {
+        return reply.status(404).send({ error: 'Agent wallet not found' });
+      }
+      if (!config.X402_ASSET_CONTRACT) {
+        return reply.status(503).send({ error: 'X402_ASSET_CONTRACT not configured' });
+      }
+
+      // Upstream calls are paid on the platform's default network and asset
+      let balance: string;
+      try {
+        balance = await getTokenBalance({
+          network: config.X402_NETWORK,
+          assetContract: config.X402_ASSET_CONTRACT,
+          address: agentWallet.walletAddress,
+        });
+      } catch (err) {
+        return reply.status(502).send({
+          error: 'Failed to read on-chain balance',
+          details: err instanceof Error ? err.message : String(err),
+        });
+      }
+
+      const upstreamPrice = (module.upstream_price as string | null) ?? null;
+      const threshold =
+        agentWallet.budget.lowBalanceThreshold ?? (upstreamPrice ? (BigInt(upstreamPrice) * 10n).toString() : null);
+      const status =
+        upstreamPrice && BigInt(balance) < BigInt(upstreamPrice)
+          ? 'insufficient'
+          : threshold && BigInt(balance) < BigInt(threshold)
+            ? 'low'
+            : 'ok';
+
+      return reply.send({
+        moduleId: id,
+        walletAddress: agentWallet.walletAddress,
+        network: config.X402_NETWORK,
+        asset: config.X402_ASSET_CONTRACT,
+        balance,
+        upstreamPrice,
+        lowBalanceThreshold: threshold,
+        status,
+        lowBalance: status !== 'ok',
+      });
+    }
+  );
+
+  const SweepAgentWalletSchema = z.object({
+    to: z.string().regex(EVM_ADDRESS_REGEX, 'Invalid destination address'),
+    // Omit to sweep the whole balance
+    amount: z
+      .string()
+      .regex(/^\d+$/, 'Must be integer string in smallest units')
+      .refine((val) => BigInt(val) > 0n, 'Amount must be greater than 0')
+      .optional(),
+    dryRun: z.boolean().default(false),
+  });
+
+  const SweepHistoryQuerySchema = z.object({
+    limit: z.coerce.number().int().positive().max(200).default(50),
+  });
+
+  // Withdraw tokens from the agent wallet to an address of the seller's choosing.
+  // The wallet signs an EIP-3009 transfer and the facilitator settles it (no direct ERC-20 transfer, so the asset
+  // must support EIP-3009); dryRun only reports the outcome, and mock mode records a 'mock' sweep that moves nothing.
+  fastify.post<{ Params: { id: string }; Body: z.infer<typeof SweepAgentWalletSchema> }>(
+    '/api/seller/modules/:id/agent-wallet/sweep',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: z.infer<typeof SweepAgentWalletSchema> }>,
+      reply: FastifyReply
+    ) => {
+      const { id } = request.params;
+      const user = request.user as { sub: string; address: string; role: string };
+      const pool = getPool();
+
+      const parseResult = SweepAgentWalletSchema.safeParse(request.body ?? {});
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const moduleResult = await pool.query('SELECT id, owner_user_id, type FROM modules WHERE id = $1', [id]);
+      if (moduleResult.rows.length === 0) {
+        return reply.status(404).send({ error: 'Module not found' });
+      }
+      if (moduleResult.rows[0].owner_user_id !== user.sub) {
+        return reply.status(403).send({ error: 'Access denied' });
+      }
+      if (moduleResult.rows[0].type !== 'remix') {
+        return reply.status(400).send({ error: 'Module is not a remix module' });
+      }
+
+      let outcome;
+      try {
+        outcome = await sweepAgentWallet({
+          moduleId: id,
+          requestedBy: user.sub,
+          to: parseResult.data.to,
+          amount: parseResult.data.amount,
+          dryRun: parseResult.data.dryRun,
+        });
+      } catch (err) {
+        if (err instanceof AgentWalletSweepError) {
+          return reply.status(err.statusCode).send({
+            error: err.message,
+            ...(err.details !== undefined ? { details: err.details } : {}),
+          });
+        }
+        throw err;
+      }
+
+      const { sweep, remainingBalance, mock } = outcome;
+      if (sweep.status === 'succeeded') {
+        request.log.info({ moduleId: id, sweepId: sweep.id, txHash: sweep.txHash }, 'Agent wallet swept');
+      } else if (sweep.status === 'mock') {
+        request.log.info({ moduleId: id, sweepId: sweep.id }, 'Agent wallet sweep mocked (nothing transferred)');
+      } else if (sweep.status === 'failed') {
+        request.log.warn({ moduleId: id, sweepId: sweep.id, error: sweep.error }, 'Agent wallet sweep failed');
+      }
+
+      return reply.status(sweep.status === 'failed' ? 502 : 200).send({
+        ...(sweep.status === 'failed' ? { error: 'Sweep failed' } : {}),
+        moduleId: id,
+        dryRun: sweep.status === 'dry_run',
+        sweep,
+        balance: sweep.balanceBefore,
+        remainingBalance,
+        mock,
+      });
+    }
+  );
+
+  // Sweep audit log for the module's agent wallet
+  fastify.get<{ Params: { id: string }; Querystring: z.infer<typeof SweepHistoryQuerySchema> }>(
+    '/api/seller/modules/:id/agent-wallet/sweeps',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: z.infer<typeof SweepHistoryQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const { id } = request.params;
+      const user = request.user as { sub: string; address: string; role: string };
+      const pool = getPool();
+
+      const parseResult = SweepHistoryQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const moduleResult = await pool.query('SELECT id, owner_user_id FROM modules WHERE id = $1', [id]);
+      if (moduleResult.rows.length === 0) {
+        return reply.status(404).send({ error: 'Module not found' });
+      }
+      if (moduleResult.rows[0].owner_user_id !== user.sub) {
+        return reply.status(403).send({ error: 'Access denied' });
+      }
+
+      return reply.send({
+        moduleId: id,
+        sweeps: await listAgentWalletSweeps(id, parseResult.data.limit),
+      });
+    }
+  );
+
   // ==================== EVAL ENDPOINTS ====================
 
   const AddEvalCasesSchema = z.object({
@@ -1130,7 +1705,7 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         return reply.send({
           payments: [],
           pagination: { page, size, total: 0, totalPages: 0 },
-          meta: { source: 'db+onchain', days, verified: 0, confirmed: 0 },
+          meta: { source: 'db+reconciliation', days, verified: 0, confirmed: 0 },
         });
       }
 
@@ -1142,8 +1717,9 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         `SELECT p.id, p.module_id, m.name as module_name,
                 p.payer_wallet, p.pay_to, p.value, p.tx_hash,
                 COALESCE(NULLIF(p.network, ''), NULLIF(m.network, '')) as network,
-                NULLIF(m.asset_contract, '') as asset_contract,
-                p.event, p.error, p.created_at
+                COALESCE(NULLIF(p.asset, ''), NULLIF(m.asset_contract, '')) as asset_contract,
+                p.event, p.error, p.error_code, p.created_at,
+                p.onchain_status, p.onchain_block_number, p.onchain_block_timestamp, p.onchain_error
          FROM payments p
          JOIN modules m ON p.module_id = m.id
          WHERE ${whereClause}
@@ -1152,43 +1728,19 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         listValues
       );
 
-      const payments = await mapWithConcurrency(paymentsResult.rows, 10, async (row) => {
+      const payments = paymentsResult.rows.map((row) => {
         const txHash = typeof row.tx_hash === 'string' ? row.tx_hash.toLowerCase() : null;
         const networkRaw = typeof row.network === 'string' ? row.network : '';
         const network = normalizeSupportedNetwork(networkRaw, config.X402_NETWORK);
 
-        const assetContract =
-          normalizeEvmAddressLower(row.asset_contract) ?? normalizeEvmAddressLower(config.X402_ASSET_CONTRACT);
-
         const payTo = normalizeEvmAddressLower(row.pay_to);
         const payerWallet = normalizeEvmAddressLower(row.payer_wallet);
         const value = typeof row.value === 'string' ? row.value : '0';
 
-        let onchain:
-          | Awaited<ReturnType<typeof verifyPaymentTxOnchain>>
-          | { status: 'error'; txHash: string; network: string; error: string };
-
-        if (!txHash) {
-          onchain = { status: 'error', txHash: '', network: network || networkRaw || config.X402_NETWORK, error: 'Missing tx_hash' };
-        } else if (!network) {
-          onchain = { status: 'error', txHash, network: networkRaw || config.X402_NETWORK, error: 'Unsupported network' };
-        } else if (!assetContract) {
-          onchain = { status: 'error', txHash, network, error: 'Missing asset contract (X402_ASSET_CONTRACT)' };
-        } else if (!payTo) {
-          onchain = { status: 'error', txHash, network, error: 'Invalid pay_to' };
-        } else {
-          onchain = await verifyPaymentTxOnchain({
-            txHash,
-            network,
-            assetContract,
-            expectedTo: payTo,
-            expectedValue: value,
-            expectedFrom: payerWallet || undefined,
-          });
-        }
+        const onchain = mapStoredOnchain(row, txHash, network || networkRaw || config.X402_NETWORK);
 
         const createdAt =
-          onchain.status === 'confirmed'
+          onchain.status === 'confirmed' && onchain.blockTimestamp
             ? onchain.blockTimestamp
             : row.created_at;
 
@@ -1203,12 +1755,13 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
           network: network || networkRaw || config.X402_NETWORK,
           event: row.event as string,
           error: row.error as string | null,
+          errorCode: (row.error_code as PaymentErrorCode | null) ?? null,
           createdAt,
           onchain,
         };
       });
 
-      const verifiedCount = payments.filter((p) => p.txHash).length;
+      const verifiedCount = payments.filter((p) => p.onchain.status !== 'unverified').length;
       const confirmedCount = payments.filter((p) => p.onchain?.status === 'confirmed').length;
 
       return reply.send({
@@ -1219,8 +1772,85 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
           total,
           totalPages: Math.ceil(total / size),
         },
-        meta: { source: 'db+onchain', days, verified: verifiedCount, confirmed: confirmedCount },
+        meta: { source: 'db+reconciliation', days, verified: verifiedCount, confirmed: confirmedCount },
+      });
+    }
+  );
+
+  const CreditsQuerySchema = z.object({
+    moduleId: z.string().uuid().optional(),
+    status: z.enum(['outstanding', 'redeemed']).optional(),
+    limit: z.coerce.number().int().positive().max(500).default(100),
+  });
+
+  // List buyer credits owed on seller's modules (settled payments that produced no reply)
+  fastify.get<{ Querystring: z.infer<typeof CreditsQuerySchema> }>(
+    '/api/seller/credits',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Querystring: z.infer<typeof CreditsQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = CreditsQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const credits = await listCredits({ ownerUserId: user.sub, ...parseResult.data });
+      return reply.send({ credits });
+    }
+  );
+
+  const DiscrepanciesQuerySchema = z.object({
+    kind: z.enum(['payment_unconfirmed', 'unrecorded_transfer']).optional(),
+    unresolved: z.enum(['true', 'false']).optional(),
+    limit: z.coerce.number().int().positive().max(500).default(100),
+  });
+
+  // Reconciliation discrepancies involving the seller's pay_to addresses
+  fastify.get<{ Querystring: z.infer<typeof DiscrepanciesQuerySchema> }>(
+    '/api/seller/discrepancies',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Querystring: z.infer<typeof DiscrepanciesQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const user = request.user as { sub: string; address: string; role: string };
+      const pool = getPool();
+
+      const parseResult = DiscrepanciesQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const addressesResult = await pool.query(
+        `SELECT pay_to FROM modules WHERE owner_user_id = $1
+         UNION
+         SELECT opt->>'payTo' FROM modules m, jsonb_array_elements(COALESCE(m.payment_options, '[]'::jsonb)) AS opt
+         WHERE m.owner_user_id = $1 AND opt->>'payTo' IS NOT NULL`,
+        [user.sub]
+      );
+      const toAddresses = addressesResult.rows.map((r) => r.pay_to as string);
+      if (toAddresses.length === 0) {
+        return reply.send({ discrepancies: [] });
+      }
+
+      const { kind, unresolved, limit } = parseResult.data;
+      const discrepancies = await listDiscrepancies({
+        kind,
+        unresolvedOnly: unresolved === 'true',
+        toAddresses,
+        limit,
       });
+      return reply.send({ discrepancies });
     }
   );
 
@@ -1256,7 +1886,7 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         `SELECT p.id, p.module_id, m.name as module_name,
                 p.payer_wallet, p.pay_to, p.value, p.tx_hash,
                 COALESCE(NULLIF(p.network, ''), NULLIF(m.network, '')) as network,
-                NULLIF(m.asset_contract, '') as asset_contract
+                p.onchain_status, p.onchain_block_number, p.onchain_block_timestamp, p.onchain_error
          FROM payments p
          JOIN modules m ON p.module_id = m.id
          WHERE m.owner_user_id = $1
@@ -1265,40 +1895,15 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         [user.sub, windowDays]
       );
 
-      const verified = await mapWithConcurrency(paymentsResult.rows, 10, async (row) => {
+      const verified = paymentsResult.rows.map((row) => {
         const txHash = typeof row.tx_hash === 'string' ? row.tx_hash.toLowerCase() : null;
         const networkRaw = typeof row.network === 'string' ? row.network : '';
         const network = normalizeSupportedNetwork(networkRaw, config.X402_NETWORK);
 
-        const assetContract =
-          normalizeEvmAddressLower(row.asset_contract) ?? normalizeEvmAddressLower(config.X402_ASSET_CONTRACT);
-
-        const payTo = normalizeEvmAddressLower(row.pay_to);
         const payerWallet = normalizeEvmAddressLower(row.payer_wallet);
         const value = typeof row.value === 'string' ? row.value : '0';
 
-        let onchain:
-          | Awaited<ReturnType<typeof verifyPaymentTxOnchain>>
-          | { status: 'error'; txHash: string; network: string; error: string };
-
-        if (!txHash) {
-          onchain = { status: 'error', txHash: '', network: network || networkRaw || config.X402_NETWORK, error: 'Missing tx_hash' };
-        } else if (!network) {
-          onchain = { status: 'error', txHash, network: networkRaw || config.X402_NETWORK, error: 'Unsupported network' };
-        } else if (!assetContract) {
-          onchain = { status: 'error', txHash, network, error: 'Missing asset contract (X402_ASSET_CONTRACT)' };
-        } else if (!payTo) {
-          onchain = { status: 'error', txHash, network, error: 'Invalid pay_to' };
-        } else {
-          onchain = await verifyPaymentTxOnchain({
-            txHash,
-            network,
-            assetContract,
-            expectedTo: payTo,
-            expectedValue: value,
-            expectedFrom: payerWallet || undefined,
-          });
-        }
+        const onchain = mapStoredOnchain(row, txHash, network || networkRaw || config.X402_NETWORK);
 
         return {
           moduleId: row.module_id as string,
@@ -1324,6 +1929,7 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
       const perModule = new Map<string, { name: string; revenue: bigint; payments: number }>();
 
       const statusCounts = {
+        unverified: 0,
         confirmed: 0,
         not_found: 0,
         reverted: 0,
@@ -1341,7 +1947,7 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
 
         statusCounts.confirmed += 1;
 
-        const ts = Date.parse(p.onchain.blockTimestamp);
+        const ts = Date.parse(p.onchain.blockTimestamp ?? '');
         if (Number.isNaN(ts)) continue;
 
         const value = BigInt(p.value);
@@ -1396,7 +2002,7 @@ export async function sellerRoutes(fastify: FastifyInstance): Promise<void> {
         revenueTimeseries: timeseries,
         topModules,
         meta: {
-          source: 'db+onchain',
+          source: 'db+reconciliation',
           windowDays,
           paymentsScanned: verified.length,
           statusCounts,
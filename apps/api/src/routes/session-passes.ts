@@ -0,0 +1,354 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import type { PaymentErrorCode, PaymentOption } from '@soulforge/shared';
+import { getPool } from '../lib/db.js';
+import {
+  buildAcceptedPaymentRequirements,
+  selectPaymentRequirements,
+  verifyPayment,
+  settlePayment,
+  encodePaymentResponseHeader,
+  describePaymentError,
+  getPaymentValidBefore,
+} from '../services/x402.js';
+import {
+  getSessionPass,
+  listSessionPasses,
+  revokeSessionPass,
+  supportsSessionPass,
+  topUpSessionPass,
+  type SessionPolicy,
+} from '../services/session-pass.js';
+import { releaseSpendingPolicyReservation, reserveWithinSpendingPolicy } from '../services/spending-policy.js';
+import { createCredit } from '../services/credits.js';
+import { emitPaymentWebhook, emitWebhookEvent } from '../services/webhooks.js';
+
+const SessionPassIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export async function sessionPassRoutes(fastify: FastifyInstance): Promise<void> {
+  // Active session passes for the signed-in wallet, with credits left, soonest expiry first
+  fastify.get('/api/session-passes', { preValidation: [fastify.authenticate] }, async (request: FastifyRequest) => {
+    const user = request.user as { sub: string; address: string; role: string };
+    const sessionPasses = await listSessionPasses(user.address);
+    return { sessionPasses };
+  });
+
+  // Pay the module's session price again to add its credits and minutes to an active pass
+  fastify.post<{ Params: { id: string } }>(
+    '/api/session-passes/:id/top-up',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = SessionPassIdSchema.safeParse(request.params);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const pass = await getSessionPass(parseResult.data.id);
+      if (!pass || pass.walletAddress !== user.address.toLowerCase()) {
+        return reply.status(404).send({ error: 'Session pass not found' });
+      }
+      if (pass.revokedAt) {
+        return reply.status(409).send({ error: 'Session pass has been revoked' });
+      }
+      if (pass.expiresAt.getTime() <= Date.now()) {
+        return reply.status(409).send({ error: 'Session pass has expired; buy a new one' });
+      }
+
+      const pool = getPool();
+      const moduleResult = await pool.query(
+        `SELECT status, pay_to, price_amount, pricing_mode, session_policy, payment_options
+         FROM modules WHERE id = $1`,
+        [pass.moduleId]
+      );
+      const module = moduleResult.rows[0];
+      if (!module || module.status !== 'published') {
+        return reply.status(404).send({ error: 'Module not found' });
+      }
+
+      const sessionPolicy = module.session_policy as SessionPolicy | null;
+      if (!supportsSessionPass(module.pricing_mode, sessionPolicy) || !sessionPolicy) {
+        return reply.status(409).send({ error: 'Module no longer sells session passes' });
+      }
+
+      const accepts = buildAcceptedPaymentRequirements({
+        payTo: module.pay_to,
+        priceAmount: module.price_amount,
+        description: `module:${pass.moduleId} / session pass top-up`,
+        paymentOptions: module.payment_options as PaymentOption[] | null,
+      });
+
+      const paymentHeader = request.headers['x-payment'] as string | undefined;
+      if (!paymentHeader) {
+        return reply.status(402).send({
+          error: 'Payment Required',
+          paymentRequirements: accepts[0],
+          accepts,
+          sessionPolicy,
+        });
+      }
+
+      const requirements = selectPaymentRequirements(paymentHeader, accepts);
+      if (!requirements) {
+        return reply.status(402).send({
+          error: 'Unsupported payment network or asset',
+          details: 'X-PAYMENT must target one of the accepted (network, asset) options',
+          accepts,
+        });
+      }
+
+      const verifyResult = await verifyPayment(paymentHeader, requirements);
+      if (!verifyResult.valid) {
+        await recordFailedTopUp({
+          moduleId: pass.moduleId,
+          payerWallet: verifyResult.payer || 'unknown',
+          payTo: requirements.payTo,
+          value: verifyResult.value || requirements.maxAmountRequired,
+          network: requirements.network,
+          asset: requirements.asset,
+          error: `verify: ${verifyResult.error}`,
+          errorCode: verifyResult.code ?? 'UNKNOWN',
+          nonce: verifyResult.nonce,
+        });
+
+        return reply.status(402).send({
+          error: 'Payment verification failed',
+          details: verifyResult.error,
+          reason: verifyResult.reason,
+          ...describePaymentError(verifyResult.code),
+          paymentRequirements: requirements,
+        });
+      }
+
+      // The pass belongs to the signed-in wallet, so it must also be the payer
+      if (verifyResult.payer?.toLowerCase() !== pass.walletAddress) {
+        return reply.status(403).send({ error: 'Payment must be signed by the authenticated wallet' });
+      }
+
+      const policyCheck = await reserveWithinSpendingPolicy({
+        payer: verifyResult.payer,
+        moduleId: pass.moduleId,
+        value: verifyResult.value || requirements.maxAmountRequired,
+        nonce: verifyResult.nonce,
+        expiresAt: getPaymentValidBefore(paymentHeader),
+      });
+      if (!policyCheck.allowed) {
+        return reply.status(403).send({
+          error: 'Payment would exceed the payer\'s spending policy',
+          reason: 'spending_policy_exceeded',
+          limit: policyCheck.limit,
+          limitAmount: policyCheck.limitAmount,
+          attemptedTotal: policyCheck.attemptedTotal,
+        });
+      }
+
+      const settleResult = await settlePayment(paymentHeader, requirements);
+      if (!settleResult.success) {
+        await recordFailedTopUp({
+          moduleId: pass.moduleId,
+          payerWallet: verifyResult.payer,
+          payTo: requirements.payTo,
+          value: verifyResult.value || requirements.maxAmountRequired,
+          network: requirements.network,
+          asset: requirements.asset,
+          error: `settle: ${settleResult.error}`,
+          errorCode: settleResult.code,
+          nonce: verifyResult.nonce,
+        });
+        await releaseSpendingPolicyReservation(policyCheck.reservationId);
+
+        return reply.status(402).send({
+          error: 'Payment settlement failed',
+          details: settleResult.error,
+          reason: settleResult.reason,
+          ...describePaymentError(settleResult.code),
+          paymentRequirements: requirements,
+        });
+      }
+
+      const payment = {
+        payerWallet: verifyResult.payer,
+        payTo: requirements.payTo,
+        value: verifyResult.value || requirements.maxAmountRequired,
+        txHash: settleResult.txHash,
+        network: requirements.network,
+        asset: requirements.asset,
+        nonce: settleResult.nonce,
+      };
+
+      let topUp: Awaited<ReturnType<typeof topUpSessionPass>>;
+      try {
+        topUp = await topUpSessionPass({ passId: pass.id, payment, sessionPolicy });
+      } catch (err) {
+        // The funds have moved but the top-up rolled back (e.g. the pass was revoked meanwhile):
+        // record the payment on its own and owe the buyer instead of losing it
+        request.log.error({ err, sessionPassId: pass.id }, 'Failed to apply paid session pass top-up');
+        const paymentId = await recordSettledTopUp({
+          moduleId: pass.moduleId,
+          ...payment,
+          error: `top-up: ${err instanceof Error ? err.message : 'failed'}`,
+        });
+        await releaseSpendingPolicyReservation(policyCheck.reservationId);
+        const credit = await createCredit({
+          moduleId: pass.moduleId,
+          walletAddress: pass.walletAddress,
+          paymentId,
+          value: payment.value,
+          reason: 'Session pass top-up could not be applied',
+        }).catch((creditErr) => {
+          request.log.error(creditErr, 'Failed to record buyer credit');
+          return null;
+        });
+
+        return reply.status(500).send({
+          error: 'Session pass top-up could not be applied',
+          payment: {
+            paymentId,
+            txHash: settleResult.txHash,
+            status: 'settled',
+            note: credit
+              ? 'Payment went through. Your next message to this module will use this credit instead of a new payment.'
+              : 'Payment went through. Please contact support with this payment id for a refund.',
+          },
+          credit: credit
+            ? { id: credit.id, value: credit.value, paymentId: credit.paymentId, status: credit.status }
+            : undefined,
+        });
+      }
+      const { paymentId, sessionPass } = topUp;
+      await releaseSpendingPolicyReservation(policyCheck.reservationId);
+
+      await emitPaymentWebhook(paymentId, request.log);
+      await emitWebhookEvent(
+        {
+          event: 'session_pass.topped_up',
+          moduleId: pass.moduleId,
+          data: {
+            moduleId: pass.moduleId,
+            sessionPassId: pass.id,
+            walletAddress: pass.walletAddress,
+            paymentTxHash: settleResult.txHash,
+            creditsAdded: sessionPolicy.messageCredits,
+            minutesAdded: sessionPolicy.minutes,
+            maxCredits: sessionPass.maxCredits,
+            expiresAt: new Date(sessionPass.expiresAt * 1000).toISOString(),
+          },
+        },
+        request.log
+      );
+
+      reply.header(
+        'X-PAYMENT-RESPONSE',
+        encodePaymentResponseHeader({
+          success: true,
+          transaction: settleResult.txHash,
+          network: requirements.network,
+          payer: verifyResult.payer,
+        })
+      );
+      return reply.send({
+        sessionPass,
+        payment: {
+          paymentId,
+          txHash: settleResult.txHash,
+          isMock: settleResult.isMock,
+        },
+      });
+    }
+  );
+
+  // Revoke one of the signed-in wallet's passes; every token issued for it stops working
+  fastify.post<{ Params: { id: string } }>(
+    '/api/session-passes/:id/revoke',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = SessionPassIdSchema.safeParse(request.params);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const sessionPass = await revokeSessionPass({ passId: parseResult.data.id, walletAddress: user.address });
+      if (!sessionPass) {
+        return reply.status(404).send({ error: 'Session pass not found' });
+      }
+
+      return reply.send({ sessionPass });
+    }
+  );
+}
+
+// A settled top-up payment that could not be applied to its pass
+async function recordSettledTopUp(payment: {
+  moduleId: string;
+  payerWallet: string;
+  payTo: string;
+  value: string;
+  txHash: string;
+  network: string;
+  asset: string;
+  nonce?: string;
+  error: string;
+}): Promise<string> {
+  const pool = getPool();
+  const result = await pool.query(
+    `INSERT INTO payments (module_id, payer_wallet, pay_to, value, tx_hash, network, asset, event, error, nonce)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, 'settled', $8, $9)
+     RETURNING id`,
+    [
+      payment.moduleId,
+      payment.payerWallet,
+      payment.payTo,
+      payment.value,
+      payment.txHash,
+      payment.network,
+      payment.asset.toLowerCase(),
+      payment.error,
+      payment.nonce ? payment.nonce.toLowerCase() : null,
+    ]
+  );
+  const paymentId = result.rows[0].id as string;
+  await emitPaymentWebhook(paymentId);
+  return paymentId;
+}
+
+async function recordFailedTopUp(payment: {
+  moduleId: string;
+  payerWallet: string;
+  payTo: string;
+  value: string;
+  network: string;
+  asset: string;
+  error: string;
+  errorCode: PaymentErrorCode;
+  nonce?: string;
+}): Promise<void> {
+  const pool = getPool();
+  const result = await pool.query(
+    `INSERT INTO payments (module_id, payer_wallet, pay_to, value, network, asset, event, error, error_code, nonce)
+     VALUES ($1, $2, $3, $4, $5, $6, 'failed', $7, $8, $9)
+     RETURNING id`,
+    [
+      payment.moduleId,
+      payment.payerWallet,
+      payment.payTo,
+      payment.value,
+      payment.network,
+      payment.asset.toLowerCase(),
+      payment.error,
+      payment.errorCode,
+      payment.nonce ? payment.nonce.toLowerCase() : null,
+    ]
+  );
+  await emitPaymentWebhook(result.rows[0].id as string);
+}
@@ -0,0 +1,94 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { BuyerSpendingPolicySchema } from '@soulforge/shared';
+import { verifySiweMessage } from '../services/auth.js';
+import {
+  buildSpendingPolicyStatement,
+  getBuyerSpend,
+  getSpendingPolicy,
+  setSpendingPolicy,
+} from '../services/spending-policy.js';
+
+const SetSpendingPolicySchema = BuyerSpendingPolicySchema.extend({
+  message: z.string().min(1),
+  signature: z.string().min(1),
+});
+
+const PolicyParamsSchema = z.object({
+  address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address'),
+});
+
+export async function spendingPolicyRoutes(fastify: FastifyInstance): Promise<void> {
+  // Set (replace) the signer's spending policy. The request is a SIWE message whose statement
+  // spells out the limits (see buildSpendingPolicyStatement), signed with a nonce from /api/auth/nonce.
+  // Omitted or null limits are removed.
+  fastify.put<{ Body: z.infer<typeof SetSpendingPolicySchema> }>(
+    '/api/spending-policy',
+    async (request: FastifyRequest<{ Body: z.infer<typeof SetSpendingPolicySchema> }>, reply: FastifyReply) => {
+      const parseResult = SetSpendingPolicySchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const { message, signature } = parseResult.data;
+      const limits = {
+        maxPerMessage: parseResult.data.maxPerMessage ?? null,
+        dailyLimit: parseResult.data.dailyLimit ?? null,
+        moduleDailyLimit: parseResult.data.moduleDailyLimit ?? null,
+      };
+
+      const result = await verifySiweMessage(message, signature);
+      if (!result.success) {
+        return reply.status(401).send({
+          error: 'Authentication failed',
+          details: result.error,
+        });
+      }
+
+      // The signature must cover these exact limits, not just prove wallet ownership
+      const expectedStatement = buildSpendingPolicyStatement(limits);
+      if (result.statement !== expectedStatement) {
+        return reply.status(400).send({
+          error: 'Signed statement does not match the requested policy',
+          expectedStatement,
+        });
+      }
+
+      const policy = await setSpendingPolicy({
+        walletAddress: result.address!,
+        limits,
+        siweMessage: message,
+        siweSignature: signature,
+      });
+      request.log.info({ walletAddress: policy.walletAddress, limits }, 'Buyer spending policy updated');
+
+      return reply.send({
+        policy,
+        spend: await getBuyerSpend({ walletAddress: policy.walletAddress }),
+      });
+    }
+  );
+
+  // A wallet's policy and today's spend (public, so agents can check their headroom before paying)
+  fastify.get<{ Params: z.infer<typeof PolicyParamsSchema> }>(
+    '/api/spending-policy/:address',
+    async (request: FastifyRequest<{ Params: z.infer<typeof PolicyParamsSchema> }>, reply: FastifyReply) => {
+      const parseResult = PolicyParamsSchema.safeParse(request.params);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const { address } = parseResult.data;
+      return reply.send({
+        policy: await getSpendingPolicy(address),
+        spend: await getBuyerSpend({ walletAddress: address }),
+      });
+    }
+  );
+}
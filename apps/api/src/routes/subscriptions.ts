@@ -0,0 +1,61 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { cancelSubscription, isRenewalDue, listSubscriptions } from '../services/subscriptions.js';
+
+const SubscriptionIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export async function subscriptionRoutes(fastify: FastifyInstance): Promise<void> {
+  // List the signed-in wallet's subscriptions, flagging those due for renewal
+  fastify.get('/api/subscriptions', { preValidation: [fastify.authenticate] }, async (request: FastifyRequest) => {
+    const user = request.user as { sub: string; address: string; role: string };
+    const subscriptions = await listSubscriptions(user.address);
+    return {
+      subscriptions: subscriptions.map((s) => ({ ...s, renewalDue: isRenewalDue(s) })),
+    };
+  });
+
+  // Expiry reminders: active, non-canceled subscriptions ending within SUBSCRIPTION_REMINDER_DAYS
+  fastify.get(
+    '/api/subscriptions/reminders',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest) => {
+      const user = request.user as { sub: string; address: string; role: string };
+      const subscriptions = await listSubscriptions(user.address);
+      return {
+        reminders: subscriptions.filter(isRenewalDue).map((s) => ({
+          subscriptionId: s.id,
+          moduleId: s.moduleId,
+          moduleName: s.moduleName,
+          expiresAt: s.expiresAt,
+          message: `Your subscription to ${s.moduleName} ends on ${s.expiresAt.toISOString()}. Pay again to renew.`,
+        })),
+      };
+    }
+  );
+
+  // Cancel: no renewal reminders, access continues until the paid time ends
+  fastify.post<{ Params: { id: string } }>(
+    '/api/subscriptions/:id/cancel',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = SubscriptionIdSchema.safeParse(request.params);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const subscription = await cancelSubscription({ id: parseResult.data.id, walletAddress: user.address });
+      if (!subscription) {
+        return reply.status(404).send({ error: 'Subscription not found' });
+      }
+
+      return reply.send({ subscription });
+    }
+  );
+}
@@ -0,0 +1,264 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { WebhookEventSchema } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+import {
+  assertPublicWebhookUrl,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  listWebhookDeliveries,
+  listWebhookSubscriptions,
+  pingWebhookSubscription,
+  redeliverWebhook,
+  updateWebhookSubscription,
+  WebhookDestinationError,
+} from '../services/webhooks.js';
+
+// Plain http is only accepted outside production (local receivers, tunnels)
+const WebhookUrlSchema = z
+  .string()
+  .url()
+  .refine(
+    (val) => val.startsWith('https://') || (getConfig().NODE_ENV !== 'production' && val.startsWith('http://')),
+    'Webhook URL must use https'
+  );
+
+const WebhookEventsSchema = z
+  .array(WebhookEventSchema)
+  .min(1)
+  .transform((events) => Array.from(new Set(events)));
+
+const CreateWebhookSchema = z.object({
+  url: WebhookUrlSchema,
+  events: WebhookEventsSchema,
+  // Omit to receive events from every module you sell
+  moduleId: z.string().uuid().optional(),
+});
+
+const UpdateWebhookSchema = z.object({
+  url: WebhookUrlSchema.optional(),
+  events: WebhookEventsSchema.optional(),
+  active: z.boolean().optional(),
+});
+
+const WebhookIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const DeliveriesQuerySchema = z.object({
+  status: z.enum(['queued', 'processing', 'delivered', 'dead']).optional(),
+  limit: z.coerce.number().int().positive().max(500).default(100),
+});
+
+export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
+  // Subscribe a URL to events. The signing secret is only returned here.
+  fastify.post<{ Body: z.infer<typeof CreateWebhookSchema> }>(
+    '/api/seller/webhooks',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Body: z.infer<typeof CreateWebhookSchema> }>, reply: FastifyReply) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const parseResult = CreateWebhookSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+      const body = parseResult.data;
+
+      if (body.moduleId) {
+        const pool = getPool();
+        const owned = await pool.query('SELECT 1 FROM modules WHERE id = $1 AND owner_user_id = $2', [
+          body.moduleId,
+          user.sub,
+        ]);
+        if (owned.rows.length === 0) {
+          return reply.status(403).send({ error: 'Webhooks can only cover modules you own' });
+        }
+      }
+
+      const destinationError = await checkWebhookDestination(body.url);
+      if (destinationError) {
+        return reply.status(400).send({ error: 'Invalid request', details: destinationError });
+      }
+
+      const { subscription, secret } = await createWebhookSubscription({
+        ownerUserId: user.sub,
+        moduleId: body.moduleId ?? null,
+        url: body.url,
+        events: body.events,
+      });
+
+      return reply.status(201).send({ subscription, secret });
+    }
+  );
+
+  // Your webhook subscriptions
+  fastify.get('/api/seller/webhooks', { preValidation: [fastify.authenticate] }, async (request, reply) => {
+    const user = request.user as { sub: string; address: string; role: string };
+    return reply.send({ subscriptions: await listWebhookSubscriptions(user.sub) });
+  });
+
+  // Change a subscription's URL or events, or pause it
+  fastify.patch<{ Params: { id: string }; Body: z.infer<typeof UpdateWebhookSchema> }>(
+    '/api/seller/webhooks/:id',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Body: z.infer<typeof UpdateWebhookSchema> }>,
+      reply: FastifyReply
+    ) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const paramsResult = WebhookIdSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: paramsResult.error.issues,
+        });
+      }
+
+      const parseResult = UpdateWebhookSchema.safeParse(request.body);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const destinationError = parseResult.data.url ? await checkWebhookDestination(parseResult.data.url) : null;
+      if (destinationError) {
+        return reply.status(400).send({ error: 'Invalid request', details: destinationError });
+      }
+
+      const subscription = await updateWebhookSubscription(paramsResult.data.id, user.sub, parseResult.data);
+      if (!subscription) {
+        return reply.status(404).send({ error: 'Webhook not found' });
+      }
+
+      return reply.send({ subscription });
+    }
+  );
+
+  // Remove a subscription and its delivery log
+  fastify.delete<{ Params: { id: string } }>(
+    '/api/seller/webhooks/:id',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const paramsResult = WebhookIdSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: paramsResult.error.issues,
+        });
+      }
+
+      if (!(await deleteWebhookSubscription(paramsResult.data.id, user.sub))) {
+        return reply.status(404).send({ error: 'Webhook not found' });
+      }
+
+      return reply.status(204).send();
+    }
+  );
+
+  // Send a signed webhook.ping now and return the delivery attempt
+  fastify.post<{ Params: { id: string } }>(
+    '/api/seller/webhooks/:id/test',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const paramsResult = WebhookIdSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: paramsResult.error.issues,
+        });
+      }
+
+      const delivery = await pingWebhookSubscription(paramsResult.data.id, user.sub);
+      if (!delivery) {
+        return reply.status(404).send({ error: 'Webhook not found' });
+      }
+
+      return reply.send({ delivery });
+    }
+  );
+
+  // Delivery log for a subscription (?status=dead for the ones that gave up)
+  fastify.get<{ Params: { id: string }; Querystring: z.infer<typeof DeliveriesQuerySchema> }>(
+    '/api/seller/webhooks/:id/deliveries',
+    { preValidation: [fastify.authenticate] },
+    async (
+      request: FastifyRequest<{ Params: { id: string }; Querystring: z.infer<typeof DeliveriesQuerySchema> }>,
+      reply: FastifyReply
+    ) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const paramsResult = WebhookIdSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: paramsResult.error.issues,
+        });
+      }
+
+      const parseResult = DeliveriesQuerySchema.safeParse(request.query);
+      if (!parseResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid query parameters',
+          details: parseResult.error.issues,
+        });
+      }
+
+      const deliveries = await listWebhookDeliveries({
+        subscriptionId: paramsResult.data.id,
+        ownerUserId: user.sub,
+        ...parseResult.data,
+      });
+      if (!deliveries) {
+        return reply.status(404).send({ error: 'Webhook not found' });
+      }
+
+      return reply.send({ deliveries });
+    }
+  );
+
+  // Send a logged delivery again (same id and payload, fresh retries)
+  fastify.post<{ Params: { id: string } }>(
+    '/api/seller/webhooks/deliveries/:id/redeliver',
+    { preValidation: [fastify.authenticate] },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      const user = request.user as { sub: string; address: string; role: string };
+
+      const paramsResult = WebhookIdSchema.safeParse(request.params);
+      if (!paramsResult.success) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          details: paramsResult.error.issues,
+        });
+      }
+
+      const delivery = await redeliverWebhook(paramsResult.data.id, user.sub);
+      if (!delivery) {
+        return reply.status(404).send({ error: 'Delivery not found' });
+      }
+
+      return reply.send({ delivery });
+    }
+  );
+}
+
+// Reason the URL may not be used as a webhook destination, or null if it resolves only to public addresses
+async function checkWebhookDestination(url: string): Promise<string | null> {
+  try {
+    await assertPublicWebhookUrl(url);
+    return null;
+  } catch (err) {
+    if (err instanceof WebhookDestinationError) return err.message;
+    throw err;
+  }
+}
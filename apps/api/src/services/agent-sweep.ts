@@ -0,0 +1,221 @@
+import type { AgentWalletSweep, AgentWalletSweepStatus } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+import { buildAgentSweepHeader, getAgentWallet } from './agent-wallet.js';
+import { getTokenBalance } from './onchain.js';
+import { buildPaymentRequirements, settlePayment } from './x402.js';
+
+// A sweep still 'submitted' after this is assumed abandoned (process died before recording the outcome)
+const STALE_SWEEP_INTERVAL = '10 minutes';
+
+const SWEEP_COLUMNS = `id, module_id, requested_by, wallet_address, to_address, network, asset, amount,
+                      balance_before, status, tx_hash, error, created_at, completed_at`;
+
+/**
+ * Raised when a sweep cannot be attempted; carries the HTTP status to answer with
+ */
+export class AgentWalletSweepError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'AgentWalletSweepError';
+  }
+}
+
+export interface SweepOutcome {
+  sweep: AgentWalletSweep;
+  // Estimated for dry runs, otherwise what the wallet holds if the transfer lands (unchanged for mock sweeps)
+  remainingBalance: string;
+  mock: boolean;
+}
+
+function mapSweepRow(row: Record<string, unknown>): AgentWalletSweep {
+  return {
+    id: row.id as string,
+    moduleId: (row.module_id as string | null) ?? null,
+    requestedBy: (row.requested_by as string | null) ?? null,
+    walletAddress: row.wallet_address as string,
+    toAddress: row.to_address as string,
+    network: row.network as string,
+    asset: row.asset as string,
+    amount: row.amount as string,
+    balanceBefore: row.balance_before as string,
+    status: row.status as AgentWalletSweepStatus,
+    txHash: (row.tx_hash as string | null) ?? null,
+    error: (row.error as string | null) ?? null,
+    createdAt: row.created_at as Date,
+    completedAt: (row.completed_at as Date | null) ?? null,
+  };
+}
+
+async function finishSweep(
+  id: string,
+  status: AgentWalletSweepStatus,
+  result: { txHash?: string; error?: string }
+): Promise<AgentWalletSweep> {
+  const pool = getPool();
+  const updated = await pool.query(
+    `UPDATE agent_wallet_sweeps SET status = $2, tx_hash = $3, error = $4, completed_at = NOW()
+     WHERE id = $1
+     RETURNING ${SWEEP_COLUMNS}`,
+    [id, status, result.txHash ?? null, result.error ?? null]
+  );
+  return mapSweepRow(updated.rows[0]);
+}
+
+/**
+ * Transfer `amount` (default: the whole balance) of the payment asset from a module's agent wallet to `to`.
+ * The wallet signs an EIP-3009 authorization and the facilitator settles it like an x402 payment to `to`,
+ * so the wallet needs no gas. There is no direct ERC-20 transfer path: the asset must support EIP-3009 and
+ * the facilitator must settle to `to`, otherwise the sweep fails and the funds stay put.
+ * A dry run reads the balance and records the would-be sweep without signing anything.
+ * Under X402_MOCK_MODE nothing is broadcast and the sweep is recorded as 'mock', without a tx hash.
+ */
+export async function sweepAgentWallet(params: {
+  moduleId: string;
+  requestedBy: string;
+  to: string;
+  amount?: string;
+  dryRun?: boolean;
+}): Promise<SweepOutcome> {
+  const config = getConfig();
+  if (!config.X402_ASSET_CONTRACT) {
+    throw new AgentWalletSweepError('X402_ASSET_CONTRACT not configured', 503);
+  }
+
+  const wallet = await getAgentWallet(params.moduleId);
+  if (!wallet) {
+    throw new AgentWalletSweepError('Agent wallet not found', 404);
+  }
+
+  // Agent wallets only ever hold the platform's default asset (that is what upstream calls pay in)
+  const requirements = buildPaymentRequirements(
+    params.to,
+    '0',
+    `Agent wallet sweep for module ${params.moduleId}`
+  );
+
+  let balance: string;
+  try {
+    balance = await getTokenBalance({
+      network: requirements.network,
+      assetContract: requirements.asset,
+      address: wallet.walletAddress,
+    });
+  } catch (err) {
+    throw new AgentWalletSweepError(
+      'Failed to read on-chain balance',
+      502,
+      err instanceof Error ? err.message : String(err)
+    );
+  }
+
+  const amount = params.amount ?? balance;
+  if (BigInt(amount) <= 0n) {
+    throw new AgentWalletSweepError('Agent wallet has no balance to sweep', 400, { balance });
+  }
+  if (BigInt(amount) > BigInt(balance)) {
+    throw new AgentWalletSweepError('Amount exceeds agent wallet balance', 400, { balance, amount });
+  }
+  requirements.maxAmountRequired = amount;
+
+  const pool = getPool();
+
+  // Release sweeps orphaned by a crash; their authorization has long expired
+  await pool.query(
+    `UPDATE agent_wallet_sweeps
+     SET status = 'failed', error = 'Abandoned before the facilitator responded; check the chain', completed_at = NOW()
+     WHERE module_id = $1 AND status = 'submitted' AND created_at < NOW() - INTERVAL '${STALE_SWEEP_INTERVAL}'`,
+    [params.moduleId]
+  );
+
+  let inserted;
+  try {
+    inserted = await pool.query(
+      `INSERT INTO agent_wallet_sweeps (module_id, requested_by, wallet_address, to_address, network, asset, amount,
+                                        balance_before, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING ${SWEEP_COLUMNS}`,
+      [
+        params.moduleId,
+        params.requestedBy,
+        wallet.walletAddress,
+        requirements.payTo,
+        requirements.network,
+        requirements.asset,
+        amount,
+        balance,
+        params.dryRun ? 'dry_run' : 'submitted',
+      ]
+    );
+  } catch (err) {
+    // One sweep per wallet at a time (partial unique index on 'submitted')
+    if (err && typeof err === 'object' && 'code' in err && (err as { code?: string }).code === '23505') {
+      throw new AgentWalletSweepError('Another sweep of this agent wallet is in progress', 409);
+    }
+    throw err;
+  }
+
+  const remainingBalance = (BigInt(balance) - BigInt(amount)).toString();
+  const sweep = mapSweepRow(inserted.rows[0]);
+  if (params.dryRun) {
+    return { sweep, remainingBalance, mock: config.X402_MOCK_MODE };
+  }
+
+  let paymentHeader: string;
+  try {
+    paymentHeader = await buildAgentSweepHeader({
+      moduleId: params.moduleId,
+      payTo: requirements.payTo,
+      value: amount,
+      network: requirements.network,
+      asset: requirements.asset,
+      extra: requirements.extra,
+    });
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return {
+      sweep: await finishSweep(sweep.id, 'failed', { error: `sign: ${error}` }),
+      remainingBalance: balance,
+      mock: config.X402_MOCK_MODE,
+    };
+  }
+
+  const settleResult = await settlePayment(paymentHeader, requirements);
+  if (!settleResult.success) {
+    return {
+      sweep: await finishSweep(sweep.id, 'failed', { error: `settle: ${settleResult.error}` }),
+      remainingBalance: balance,
+      mock: config.X402_MOCK_MODE,
+    };
+  }
+
+  if (settleResult.isMock) {
+    return {
+      sweep: await finishSweep(sweep.id, 'mock', {}),
+      remainingBalance: balance,
+      mock: true,
+    };
+  }
+
+  return {
+    sweep: await finishSweep(sweep.id, 'succeeded', { txHash: settleResult.txHash }),
+    remainingBalance,
+    mock: false,
+  };
+}
+
+/**
+ * Sweep audit log for a module, newest first
+ */
+export async function listAgentWalletSweeps(moduleId: string, limit: number): Promise<AgentWalletSweep[]> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT ${SWEEP_COLUMNS} FROM agent_wallet_sweeps WHERE module_id = $1 ORDER BY created_at DESC LIMIT $2`,
+    [moduleId, limit]
+  );
+  return result.rows.map(mapSweepRow);
+}
@@ -1,86 +1,65 @@
-import { randomBytes, createCipheriv, createDecipheriv } from 'crypto';
-import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
-import { signTypedData } from 'viem/accounts';
+import { randomBytes } from 'crypto';
 import { getPool } from '../lib/db.js';
 import { getConfig } from '../config.js';
+import { getChainId } from './chains.js';
+import { getKeyProvider, type TypedDataToSign } from './key-custody.js';
+import {
+  X402_EIP712_TYPES,
+  getX402EIP712Domain,
+  type AgentWalletBudget,
+  type PaymentRequirements,
+  type PaymentScheme,
+} from '@soulforge/shared';
 
-const ALGORITHM = 'aes-256-gcm';
-const IV_LENGTH = 12; // 96 bits for GCM
-const AUTH_TAG_LENGTH = 16; // 128 bits
-
-/**
- * Get the encryption key from config, with validation
- */
-function getEncryptionKey(): Buffer {
-  const config = getConfig();
-  const keyStr = config.AGENT_WALLET_ENCRYPTION_KEY;
-
-  if (!keyStr) {
-    throw new Error('AGENT_WALLET_ENCRYPTION_KEY not configured');
-  }
-
-  // Key should be 32 bytes (256 bits) for AES-256
-  // Accept base64 encoded key
-  const key = Buffer.from(keyStr, 'base64');
-  if (key.length !== 32) {
-    throw new Error(
-      `AGENT_WALLET_ENCRYPTION_KEY must be 32 bytes (got ${key.length}). ` +
-        'Generate with: openssl rand -base64 32'
-    );
-  }
-
-  return key;
+export interface AgentWallet {
+  id: string;
+  moduleId: string;
+  walletAddress: string;
+  keyVersion: number;
+  keyProvider: string;
+  encryptionKeyVersion: number | null;
+  budget: AgentWalletBudget;
+  createdAt: Date;
 }
 
-/**
- * Encrypt a private key using AES-256-GCM
- * Returns base64 encoded string: iv + authTag + ciphertext
- */
-export function encryptPrivateKey(privateKey: string): string {
-  const key = getEncryptionKey();
-  const iv = randomBytes(IV_LENGTH);
-
-  const cipher = createCipheriv(ALGORITHM, key, iv);
-  const encrypted = Buffer.concat([
-    cipher.update(privateKey, 'utf8'),
-    cipher.final(),
-  ]);
-  const authTag = cipher.getAuthTag();
-
-  // Concatenate: iv (12 bytes) + authTag (16 bytes) + ciphertext
-  const result = Buffer.concat([iv, authTag, encrypted]);
-  return result.toString('base64');
-}
+export type AgentWalletLimit = 'per_call_max' | 'daily_limit' | 'monthly_limit';
 
 /**
- * Decrypt a private key from encrypted format
+ * Raised when signing an upstream payment would exceed the wallet's budget
  */
-export function decryptPrivateKey(encryptedData: string): string {
-  const key = getEncryptionKey();
-  const data = Buffer.from(encryptedData, 'base64');
-
-  // Extract components
-  const iv = data.subarray(0, IV_LENGTH);
-  const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
-  const ciphertext = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
-
-  const decipher = createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(authTag);
+export class AgentWalletBudgetError extends Error {
+  constructor(
+    public limit: AgentWalletLimit,
+    public limitAmount: string,
+    public attemptedTotal: string
+  ) {
+    super(`Agent wallet ${limit.replace(/_/g, ' ')} of ${limitAmount} would be exceeded (${attemptedTotal})`);
+    this.name = 'AgentWalletBudgetError';
+  }
+}
 
-  const decrypted = Buffer.concat([
-    decipher.update(ciphertext),
-    decipher.final(),
-  ]);
+// How long a signed authorization stays valid
+const AUTHORIZATION_TTL_SECONDS = 300;
 
-  return decrypted.toString('utf8');
-}
+const WALLET_COLUMNS = `id, module_id, wallet_address, key_version, key_provider, encryption_key_version,
+                       daily_limit, monthly_limit, per_call_max, low_balance_threshold, created_at`;
 
-export interface AgentWallet {
-  id: string;
-  moduleId: string;
-  walletAddress: string;
-  keyVersion: number;
-  createdAt: Date;
+function mapWalletRow(row: Record<string, unknown>): AgentWallet {
+  return {
+    id: row.id as string,
+    moduleId: row.module_id as string,
+    walletAddress: row.wallet_address as string,
+    keyVersion: row.key_version as number,
+    keyProvider: row.key_provider as string,
+    encryptionKeyVersion: (row.encryption_key_version as number | null) ?? null,
+    budget: {
+      dailyLimit: (row.daily_limit as string | null) ?? null,
+      monthlyLimit: (row.monthly_limit as string | null) ?? null,
+      perCallMax: (row.per_call_max as string | null) ?? null,
+      lowBalanceThreshold: (row.low_balance_threshold as string | null) ?? null,
+    },
+    createdAt: row.created_at as Date,
+  };
 }
 
 /**
@@ -90,34 +69,26 @@ export interface AgentWallet {
 export async function createAgentWallet(moduleId: string): Promise<AgentWallet> {
   const pool = getPool();
 
-  // Generate new private key and derive address
-  const privateKey = generatePrivateKey();
-  const account = privateKeyToAccount(privateKey);
-  const walletAddress = account.address;
-
-  // Encrypt the private key
-  const encryptedKey = encryptPrivateKey(privateKey);
+  // Generate the key with the configured custody provider
+  const provider = getKeyProvider();
+  const key = await provider.createKey();
 
   // Store in database
   const result = await pool.query(
-    `INSERT INTO agent_wallets (module_id, wallet_address, encrypted_private_key, key_version)
-     VALUES ($1, $2, $3, 1)
+    `INSERT INTO agent_wallets (module_id, wallet_address, encrypted_private_key, key_version, key_provider,
+                                encryption_key_version)
+     VALUES ($1, $2, $3, 1, $4, $5)
      ON CONFLICT (module_id) DO UPDATE SET
        wallet_address = EXCLUDED.wallet_address,
        encrypted_private_key = EXCLUDED.encrypted_private_key,
-       key_version = agent_wallets.key_version + 1
-     RETURNING id, module_id, wallet_address, key_version, created_at`,
-    [moduleId, walletAddress, encryptedKey]
+       key_version = agent_wallets.key_version + 1,
+       key_provider = EXCLUDED.key_provider,
+       encryption_key_version = EXCLUDED.encryption_key_version
+     RETURNING ${WALLET_COLUMNS}`,
+    [moduleId, key.walletAddress, key.keyMaterial, provider.id, key.encryptionKeyVersion]
   );
 
-  const row = result.rows[0];
-  return {
-    id: row.id,
-    moduleId: row.module_id,
-    walletAddress: row.wallet_address,
-    keyVersion: row.key_version,
-    createdAt: row.created_at,
-  };
+  return mapWalletRow(result.rows[0]);
 }
 
 /**
@@ -126,23 +97,144 @@ export async function createAgentWallet(moduleId: string): Promise<AgentWallet>
 export async function getAgentWallet(moduleId: string): Promise<AgentWallet | null> {
   const pool = getPool();
 
-  const result = await pool.query(
-    `SELECT id, module_id, wallet_address, key_version, created_at
-     FROM agent_wallets WHERE module_id = $1`,
-    [moduleId]
-  );
+  const result = await pool.query(`SELECT ${WALLET_COLUMNS} FROM agent_wallets WHERE module_id = $1`, [moduleId]);
 
   if (result.rows.length === 0) {
     return null;
   }
 
-  const row = result.rows[0];
+  return mapWalletRow(result.rows[0]);
+}
+
+/**
+ * Set the wallet's spending limits; fields left undefined keep their current value, null clears them
+ */
+export async function updateAgentWalletBudget(
+  moduleId: string,
+  budget: Partial<AgentWalletBudget>
+): Promise<AgentWallet | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE agent_wallets SET
+       daily_limit = CASE WHEN $2::boolean THEN $3 ELSE daily_limit END,
+       monthly_limit = CASE WHEN $4::boolean THEN $5 ELSE monthly_limit END,
+       per_call_max = CASE WHEN $6::boolean THEN $7 ELSE per_call_max END,
+       low_balance_threshold = CASE WHEN $8::boolean THEN $9 ELSE low_balance_threshold END
+     WHERE module_id = $1
+     RETURNING ${WALLET_COLUMNS}`,
+    [
+      moduleId,
+      budget.dailyLimit !== undefined,
+      budget.dailyLimit ?? null,
+      budget.monthlyLimit !== undefined,
+      budget.monthlyLimit ?? null,
+      budget.perCallMax !== undefined,
+      budget.perCallMax ?? null,
+      budget.lowBalanceThreshold !== undefined,
+      budget.lowBalanceThreshold ?? null,
+    ]
+  );
+  return result.rows.length > 0 ? mapWalletRow(result.rows[0]) : null;
+}
+
+/**
+ * Upstream spend (settled or pending payments made by the wallet) in the current UTC day and month
+ */
+export async function getAgentWalletSpend(walletAddress: string): Promise<{ today: string; thisMonth: string }> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT
+       COALESCE(SUM(value::numeric) FILTER (
+         WHERE created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'), 0)::text AS today,
+       COALESCE(SUM(value::numeric), 0)::text AS this_month
+     FROM payments
+     WHERE LOWER(payer_wallet) = LOWER($1)
+       AND event IN ('settled', 'pending')
+       AND created_at >= date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'`,
+    [walletAddress]
+  );
+  return { today: result.rows[0].today as string, thisMonth: result.rows[0].this_month as string };
+}
+
+/**
+ * Reserve `value` against the per-call, daily and monthly limits, or throw AgentWalletBudgetError.
+ * Taken under a per-wallet lock, so concurrent calls cannot both fit into the same remaining budget.
+ * The reservation counts as spend until it is released, its payment is recorded or the authorization
+ * expires. Returns null when the wallet has no daily or monthly limit to reserve against.
+ */
+async function reserveWithinBudget(
+  wallet: AgentWallet,
+  value: string,
+  authorization: { nonce: string; validBefore: number }
+): Promise<string | null> {
+  const { dailyLimit, monthlyLimit, perCallMax } = wallet.budget;
+  const amount = BigInt(value);
+
+  if (perCallMax && amount > BigInt(perCallMax)) {
+    throw new AgentWalletBudgetError('per_call_max', perCallMax, value);
+  }
+  if (!dailyLimit && !monthlyLimit) return null;
+
+  const walletAddress = wallet.walletAddress.toLowerCase();
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`agent_wallet:${walletAddress}`]);
+    await client.query('DELETE FROM agent_wallet_reservations WHERE wallet_address = $1 AND expires_at <= NOW()', [
+      walletAddress,
+    ]);
+
+    const spend = await getAgentWalletSpend(walletAddress);
+    // Reservations whose payment is already recorded are counted by the spend above
+    const reservedResult = await client.query(
+      `SELECT COALESCE(SUM(r.value::numeric), 0)::text AS reserved
+       FROM agent_wallet_reservations r
+       WHERE r.wallet_address = $1
+         AND NOT EXISTS (SELECT 1 FROM payments p WHERE p.nonce = r.nonce)`,
+      [walletAddress]
+    );
+    const reserved = BigInt(reservedResult.rows[0].reserved as string);
+
+    const dailyTotal = BigInt(spend.today) + reserved + amount;
+    if (dailyLimit && dailyTotal > BigInt(dailyLimit)) {
+      throw new AgentWalletBudgetError('daily_limit', dailyLimit, dailyTotal.toString());
+    }
+    const monthlyTotal = BigInt(spend.thisMonth) + reserved + amount;
+    if (monthlyLimit && monthlyTotal > BigInt(monthlyLimit)) {
+      throw new AgentWalletBudgetError('monthly_limit', monthlyLimit, monthlyTotal.toString());
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO agent_wallet_reservations (wallet_address, value, nonce, expires_at)
+       VALUES ($1, $2, $3, to_timestamp($4))
+       RETURNING id`,
+      [walletAddress, value, authorization.nonce.toLowerCase(), authorization.validBefore]
+    );
+    await client.query('COMMIT');
+    return inserted.rows[0].id as string;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Drop a budget reservation once its upstream call has finished (its payment, if any, is recorded by then)
+ */
+export async function releaseAgentWalletReservation(reservationId: string | null): Promise<void> {
+  if (!reservationId) return;
+  const pool = getPool();
+  await pool.query('DELETE FROM agent_wallet_reservations WHERE id = $1', [reservationId]);
+}
+
+// Nonce and expiry for a new EIP-3009 authorization
+function newAuthorization(): { nonce: `0x${string}`; validBefore: number } {
   return {
-    id: row.id,
-    moduleId: row.module_id,
-    walletAddress: row.wallet_address,
-    keyVersion: row.key_version,
-    createdAt: row.created_at,
+    nonce: `0x${randomBytes(32).toString('hex')}` as `0x${string}`,
+    validBefore: Math.floor(Date.now() / 1000) + AUTHORIZATION_TTL_SECONDS,
   };
 }
 
@@ -152,23 +244,13 @@ export async function getAgentWallet(moduleId: string): Promise<AgentWallet | nu
  */
 export async function signWithAgentWallet(
   moduleId: string,
-  typedData: {
-    domain: {
-      name: string;
-      version: string;
-      chainId: number;
-      verifyingContract?: `0x${string}`;
-    };
-    types: Record<string, Array<{ name: string; type: string }>>;
-    primaryType: string;
-    message: Record<string, unknown>;
-  }
+  typedData: TypedDataToSign
 ): Promise<{ signature: `0x${string}`; walletAddress: `0x${string}` }> {
   const pool = getPool();
 
-  // Fetch encrypted private key
+  // Fetch the stored key (ciphertext or external key reference)
   const result = await pool.query(
-    `SELECT wallet_address, encrypted_private_key
+    `SELECT wallet_address, encrypted_private_key, key_provider, encryption_key_version
      FROM agent_wallets WHERE module_id = $1`,
     [moduleId]
   );
@@ -177,20 +259,18 @@ export async function signWithAgentWallet(
     throw new Error(`No agent wallet found for module ${moduleId}`);
   }
 
-  const { wallet_address, encrypted_private_key } = result.rows[0];
-
-  // Decrypt private key
-  const privateKey = decryptPrivateKey(encrypted_private_key) as `0x${string}`;
-  const account = privateKeyToAccount(privateKey);
+  const { wallet_address, encrypted_private_key, key_provider, encryption_key_version } = result.rows[0];
 
-  // Sign the typed data
-  const signature = await signTypedData({
-    privateKey,
-    domain: typedData.domain,
-    types: typedData.types,
-    primaryType: typedData.primaryType,
-    message: typedData.message,
-  });
+  // Sign with whichever provider holds the key
+  const signature = await getKeyProvider(key_provider).signTypedData(
+    {
+      walletAddress: wallet_address,
+      keyProvider: key_provider,
+      keyMaterial: encrypted_private_key,
+      encryptionKeyVersion: encryption_key_version,
+    },
+    typedData
+  );
 
   return {
     signature,
@@ -199,7 +279,8 @@ export async function signWithAgentWallet(
 }
 
 /**
- * Build x402 payment header for agent wallet
+ * Build x402 payment header for agent wallet.
+ * The caller releases `reservationId` with releaseAgentWalletReservation once the upstream call is done.
  */
 export async function buildAgentPaymentHeader(params: {
   moduleId: string;
@@ -207,37 +288,78 @@ export async function buildAgentPaymentHeader(params: {
   value: string;
   network: string;
   asset: string;
-}): Promise<string> {
-  const { moduleId, payTo, value } = params;
-  const config = getConfig();
-
+  scheme?: PaymentScheme;
+  extra?: PaymentRequirements['extra'];
+}): Promise<{ paymentHeader: string; reservationId: string | null }> {
   // Get agent wallet
-  const wallet = await getAgentWallet(moduleId);
+  const wallet = await getAgentWallet(params.moduleId);
   if (!wallet) {
-    throw new Error(`No agent wallet found for module ${moduleId}`);
+    throw new Error(`No agent wallet found for module ${params.moduleId}`);
+  }
+
+  // Enforce the seller's spending limits before signing anything
+  const authorization = newAuthorization();
+  const reservationId = await reserveWithinBudget(wallet, params.value, authorization);
+
+  try {
+    const paymentHeader = await signTransferAuthorization(wallet, params, authorization);
+    return { paymentHeader, reservationId };
+  } catch (err) {
+    await releaseAgentWalletReservation(reservationId);
+    throw err;
+  }
+}
+
+/**
+ * Build an x402 payment header moving `value` from the agent wallet to `payTo`, outside the
+ * upstream budget. Used to sweep funds back to the seller; relayed by the facilitator like any payment.
+ */
+export async function buildAgentSweepHeader(params: {
+  moduleId: string;
+  payTo: string;
+  value: string;
+  network: string;
+  asset: string;
+  extra?: PaymentRequirements['extra'];
+}): Promise<string> {
+  const wallet = await getAgentWallet(params.moduleId);
+  if (!wallet) {
+    throw new Error(`No agent wallet found for module ${params.moduleId}`);
   }
 
-  const chainId = config.X402_CHAIN_ID ?? 338; // cronos-testnet default
+  return signTransferAuthorization(wallet, params);
+}
+
+// Sign an EIP-3009 TransferWithAuthorization from the agent wallet and encode it as an x402 payment header
+async function signTransferAuthorization(
+  wallet: AgentWallet,
+  params: {
+    moduleId: string;
+    payTo: string;
+    value: string;
+    network: string;
+    asset: string;
+    scheme?: PaymentScheme;
+    extra?: PaymentRequirements['extra'];
+  },
+  authorization: { nonce: `0x${string}`; validBefore: number } = newAuthorization()
+): Promise<string> {
+  const { moduleId, payTo, value } = params;
+  const { nonce, validBefore } = authorization;
+  const config = getConfig();
+
+  const chainId = params.extra?.chainId ?? getChainId(params.network) ?? config.X402_CHAIN_ID;
   const validAfter = 0;
-  const validBefore = Math.floor(Date.now() / 1000) + 300; // 5 minutes
-  const nonce = `0x${randomBytes(32).toString('hex')}` as `0x${string}`;
 
-  const domain = {
-    name: config.X402_EIP712_NAME,
-    version: config.X402_EIP712_VERSION,
+  const domain = getX402EIP712Domain({
+    eip712Name: params.extra?.name ?? config.X402_EIP712_NAME,
+    eip712Version: params.extra?.version ?? config.X402_EIP712_VERSION,
     chainId,
     verifyingContract: params.asset as `0x${string}`,
-  };
+  });
 
   const types = {
-    TransferWithAuthorization: [
-      { name: 'from', type: 'address' },
-      { name: 'to', type: 'address' },
-      { name: 'value', type: 'uint256' },
-      { name: 'validAfter', type: 'uint256' },
-      { name: 'validBefore', type: 'uint256' },
-      { name: 'nonce', type: 'bytes32' },
-    ],
+    TransferWithAuthorization: [...X402_EIP712_TYPES.TransferWithAuthorization],
   };
 
   const message = {
@@ -258,7 +380,7 @@ export async function buildAgentPaymentHeader(params: {
 
   const paymentPayload = {
     x402Version: 1,
-    scheme: 'exact',
+    scheme: params.scheme ?? 'exact',
     network: params.network,
     payload: {
       from: wallet.walletAddress,
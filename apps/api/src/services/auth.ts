@@ -25,6 +25,8 @@ export async function verifyNonce(address: string, nonce: string): Promise<boole
 interface VerifySiweResult {
   success: boolean;
   address?: string;
+  // What the wallet agreed to, for requests that sign more than a login
+  statement?: string;
   error?: string;
 }
 
@@ -48,7 +50,7 @@ export async function verifySiweMessage(
       return { success: false, error: 'Invalid or expired nonce' };
     }
 
-    return { success: true, address };
+    return { success: true, address, statement: siweMessage.statement };
   } catch (err) {
     const errorMsg = err instanceof Error ? err.message : 'Unknown error';
     return { success: false, error: `SIWE verification failed: ${errorMsg}` };
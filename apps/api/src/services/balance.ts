@@ -0,0 +1,297 @@
+import type pg from 'pg';
+import type { BalanceEntryType, BalanceLedgerEntry } from '@soulforge/shared';
+import { getPool } from '../lib/db.js';
+import { normalizeNetworkName } from './chains.js';
+
+export interface BalanceKey {
+  walletAddress: string;
+  network: string;
+  asset: string;
+}
+
+// A debit drawn from one or more deposit lots (oldest first)
+export interface BalanceDebit extends BalanceKey {
+  amount: string;
+  entries: Array<{ id: string; paymentId: string; amount: string }>;
+  balanceAfter: string;
+}
+
+function normalizeKey(key: BalanceKey): BalanceKey {
+  return {
+    walletAddress: key.walletAddress.trim().toLowerCase(),
+    network: normalizeNetworkName(key.network) ?? key.network.trim(),
+    asset: key.asset.trim().toLowerCase(),
+  };
+}
+
+function mapLedgerRow(row: Record<string, unknown>): BalanceLedgerEntry {
+  return {
+    id: String(row.id),
+    walletAddress: row.wallet_address as string,
+    network: row.network as string,
+    asset: row.asset as string,
+    entryType: row.entry_type as BalanceEntryType,
+    amount: row.amount as string,
+    paymentId: row.payment_id as string,
+    moduleId: (row.module_id as string | null) ?? null,
+    payTo: (row.pay_to as string | null) ?? null,
+    chatId: (row.chat_id as string | null) ?? null,
+    reversesEntryId: row.reverses_entry_id ? String(row.reverses_entry_id) : null,
+    memo: (row.memo as string | null) ?? null,
+    createdAt: row.created_at as Date,
+  };
+}
+
+// Serialize balance changes per wallet/asset so lot selection and inserts are atomic
+async function lockBalance(client: pg.PoolClient, key: BalanceKey): Promise<void> {
+  await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+    `balance:${key.network}:${key.asset}:${key.walletAddress}`,
+  ]);
+}
+
+// Remaining amount per deposit lot, oldest deposit first
+async function getOpenLots(
+  client: pg.PoolClient | pg.Pool,
+  key: BalanceKey
+): Promise<Array<{ paymentId: string; remaining: bigint }>> {
+  const result = await client.query(
+    `SELECT payment_id,
+            SUM(CASE WHEN entry_type = 'debit' THEN -amount::numeric ELSE amount::numeric END)::text AS remaining
+     FROM buyer_balance_ledger
+     WHERE wallet_address = $1 AND network = $2 AND asset = $3
+     GROUP BY payment_id
+     HAVING SUM(CASE WHEN entry_type = 'debit' THEN -amount::numeric ELSE amount::numeric END) > 0
+     ORDER BY MIN(id) ASC`,
+    [key.walletAddress, key.network, key.asset]
+  );
+  return result.rows.map((row) => ({ paymentId: row.payment_id as string, remaining: BigInt(row.remaining) }));
+}
+
+/**
+ * Current balance for one wallet/network/asset
+ */
+export async function getBalance(key: BalanceKey): Promise<string> {
+  const lots = await getOpenLots(getPool(), normalizeKey(key));
+  return lots.reduce((sum, lot) => sum + lot.remaining, 0n).toString();
+}
+
+/**
+ * All non-zero balances for a wallet
+ */
+export async function getBalances(
+  walletAddress: string
+): Promise<Array<{ network: string; asset: string; balance: string }>> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT network, asset,
+            SUM(CASE WHEN entry_type = 'debit' THEN -amount::numeric ELSE amount::numeric END)::text AS balance
+     FROM buyer_balance_ledger
+     WHERE wallet_address = $1
+     GROUP BY network, asset
+     ORDER BY network, asset`,
+    [walletAddress.trim().toLowerCase()]
+  );
+  return result.rows
+    .filter((row) => BigInt(row.balance) > 0n)
+    .map((row) => ({ network: row.network as string, asset: row.asset as string, balance: row.balance as string }));
+}
+
+/**
+ * Record a settled top-up: inserts the payments row and the matching deposit entry together.
+ */
+export async function createDeposit(params: BalanceKey & {
+  payTo: string;
+  amount: string;
+  txHash: string;
+  nonce?: string;
+}): Promise<{ paymentId: string; entry: BalanceLedgerEntry; balance: string }> {
+  const key = normalizeKey(params);
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await lockBalance(client, key);
+
+    const paymentResult = await client.query(
+      `INSERT INTO payments (module_id, payer_wallet, pay_to, value, tx_hash, network, event, nonce, asset)
+       VALUES (NULL, $1, $2, $3, $4, $5, 'settled', $6, $7)
+       RETURNING id`,
+      [
+        key.walletAddress,
+        params.payTo,
+        params.amount,
+        params.txHash,
+        key.network,
+        params.nonce ? params.nonce.toLowerCase() : null,
+        key.asset,
+      ]
+    );
+    const paymentId = paymentResult.rows[0].id as string;
+
+    const entryResult = await client.query(
+      `INSERT INTO buyer_balance_ledger (wallet_address, network, asset, entry_type, amount, payment_id, memo)
+       VALUES ($1, $2, $3, 'deposit', $4, $5, 'x402 top-up')
+       RETURNING *`,
+      [key.walletAddress, key.network, key.asset, params.amount, paymentId]
+    );
+
+    const lots = await getOpenLots(client, key);
+    await client.query('COMMIT');
+
+    return {
+      paymentId,
+      entry: mapLedgerRow(entryResult.rows[0]),
+      balance: lots.reduce((sum, lot) => sum + lot.remaining, 0n).toString(),
+    };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Debit a chat turn from the prepaid balance, drawing on the oldest deposits first.
+ * Returns null (and writes nothing) if the balance is insufficient.
+ */
+export async function debitBalance(params: BalanceKey & {
+  amount: string;
+  moduleId: string;
+  payTo: string;
+  memo?: string;
+}): Promise<BalanceDebit | null> {
+  const key = normalizeKey(params);
+  const amount = BigInt(params.amount);
+  if (amount <= 0n) throw new Error('Debit amount must be positive');
+
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await lockBalance(client, key);
+
+    const lots = await getOpenLots(client, key);
+    const available = lots.reduce((sum, lot) => sum + lot.remaining, 0n);
+    if (available < amount) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const entries: BalanceDebit['entries'] = [];
+    let outstanding = amount;
+    for (const lot of lots) {
+      if (outstanding === 0n) break;
+      const take = lot.remaining < outstanding ? lot.remaining : outstanding;
+      const result = await client.query(
+        `INSERT INTO buyer_balance_ledger
+           (wallet_address, network, asset, entry_type, amount, payment_id, module_id, pay_to, memo)
+         VALUES ($1, $2, $3, 'debit', $4, $5, $6, $7, $8)
+         RETURNING id`,
+        [
+          key.walletAddress,
+          key.network,
+          key.asset,
+          take.toString(),
+          lot.paymentId,
+          params.moduleId,
+          params.payTo.toLowerCase(),
+          params.memo ?? null,
+        ]
+      );
+      entries.push({ id: String(result.rows[0].id), paymentId: lot.paymentId, amount: take.toString() });
+      outstanding -= take;
+    }
+
+    await client.query('COMMIT');
+    return { ...key, amount: amount.toString(), entries, balanceAfter: (available - amount).toString() };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Give back part or all of a debit (failed turn, or metered usage below the reserved maximum).
+ * Refunds go to the newest lots of the debit first so older deposits stay consumed.
+ */
+export async function refundDebit(debit: BalanceDebit, amount: string = debit.amount, memo?: string): Promise<void> {
+  let outstanding = BigInt(amount);
+  if (outstanding <= 0n) return;
+
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await lockBalance(client, debit);
+
+    for (const entry of [...debit.entries].reverse()) {
+      if (outstanding === 0n) break;
+      const entryAmount = BigInt(entry.amount);
+      const give = entryAmount < outstanding ? entryAmount : outstanding;
+      await client.query(
+        `INSERT INTO buyer_balance_ledger
+           (wallet_address, network, asset, entry_type, amount, payment_id, module_id, pay_to, reverses_entry_id, memo)
+         SELECT wallet_address, network, asset, 'refund', $2, payment_id, module_id, pay_to, id, $3
+         FROM buyer_balance_ledger WHERE id = $1`,
+        [entry.id, give.toString(), memo ?? null]
+      );
+      outstanding -= give;
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Link a debit's entries to the chat turn it paid for
+ */
+export async function attachDebitChat(debit: BalanceDebit, chatId: string): Promise<void> {
+  const pool = getPool();
+  await pool.query('UPDATE buyer_balance_ledger SET chat_id = $2 WHERE id = ANY($1::bigint[])', [
+    debit.entries.map((e) => e.id),
+    chatId,
+  ]);
+}
+
+/**
+ * Ledger statement for a wallet, newest first, with the originating payment's tx hash
+ */
+export async function getStatement(params: {
+  walletAddress: string;
+  limit?: number;
+  before?: string;
+}): Promise<Array<BalanceLedgerEntry & { txHash: string | null; moduleName: string | null }>> {
+  const pool = getPool();
+  const values: unknown[] = [params.walletAddress.trim().toLowerCase()];
+  let cursor = '';
+  if (params.before) {
+    values.push(params.before);
+    cursor = `AND l.id < $${values.length}`;
+  }
+  values.push(params.limit ?? 50);
+
+  const result = await pool.query(
+    `SELECT l.*, p.tx_hash, m.name as module_name
+     FROM buyer_balance_ledger l
+     JOIN payments p ON l.payment_id = p.id
+     LEFT JOIN modules m ON l.module_id = m.id
+     WHERE l.wallet_address = $1 ${cursor}
+     ORDER BY l.id DESC
+     LIMIT $${values.length}`,
+    values
+  );
+
+  return result.rows.map((row) => ({
+    ...mapLedgerRow(row),
+    txHash: (row.tx_hash as string | null) ?? null,
+    moduleName: (row.module_name as string | null) ?? null,
+  }));
+}
@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import { defineChain, type Chain } from 'viem';
+import {
+  arbitrum,
+  arbitrumSepolia,
+  avalanche,
+  avalancheFuji,
+  base,
+  baseSepolia,
+  cronos,
+  cronosTestnet,
+  mainnet,
+  polygon,
+  polygonAmoy,
+  sepolia,
+} from 'viem/chains';
+import { getConfig } from '../config.js';
+
+export interface ChainDefinition {
+  network: string; // x402 network id, e.g. 'base-sepolia'
+  chain: Chain;
+  aliases?: string[];
+  rpcUrl?: string; // overrides chain.rpcUrls.default
+}
+
+// Extra chains from env: X402_CHAINS='[{"network":"my-l2","chainId":1234,"rpcUrl":"https://..."}]'
+const ExtraChainSchema = z.object({
+  network: z.string().min(1),
+  chainId: z.number().int().positive(),
+  rpcUrl: z.string().url(),
+  name: z.string().optional(),
+  aliases: z.array(z.string()).optional(),
+});
+
+const BUILTIN_CHAINS: ChainDefinition[] = [
+  { network: 'cronos-mainnet', chain: cronos, aliases: ['cronos'] },
+  { network: 'cronos-testnet', chain: cronosTestnet },
+  { network: 'base', chain: base, aliases: ['base-mainnet'] },
+  { network: 'base-sepolia', chain: baseSepolia },
+  { network: 'polygon', chain: polygon, aliases: ['polygon-mainnet'] },
+  { network: 'polygon-amoy', chain: polygonAmoy },
+  { network: 'avalanche', chain: avalanche, aliases: ['avalanche-mainnet'] },
+  { network: 'avalanche-fuji', chain: avalancheFuji },
+  { network: 'ethereum', chain: mainnet, aliases: ['ethereum-mainnet', 'mainnet'] },
+  { network: 'sepolia', chain: sepolia, aliases: ['ethereum-sepolia'] },
+  { network: 'arbitrum', chain: arbitrum, aliases: ['arbitrum-one'] },
+  { network: 'arbitrum-sepolia', chain: arbitrumSepolia },
+];
+
+let registry: Map<string, ChainDefinition> | null = null;
+
+function key(network: string): string {
+  return network.trim().toLowerCase();
+}
+
+function addToRegistry(map: Map<string, ChainDefinition>, def: ChainDefinition): void {
+  map.set(key(def.network), def);
+  for (const alias of def.aliases ?? []) map.set(key(alias), def);
+}
+
+function buildRegistry(): Map<string, ChainDefinition> {
+  const config = getConfig();
+  const map = new Map<string, ChainDefinition>();
+  for (const def of BUILTIN_CHAINS) addToRegistry(map, def);
+
+  if (config.X402_CHAINS) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(config.X402_CHAINS);
+    } catch {
+      throw new Error('X402_CHAINS must be a JSON array');
+    }
+    const extras = z.array(ExtraChainSchema).parse(parsed);
+    for (const extra of extras) {
+      addToRegistry(map, {
+        network: extra.network,
+        aliases: extra.aliases,
+        rpcUrl: extra.rpcUrl,
+        chain: defineChain({
+          id: extra.chainId,
+          name: extra.name ?? extra.network,
+          nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+          rpcUrls: { default: { http: [extra.rpcUrl] } },
+        }),
+      });
+    }
+  }
+
+  // The default network honours X402_CHAIN_ID / X402_RPC_URL, so local or custom
+  // deployments keep working without an X402_CHAINS entry.
+  const defaultDef = map.get(key(config.X402_NETWORK));
+  if (defaultDef && defaultDef.chain.id === config.X402_CHAIN_ID) {
+    if (config.X402_RPC_URL) addToRegistry(map, { ...defaultDef, rpcUrl: config.X402_RPC_URL });
+  } else {
+    addToRegistry(map, {
+      network: config.X402_NETWORK,
+      rpcUrl: config.X402_RPC_URL,
+      chain: defineChain({
+        id: config.X402_CHAIN_ID,
+        name: config.X402_NETWORK,
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        rpcUrls: { default: { http: config.X402_RPC_URL ? [config.X402_RPC_URL] : [] } },
+      }),
+    });
+  }
+
+  return map;
+}
+
+function getRegistry(): Map<string, ChainDefinition> {
+  if (!registry) registry = buildRegistry();
+  return registry;
+}
+
+/**
+ * Register (or replace) a chain at runtime
+ */
+export function registerChain(def: ChainDefinition): void {
+  addToRegistry(getRegistry(), def);
+}
+
+/**
+ * Look up a chain by network id or alias. Returns null for unknown networks.
+ */
+export function getChainDefinition(network: string): ChainDefinition | null {
+  return getRegistry().get(key(network)) ?? null;
+}
+
+/**
+ * Canonical network id for a network name or alias (null if unsupported)
+ */
+export function normalizeNetworkName(network: string): string | null {
+  return getChainDefinition(network)?.network ?? null;
+}
+
+export function getChainId(network: string): number | null {
+  return getChainDefinition(network)?.chain.id ?? null;
+}
+
+export function getRpcUrl(def: ChainDefinition): string | undefined {
+  return def.rpcUrl || def.chain.rpcUrls.default.http[0];
+}
+
+/**
+ * All supported canonical network ids
+ */
+export function listNetworks(): string[] {
+  return Array.from(new Set(Array.from(getRegistry().values()).map((def) => def.network))).sort();
+}
@@ -0,0 +1,356 @@
+import type { Coupon, CouponRedemption, CouponRedemptionKind, PaymentRequirements } from '@soulforge/shared';
+import { getPool } from '../lib/db.js';
+
+// Machine-readable reason a coupon was not accepted
+export type CouponRejectReason = 'invalid_code' | 'not_found' | 'inactive' | 'expired' | 'exhausted' | 'not_applicable';
+
+export type CouponCheck =
+  | { valid: true; coupon: Coupon }
+  | { valid: false; reason: CouponRejectReason; error: string };
+
+const COUPON_COLUMNS = `id, owner_user_id, code, module_ids, discount_percent, free_messages, max_redemptions,
+                        redemption_count, expires_at, active, created_at, updated_at`;
+
+const REDEMPTION_COLUMNS = `id, coupon_id, module_id, wallet_address, kind, discount_amount, payment_id, chat_id,
+                            created_at`;
+
+function mapCouponRow(row: Record<string, unknown>): Coupon {
+  return {
+    id: row.id as string,
+    ownerUserId: row.owner_user_id as string,
+    code: row.code as string,
+    moduleIds: (row.module_ids as string[] | null) ?? null,
+    discountPercent: (row.discount_percent as number | null) ?? null,
+    freeMessages: (row.free_messages as number | null) ?? null,
+    maxRedemptions: (row.max_redemptions as number | null) ?? null,
+    redemptionCount: row.redemption_count as number,
+    expiresAt: (row.expires_at as Date | null) ?? null,
+    active: row.active as boolean,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date,
+  };
+}
+
+function mapRedemptionRow(row: Record<string, unknown>): CouponRedemption {
+  return {
+    id: row.id as string,
+    couponId: row.coupon_id as string,
+    moduleId: row.module_id as string,
+    walletAddress: row.wallet_address as string,
+    kind: row.kind as CouponRedemptionKind,
+    discountAmount: row.discount_amount as string,
+    paymentId: (row.payment_id as string | null) ?? null,
+    chatId: (row.chat_id as string | null) ?? null,
+    createdAt: row.created_at as Date,
+  };
+}
+
+/**
+ * Codes are case-insensitive: 3-32 letters, digits, '-' or '_', stored upper-case
+ */
+export function normalizeCouponCode(code: string): string | null {
+  const normalized = code.trim().toUpperCase();
+  return /^[A-Z0-9_-]{3,32}$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Lower every accepted price by the coupon's percentage (rounded down, at least 1 unit)
+ */
+export function applyCouponDiscount(accepts: PaymentRequirements[], discountPercent: number): PaymentRequirements[] {
+  return accepts.map((option) => {
+    const discounted = (BigInt(option.maxAmountRequired) * BigInt(100 - discountPercent)) / 100n;
+    return { ...option, maxAmountRequired: (discounted < 1n ? 1n : discounted).toString() };
+  });
+}
+
+function isUsable(coupon: Coupon): CouponCheck {
+  if (!coupon.active) {
+    return { valid: false, reason: 'inactive', error: 'Coupon is no longer active' };
+  }
+  if (coupon.expiresAt && coupon.expiresAt.getTime() <= Date.now()) {
+    return { valid: false, reason: 'expired', error: 'Coupon has expired' };
+  }
+  if (coupon.maxRedemptions !== null && coupon.redemptionCount >= coupon.maxRedemptions) {
+    return { valid: false, reason: 'exhausted', error: 'Coupon has been fully redeemed' };
+  }
+  return { valid: true, coupon };
+}
+
+/**
+ * Look up a code for a module: it must belong to the module's seller and cover the module
+ */
+export async function findCouponForModule(params: { code: string; moduleId: string }): Promise<CouponCheck> {
+  const code = normalizeCouponCode(params.code);
+  if (!code) {
+    return { valid: false, reason: 'invalid_code', error: 'Coupon code is malformed' };
+  }
+
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT ${COUPON_COLUMNS} FROM coupons
+     WHERE code = $1 AND owner_user_id = (SELECT owner_user_id FROM modules WHERE id = $2)`,
+    [code, params.moduleId]
+  );
+  if (result.rows.length === 0) {
+    return { valid: false, reason: 'not_found', error: 'Unknown coupon code' };
+  }
+
+  const coupon = mapCouponRow(result.rows[0]);
+  if (coupon.moduleIds && !coupon.moduleIds.includes(params.moduleId)) {
+    return { valid: false, reason: 'not_applicable', error: 'Coupon does not apply to this module' };
+  }
+  return isUsable(coupon);
+}
+
+/**
+ * Count one use against the coupon's limit. Returns false if it became unusable meanwhile.
+ */
+export async function reserveCouponUse(couponId: string): Promise<boolean> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE coupons SET redemption_count = redemption_count + 1
+     WHERE id = $1 AND active
+       AND (expires_at IS NULL OR expires_at > NOW())
+       AND (max_redemptions IS NULL OR redemption_count < max_redemptions)`,
+    [couponId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Give back a reserved use (the discounted payment did not go through)
+ */
+export async function releaseCouponUse(couponId: string): Promise<void> {
+  const pool = getPool();
+  await pool.query(
+    `UPDATE coupons SET redemption_count = GREATEST(redemption_count - 1, 0) WHERE id = $1`,
+    [couponId]
+  );
+}
+
+/**
+ * Record a discounted purchase; its use must already be reserved
+ */
+export async function recordCouponRedemption(params: {
+  couponId: string;
+  moduleId: string;
+  walletAddress: string;
+  discountAmount: string;
+  paymentId?: string;
+  chatId?: string;
+}): Promise<CouponRedemption> {
+  const pool = getPool();
+  const result = await pool.query(
+    `INSERT INTO coupon_redemptions (coupon_id, module_id, wallet_address, kind, discount_amount, payment_id, chat_id)
+     VALUES ($1, $2, $3, 'discount', $4, $5, $6)
+     RETURNING ${REDEMPTION_COLUMNS}`,
+    [
+      params.couponId,
+      params.moduleId,
+      params.walletAddress.toLowerCase(),
+      params.discountAmount,
+      params.paymentId ?? null,
+      params.chatId ?? null,
+    ]
+  );
+  return mapRedemptionRow(result.rows[0]);
+}
+
+/**
+ * Redeem one of the wallet's free messages. Returns null if the wallet has used them all
+ * or the coupon is no longer usable.
+ */
+export async function redeemFreeMessage(params: {
+  couponId: string;
+  moduleId: string;
+  walletAddress: string;
+  listPrice: string;
+}): Promise<{ redemption: CouponRedemption; freeMessagesRemaining: number } | null> {
+  const pool = getPool();
+  const walletAddress = params.walletAddress.toLowerCase();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    // Lock the coupon so concurrent redemptions by the same wallet are counted one at a time
+    const couponResult = await client.query(`SELECT ${COUPON_COLUMNS} FROM coupons WHERE id = $1 FOR UPDATE`, [
+      params.couponId,
+    ]);
+    const coupon = couponResult.rows.length > 0 ? mapCouponRow(couponResult.rows[0]) : null;
+    if (!coupon || !coupon.freeMessages || !isUsable(coupon).valid) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const usedResult = await client.query(
+      `SELECT COUNT(*)::int AS used FROM coupon_redemptions
+       WHERE coupon_id = $1 AND wallet_address = $2 AND kind = 'free_message'`,
+      [coupon.id, walletAddress]
+    );
+    const used = usedResult.rows[0].used as number;
+    if (used >= coupon.freeMessages) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query(`UPDATE coupons SET redemption_count = redemption_count + 1 WHERE id = $1`, [coupon.id]);
+    const inserted = await client.query(
+      `INSERT INTO coupon_redemptions (coupon_id, module_id, wallet_address, kind, discount_amount)
+       VALUES ($1, $2, $3, 'free_message', $4)
+       RETURNING ${REDEMPTION_COLUMNS}`,
+      [coupon.id, params.moduleId, walletAddress, params.listPrice]
+    );
+
+    await client.query('COMMIT');
+    return {
+      redemption: mapRedemptionRow(inserted.rows[0]),
+      freeMessagesRemaining: coupon.freeMessages - used - 1,
+    };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Undo a free message whose reply could not be generated
+ */
+export async function restoreFreeMessage(redemption: CouponRedemption): Promise<void> {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const deleted = await client.query(`DELETE FROM coupon_redemptions WHERE id = $1`, [redemption.id]);
+    if ((deleted.rowCount ?? 0) > 0) {
+      await client.query(
+        `UPDATE coupons SET redemption_count = GREATEST(redemption_count - 1, 0) WHERE id = $1`,
+        [redemption.couponId]
+      );
+    }
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function attachRedemptionChat(redemptionId: string, chatId: string): Promise<void> {
+  const pool = getPool();
+  await pool.query(`UPDATE coupon_redemptions SET chat_id = $2 WHERE id = $1`, [redemptionId, chatId]);
+}
+
+/**
+ * Create a coupon. Returns null if the seller already has a coupon with this code.
+ */
+export async function createCoupon(params: {
+  ownerUserId: string;
+  code: string;
+  moduleIds: string[] | null;
+  discountPercent: number | null;
+  freeMessages: number | null;
+  maxRedemptions: number | null;
+  expiresAt: Date | null;
+}): Promise<Coupon | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `INSERT INTO coupons (owner_user_id, code, module_ids, discount_percent, free_messages, max_redemptions, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (owner_user_id, code) DO NOTHING
+     RETURNING ${COUPON_COLUMNS}`,
+    [
+      params.ownerUserId,
+      params.code,
+      params.moduleIds,
+      params.discountPercent,
+      params.freeMessages,
+      params.maxRedemptions,
+      params.expiresAt,
+    ]
+  );
+  return result.rows.length > 0 ? mapCouponRow(result.rows[0]) : null;
+}
+
+/**
+ * Change a coupon's limits or switch it off; fields left undefined keep their current value
+ */
+export async function updateCoupon(
+  id: string,
+  ownerUserId: string,
+  patch: { active?: boolean; maxRedemptions?: number | null; expiresAt?: Date | null }
+): Promise<Coupon | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE coupons SET
+       active = COALESCE($3, active),
+       max_redemptions = CASE WHEN $4::boolean THEN $5 ELSE max_redemptions END,
+       expires_at = CASE WHEN $6::boolean THEN $7 ELSE expires_at END
+     WHERE id = $1 AND owner_user_id = $2
+     RETURNING ${COUPON_COLUMNS}`,
+    [
+      id,
+      ownerUserId,
+      patch.active ?? null,
+      patch.maxRedemptions !== undefined,
+      patch.maxRedemptions ?? null,
+      patch.expiresAt !== undefined,
+      patch.expiresAt ?? null,
+    ]
+  );
+  return result.rows.length > 0 ? mapCouponRow(result.rows[0]) : null;
+}
+
+/**
+ * A seller's coupons with redemption totals, newest first
+ */
+export async function listCoupons(ownerUserId: string): Promise<
+  Array<Coupon & { stats: { redemptions: number; uniqueWallets: number; totalDiscount: string } }>
+> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT c.*,
+            COUNT(r.id)::int AS redemptions,
+            COUNT(DISTINCT r.wallet_address)::int AS unique_wallets,
+            COALESCE(SUM(r.discount_amount::numeric), 0)::text AS total_discount
+     FROM coupons c
+     LEFT JOIN coupon_redemptions r ON r.coupon_id = c.id
+     WHERE c.owner_user_id = $1
+     GROUP BY c.id
+     ORDER BY c.created_at DESC`,
+    [ownerUserId]
+  );
+  return result.rows.map((row) => ({
+    ...mapCouponRow(row),
+    stats: {
+      redemptions: row.redemptions as number,
+      uniqueWallets: row.unique_wallets as number,
+      totalDiscount: row.total_discount as string,
+    },
+  }));
+}
+
+/**
+ * Redemptions of one of the seller's coupons, newest first. Returns null if the coupon is not theirs.
+ */
+export async function listCouponRedemptions(params: {
+  couponId: string;
+  ownerUserId: string;
+  limit: number;
+}): Promise<CouponRedemption[] | null> {
+  const pool = getPool();
+  const owned = await pool.query(`SELECT 1 FROM coupons WHERE id = $1 AND owner_user_id = $2`, [
+    params.couponId,
+    params.ownerUserId,
+  ]);
+  if (owned.rows.length === 0) return null;
+
+  const result = await pool.query(
+    `SELECT ${REDEMPTION_COLUMNS} FROM coupon_redemptions
+     WHERE coupon_id = $1 ORDER BY created_at DESC LIMIT $2`,
+    [params.couponId, params.limit]
+  );
+  return result.rows.map(mapRedemptionRow);
+}
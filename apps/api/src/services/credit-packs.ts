@@ -0,0 +1,140 @@
+import type { CreditPack, PaymentOption, PricingTier } from '@soulforge/shared';
+import { getPool } from '../lib/db.js';
+
+const PACK_COLUMNS = `id, module_id, wallet_address, payment_id, tier_id, credits_total, credits_remaining,
+                      created_at, updated_at`;
+
+function mapPackRow(row: Record<string, unknown>): CreditPack {
+  return {
+    id: row.id as string,
+    moduleId: row.module_id as string,
+    walletAddress: row.wallet_address as string,
+    paymentId: row.payment_id as string,
+    tierId: row.tier_id as string,
+    creditsTotal: row.credits_total as number,
+    creditsRemaining: row.credits_remaining as number,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date,
+  };
+}
+
+/**
+ * Find a module's tier by id
+ */
+export function findPricingTier(tiers: PricingTier[] | null, tierId: string): PricingTier | null {
+  return tiers?.find((t) => t.id === tierId) ?? null;
+}
+
+/**
+ * Payment options for buying a tier: options with their own priceAmount (e.g. other decimals)
+ * are scaled by the tier/base price ratio, rounding up.
+ */
+export function getTierPaymentOptions(
+  paymentOptions: PaymentOption[] | null,
+  basePriceAmount: string,
+  tier: PricingTier
+): PaymentOption[] | null {
+  if (!paymentOptions) return null;
+  return paymentOptions.map((option) => {
+    if (!option.priceAmount) return option;
+    const scaled =
+      (BigInt(option.priceAmount) * BigInt(tier.priceAmount) + BigInt(basePriceAmount) - 1n) / BigInt(basePriceAmount);
+    return { ...option, priceAmount: scaled.toString() };
+  });
+}
+
+/**
+ * Issue the credits of a paid pack. Idempotent per payment.
+ */
+export async function issueCreditPack(params: {
+  moduleId: string;
+  walletAddress: string;
+  paymentId: string;
+  tier: PricingTier;
+}): Promise<CreditPack> {
+  const pool = getPool();
+  const result = await pool.query(
+    `INSERT INTO credit_packs (module_id, wallet_address, payment_id, tier_id, credits_total, credits_remaining)
+     VALUES ($1, $2, $3, $4, $5, $5)
+     ON CONFLICT (payment_id) DO UPDATE SET updated_at = credit_packs.updated_at
+     RETURNING ${PACK_COLUMNS}`,
+    [params.moduleId, params.walletAddress.toLowerCase(), params.paymentId, params.tier.id, params.tier.credits]
+  );
+  return mapPackRow(result.rows[0]);
+}
+
+/**
+ * Take one credit from the wallet's oldest non-empty pack on a module.
+ * Returns null if no credits are left.
+ */
+export async function consumePackCredit(params: {
+  moduleId: string;
+  walletAddress: string;
+}): Promise<CreditPack | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE credit_packs SET credits_remaining = credits_remaining - 1
+     WHERE id = (
+       SELECT id FROM credit_packs
+       WHERE module_id = $1 AND wallet_address = $2 AND credits_remaining > 0
+       ORDER BY created_at ASC
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING ${PACK_COLUMNS}`,
+    [params.moduleId, params.walletAddress.toLowerCase()]
+  );
+  return result.rows.length > 0 ? mapPackRow(result.rows[0]) : null;
+}
+
+/**
+ * Return a consumed credit (the turn it paid for failed)
+ */
+export async function restorePackCredit(packId: string): Promise<void> {
+  const pool = getPool();
+  await pool.query(
+    `UPDATE credit_packs SET credits_remaining = LEAST(credits_remaining + 1, credits_total)
+     WHERE id = $1`,
+    [packId]
+  );
+}
+
+/**
+ * Credits left across all of a wallet's packs on a module
+ */
+export async function getPackCreditsRemaining(params: { moduleId: string; walletAddress: string }): Promise<number> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT COALESCE(SUM(credits_remaining), 0)::int AS remaining
+     FROM credit_packs WHERE module_id = $1 AND wallet_address = $2`,
+    [params.moduleId, params.walletAddress.toLowerCase()]
+  );
+  return result.rows[0].remaining as number;
+}
+
+/**
+ * A wallet's packs with module names, newest first
+ */
+export async function listCreditPacks(params: {
+  walletAddress: string;
+  moduleId?: string;
+}): Promise<Array<CreditPack & { moduleName: string }>> {
+  const pool = getPool();
+  const values: unknown[] = [params.walletAddress.toLowerCase()];
+  let moduleFilter = '';
+  if (params.moduleId) {
+    values.push(params.moduleId);
+    moduleFilter = `AND c.module_id = $${values.length}`;
+  }
+
+  const result = await pool.query(
+    `SELECT c.id, c.module_id, c.wallet_address, c.payment_id, c.tier_id, c.credits_total,
+            c.credits_remaining, c.created_at, c.updated_at, m.name AS module_name
+     FROM credit_packs c
+     JOIN modules m ON c.module_id = m.id
+     WHERE c.wallet_address = $1 ${moduleFilter}
+     ORDER BY c.created_at DESC`,
+    values
+  );
+  return result.rows.map((row) => ({ ...mapPackRow(row), moduleName: row.module_name as string }));
+}
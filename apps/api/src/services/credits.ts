@@ -0,0 +1,135 @@
+import type { BuyerCredit, CreditStatus } from '@soulforge/shared';
+import { getPool } from '../lib/db.js';
+
+const CREDIT_COLUMNS = `id, module_id, wallet_address, payment_id, value, reason, status,
+                        redeemed_at, redeemed_chat_id, created_at`;
+
+function mapCreditRow(row: Record<string, unknown>): BuyerCredit {
+  return {
+    id: row.id as string,
+    moduleId: row.module_id as string,
+    walletAddress: row.wallet_address as string,
+    paymentId: row.payment_id as string,
+    value: row.value as string,
+    reason: (row.reason as string | null) ?? null,
+    status: row.status as CreditStatus,
+    redeemedAt: (row.redeemed_at as Date | null) ?? null,
+    redeemedChatId: (row.redeemed_chat_id as string | null) ?? null,
+    createdAt: row.created_at as Date,
+  };
+}
+
+/**
+ * Record that a buyer is owed one turn after a paid turn produced no reply.
+ * Idempotent per payment. A credit for a payment still settling in the background is only
+ * redeemable once it settles, and never if its settlement fails.
+ */
+export async function createCredit(params: {
+  moduleId: string;
+  walletAddress: string;
+  paymentId: string;
+  value: string;
+  reason?: string;
+}): Promise<BuyerCredit> {
+  const pool = getPool();
+  const result = await pool.query(
+    `INSERT INTO buyer_credits (module_id, wallet_address, payment_id, value, reason)
+     VALUES ($1, $2, $3, $4, $5)
+     ON CONFLICT (payment_id) DO UPDATE SET reason = EXCLUDED.reason
+     RETURNING ${CREDIT_COLUMNS}`,
+    [params.moduleId, params.walletAddress.toLowerCase(), params.paymentId, params.value, params.reason ?? null]
+  );
+  return mapCreditRow(result.rows[0]);
+}
+
+/**
+ * Atomically take the oldest outstanding credit for a wallet on a module whose payment has settled.
+ * Returns null if there is nothing to redeem.
+ */
+export async function redeemCredit(params: {
+  moduleId: string;
+  walletAddress: string;
+}): Promise<BuyerCredit | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE buyer_credits SET status = 'redeemed', redeemed_at = NOW()
+     WHERE id = (
+       SELECT c.id FROM buyer_credits c
+       JOIN payments p ON p.id = c.payment_id
+       WHERE c.module_id = $1 AND c.wallet_address = $2 AND c.status = 'outstanding' AND p.event = 'settled'
+       ORDER BY c.created_at ASC
+       LIMIT 1
+       FOR UPDATE OF c SKIP LOCKED
+     )
+     RETURNING ${CREDIT_COLUMNS}`,
+    [params.moduleId, params.walletAddress.toLowerCase()]
+  );
+  return result.rows.length > 0 ? mapCreditRow(result.rows[0]) : null;
+}
+
+/**
+ * Link a redeemed credit to the chat that consumed it
+ */
+export async function attachCreditChat(creditId: string, chatId: string): Promise<void> {
+  const pool = getPool();
+  await pool.query('UPDATE buyer_credits SET redeemed_chat_id = $2 WHERE id = $1', [creditId, chatId]);
+}
+
+/**
+ * Put a redeemed credit back (the redeeming turn failed too)
+ */
+export async function restoreCredit(creditId: string): Promise<void> {
+  const pool = getPool();
+  await pool.query(
+    `UPDATE buyer_credits SET status = 'outstanding', redeemed_at = NULL, redeemed_chat_id = NULL
+     WHERE id = $1`,
+    [creditId]
+  );
+}
+
+/**
+ * List credits with their payment tx hash, optionally scoped to a module owner
+ */
+export async function listCredits(params: {
+  ownerUserId?: string;
+  moduleId?: string;
+  status?: CreditStatus;
+  limit?: number;
+}): Promise<Array<BuyerCredit & { moduleName: string; txHash: string | null }>> {
+  const pool = getPool();
+
+  const whereValues: unknown[] = [];
+  const whereParts: string[] = [];
+  if (params.ownerUserId) {
+    whereValues.push(params.ownerUserId);
+    whereParts.push(`m.owner_user_id = $${whereValues.length}`);
+  }
+  if (params.moduleId) {
+    whereValues.push(params.moduleId);
+    whereParts.push(`c.module_id = $${whereValues.length}`);
+  }
+  if (params.status) {
+    whereValues.push(params.status);
+    whereParts.push(`c.status = $${whereValues.length}`);
+  }
+  whereValues.push(params.limit ?? 100);
+
+  const result = await pool.query(
+    `SELECT c.id, c.module_id, c.wallet_address, c.payment_id, c.value, c.reason, c.status,
+            c.redeemed_at, c.redeemed_chat_id, c.created_at,
+            m.name as module_name, p.tx_hash
+     FROM buyer_credits c
+     JOIN modules m ON c.module_id = m.id
+     LEFT JOIN payments p ON c.payment_id = p.id
+     ${whereParts.length > 0 ? `WHERE ${whereParts.join(' AND ')}` : ''}
+     ORDER BY c.created_at DESC
+     LIMIT $${whereValues.length}`,
+    whereValues
+  );
+
+  return result.rows.map((row) => ({
+    ...mapCreditRow(row),
+    moduleName: row.module_name as string,
+    txHash: (row.tx_hash as string | null) ?? null,
+  }));
+}
@@ -0,0 +1,383 @@
+import { randomBytes } from 'crypto';
+import type pg from 'pg';
+import { isAddress, keccak256, recoverTypedDataAddress, toHex, type Address, type Hex } from 'viem';
+import {
+  X402_EIP712_TYPES,
+  getX402EIP712Domain,
+  type PaymentRequirements,
+  type X402PaymentHeader,
+  type X402TransferAuthorization,
+} from '@soulforge/shared';
+import { getPool } from '../lib/db.js';
+import { getConfig } from '../config.js';
+import { getChainId } from './chains.js';
+
+/**
+ * Local x402 facilitator stand-in.
+ *
+ * Implements the same /verify and /settle contract as the hosted facilitator so the
+ * real (non-mock) payment path can be exercised offline. Balances are never stored
+ * directly: they are derived from an append-only ledger that can be replayed.
+ */
+
+export type AuthorizationCheckResult =
+  | { isValid: true; payer: string; authorization: X402TransferAuthorization }
+  | { isValid: false; invalidReason: string; payer?: string };
+
+export type FacilitatorSettleResult =
+  | { event: 'payment.settled'; txHash: string }
+  | { event: 'payment.failed'; error: string };
+
+export interface LedgerEntry {
+  id: string;
+  entryType: 'mint' | 'transfer';
+  network: string;
+  asset: string;
+  fromAddress: string | null;
+  toAddress: string;
+  value: string;
+  nonce: string | null;
+  txHash: string;
+  createdAt: Date;
+}
+
+const NONCE_REGEX = /^0x[a-fA-F0-9]{64}$/;
+const SIGNATURE_REGEX = /^0x[a-fA-F0-9]+$/;
+
+function normalizeAddress(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function parseUint(value: unknown): bigint | null {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) return BigInt(value);
+  if (typeof value === 'string' && /^\d+$/.test(value)) return BigInt(value);
+  return null;
+}
+
+export function decodeX402PaymentHeader(paymentHeader: string): X402PaymentHeader | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString()) as X402PaymentHeader;
+    if (!decoded || typeof decoded !== 'object' || !decoded.payload) return null;
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a TransferWithAuthorization payment header against payment requirements.
+ * Stateless: does not look at balances or previously used nonces.
+ */
+export async function checkTransferAuthorization(
+  paymentHeader: string,
+  requirements: PaymentRequirements,
+  nowSec: number = Math.floor(Date.now() / 1000)
+): Promise<AuthorizationCheckResult> {
+  const config = getConfig();
+
+  const decoded = decodeX402PaymentHeader(paymentHeader);
+  if (!decoded) return { isValid: false, invalidReason: 'Failed to decode payment header' };
+
+  const auth = decoded.payload;
+  const payer = typeof auth.from === 'string' ? auth.from : undefined;
+
+  if (decoded.x402Version !== 1) {
+    return { isValid: false, invalidReason: `Unsupported x402Version: ${decoded.x402Version}`, payer };
+  }
+  if (decoded.scheme !== requirements.scheme) {
+    return { isValid: false, invalidReason: `Scheme mismatch: expected ${requirements.scheme}`, payer };
+  }
+  if (decoded.network !== requirements.network) {
+    return { isValid: false, invalidReason: `Network mismatch: expected ${requirements.network}`, payer };
+  }
+
+  if (!payer || !isAddress(payer) || typeof auth.to !== 'string' || !isAddress(auth.to)) {
+    return { isValid: false, invalidReason: 'Invalid payment structure', payer };
+  }
+  if (typeof auth.nonce !== 'string' || !NONCE_REGEX.test(auth.nonce)) {
+    return { isValid: false, invalidReason: 'Invalid authorization nonce', payer };
+  }
+  if (typeof auth.signature !== 'string' || !SIGNATURE_REGEX.test(auth.signature)) {
+    return { isValid: false, invalidReason: 'Invalid authorization signature', payer };
+  }
+
+  const asset = auth.asset ?? requirements.asset;
+  if (normalizeAddress(asset) !== normalizeAddress(requirements.asset)) {
+    return { isValid: false, invalidReason: `Asset mismatch: expected ${requirements.asset}`, payer };
+  }
+  if (normalizeAddress(auth.to) !== normalizeAddress(requirements.payTo)) {
+    return { isValid: false, invalidReason: `Recipient mismatch: expected ${requirements.payTo}`, payer };
+  }
+
+  const value = parseUint(auth.value);
+  const validAfter = parseUint(auth.validAfter);
+  const validBefore = parseUint(auth.validBefore);
+  if (value === null || validAfter === null || validBefore === null) {
+    return { isValid: false, invalidReason: 'Invalid authorization amounts', payer };
+  }
+
+  if (value < BigInt(requirements.maxAmountRequired)) {
+    return {
+      isValid: false,
+      invalidReason: `Insufficient value: ${value} < ${requirements.maxAmountRequired}`,
+      payer,
+    };
+  }
+
+  const now = BigInt(nowSec);
+  if (now <= validAfter) {
+    return { isValid: false, invalidReason: 'Authorization is not yet valid', payer };
+  }
+  if (now >= validBefore) {
+    return { isValid: false, invalidReason: 'Authorization expired', payer };
+  }
+
+  let signer: Address;
+  try {
+    signer = await recoverTypedDataAddress({
+      domain: getX402EIP712Domain({
+        eip712Name: requirements.extra?.name ?? config.X402_EIP712_NAME,
+        eip712Version: requirements.extra?.version ?? config.X402_EIP712_VERSION,
+        chainId: requirements.extra?.chainId ?? getChainId(requirements.network) ?? config.X402_CHAIN_ID,
+        verifyingContract: requirements.asset as Address,
+      }),
+      types: X402_EIP712_TYPES,
+      primaryType: 'TransferWithAuthorization',
+      message: {
+        from: payer as Address,
+        to: auth.to as Address,
+        value,
+        validAfter,
+        validBefore,
+        nonce: auth.nonce as Hex,
+      },
+      signature: auth.signature as Hex,
+    });
+  } catch {
+    return { isValid: false, invalidReason: 'Invalid authorization signature', payer };
+  }
+
+  if (normalizeAddress(signer) !== normalizeAddress(payer)) {
+    return { isValid: false, invalidReason: 'Signature does not match payer', payer };
+  }
+
+  return { isValid: true, payer, authorization: { ...auth, asset } };
+}
+
+// ==================== LEDGER ====================
+
+type Queryable = Pick<pg.Pool | pg.PoolClient, 'query'>;
+
+function mapLedgerRow(row: Record<string, unknown>): LedgerEntry {
+  return {
+    id: String(row.id),
+    entryType: row.entry_type as LedgerEntry['entryType'],
+    network: row.network as string,
+    asset: row.asset as string,
+    fromAddress: (row.from_address as string | null) ?? null,
+    toAddress: row.to_address as string,
+    value: row.value as string,
+    nonce: (row.nonce as string | null) ?? null,
+    txHash: row.tx_hash as string,
+    createdAt: row.created_at as Date,
+  };
+}
+
+function buildTransferTxHash(network: string, asset: string, from: string, nonce: string): string {
+  return keccak256(toHex(`${network}:${normalizeAddress(asset)}:${normalizeAddress(from)}:${nonce.toLowerCase()}`));
+}
+
+async function getLedgerBalance(
+  db: Queryable,
+  params: { network: string; asset: string; address: string }
+): Promise<bigint> {
+  const result = await db.query<{ credits: string | null; debits: string | null }>(
+    `SELECT
+       (SELECT SUM(value::numeric) FROM facilitator_ledger
+         WHERE network = $1 AND asset = $2 AND to_address = $3)::text AS credits,
+       (SELECT SUM(value::numeric) FROM facilitator_ledger
+         WHERE network = $1 AND asset = $2 AND from_address = $3)::text AS debits`,
+    [params.network, normalizeAddress(params.asset), normalizeAddress(params.address)]
+  );
+  const row = result.rows[0];
+  return BigInt(row?.credits ?? '0') - BigInt(row?.debits ?? '0');
+}
+
+async function isNonceUsed(
+  db: Queryable,
+  params: { network: string; asset: string; from: string; nonce: string }
+): Promise<boolean> {
+  const result = await db.query(
+    `SELECT 1 FROM facilitator_ledger
+     WHERE network = $1 AND asset = $2 AND from_address = $3 AND nonce = $4
+     LIMIT 1`,
+    [params.network, normalizeAddress(params.asset), normalizeAddress(params.from), params.nonce.toLowerCase()]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function getFacilitatorBalance(params: {
+  network?: string;
+  asset?: string;
+  address: string;
+}): Promise<{ network: string; asset: string; address: string; balance: string }> {
+  const config = getConfig();
+  const network = params.network ?? config.X402_NETWORK;
+  const asset = normalizeAddress(params.asset ?? config.X402_ASSET_CONTRACT ?? '0x0000000000000000000000000000000000000000');
+  const balance = await getLedgerBalance(getPool(), { network, asset, address: params.address });
+  return { network, asset, address: normalizeAddress(params.address), balance: balance.toString() };
+}
+
+/**
+ * Credit an address out of thin air (local faucet).
+ */
+export async function mintFacilitatorBalance(params: {
+  network?: string;
+  asset?: string;
+  address: string;
+  value: string;
+}): Promise<LedgerEntry> {
+  const config = getConfig();
+  const pool = getPool();
+  const network = params.network ?? config.X402_NETWORK;
+  const asset = normalizeAddress(params.asset ?? config.X402_ASSET_CONTRACT ?? '0x0000000000000000000000000000000000000000');
+
+  const result = await pool.query(
+    `INSERT INTO facilitator_ledger (entry_type, network, asset, from_address, to_address, value, nonce, tx_hash)
+     VALUES ('mint', $1, $2, NULL, $3, $4, NULL, $5)
+     RETURNING id, entry_type, network, asset, from_address, to_address, value, nonce, tx_hash, created_at`,
+    [network, asset, normalizeAddress(params.address), params.value, `0x${randomBytes(32).toString('hex')}`]
+  );
+  return mapLedgerRow(result.rows[0]);
+}
+
+export async function facilitatorVerify(
+  paymentHeader: string,
+  requirements: PaymentRequirements
+): Promise<{ isValid: boolean; invalidReason: string | null }> {
+  const check = await checkTransferAuthorization(paymentHeader, requirements);
+  if (!check.isValid) return { isValid: false, invalidReason: check.invalidReason };
+
+  const pool = getPool();
+  const { authorization } = check;
+  const asset = authorization.asset ?? requirements.asset;
+
+  if (await isNonceUsed(pool, { network: requirements.network, asset, from: check.payer, nonce: authorization.nonce })) {
+    return { isValid: false, invalidReason: 'Authorization nonce already used' };
+  }
+
+  const balance = await getLedgerBalance(pool, { network: requirements.network, asset, address: check.payer });
+  if (balance < BigInt(authorization.value)) {
+    return { isValid: false, invalidReason: `Insufficient balance: ${balance} < ${authorization.value}` };
+  }
+
+  return { isValid: true, invalidReason: null };
+}
+
+export async function facilitatorSettle(
+  paymentHeader: string,
+  requirements: PaymentRequirements,
+  amount?: string
+): Promise<FacilitatorSettleResult> {
+  const check = await checkTransferAuthorization(paymentHeader, requirements);
+  if (!check.isValid) return { event: 'payment.failed', error: check.invalidReason };
+
+  const { authorization, payer } = check;
+
+  // 'upto' settles the requested amount (capped by the authorization); 'exact' settles it all
+  let transferValue = BigInt(authorization.value);
+  if (amount !== undefined) {
+    if (requirements.scheme !== 'upto') {
+      return { event: 'payment.failed', error: 'Settlement amount is only supported for the upto scheme' };
+    }
+    if (BigInt(amount) > transferValue) {
+      return { event: 'payment.failed', error: `Settlement amount exceeds authorization: ${amount} > ${authorization.value}` };
+    }
+    transferValue = BigInt(amount);
+  }
+
+  const network = requirements.network;
+  const asset = normalizeAddress(authorization.asset ?? requirements.asset);
+  const from = normalizeAddress(payer);
+  const nonce = authorization.nonce.toLowerCase();
+
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    // Serialize settlements per payer so the balance check and debit are atomic.
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`facilitator:${network}:${asset}:${from}`]);
+
+    if (await isNonceUsed(client, { network, asset, from, nonce })) {
+      await client.query('ROLLBACK');
+      return { event: 'payment.failed', error: 'Authorization nonce already used' };
+    }
+
+    const balance = await getLedgerBalance(client, { network, asset, address: from });
+    if (balance < transferValue) {
+      await client.query('ROLLBACK');
+      return { event: 'payment.failed', error: `Insufficient balance: ${balance} < ${transferValue}` };
+    }
+
+    const txHash = buildTransferTxHash(network, asset, from, nonce);
+    await client.query(
+      `INSERT INTO facilitator_ledger (entry_type, network, asset, from_address, to_address, value, nonce, tx_hash)
+       VALUES ('transfer', $1, $2, $3, $4, $5, $6, $7)`,
+      [network, asset, from, normalizeAddress(authorization.to), transferValue.toString(), nonce, txHash]
+    );
+
+    await client.query('COMMIT');
+    return { event: 'payment.settled', txHash };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Rebuild every balance by replaying the ledger in insertion order.
+ * Reports entries that would have overdrawn an account (ledger corruption).
+ */
+export async function replayFacilitatorLedger(): Promise<{
+  entries: number;
+  balances: Array<{ network: string; asset: string; address: string; balance: string }>;
+  overdrafts: Array<{ entryId: string; address: string; balance: string }>;
+}> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT id, entry_type, network, asset, from_address, to_address, value, nonce, tx_hash, created_at
+     FROM facilitator_ledger
+     ORDER BY id ASC`
+  );
+
+  const balances = new Map<string, bigint>();
+  const overdrafts: Array<{ entryId: string; address: string; balance: string }> = [];
+
+  for (const row of result.rows) {
+    const entry = mapLedgerRow(row);
+    const value = BigInt(entry.value);
+
+    if (entry.fromAddress) {
+      const fromKey = `${entry.network}|${entry.asset}|${entry.fromAddress}`;
+      const next = (balances.get(fromKey) ?? 0n) - value;
+      balances.set(fromKey, next);
+      if (next < 0n) {
+        overdrafts.push({ entryId: entry.id, address: entry.fromAddress, balance: next.toString() });
+      }
+    }
+
+    const toKey = `${entry.network}|${entry.asset}|${entry.toAddress}`;
+    balances.set(toKey, (balances.get(toKey) ?? 0n) + value);
+  }
+
+  return {
+    entries: result.rows.length,
+    balances: Array.from(balances.entries()).map(([key, balance]) => {
+      const [network, asset, address] = key.split('|');
+      return { network, asset, address, balance: balance.toString() };
+    }),
+    overdrafts,
+  };
+}
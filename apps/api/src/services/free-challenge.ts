@@ -0,0 +1,150 @@
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { SiweMessage } from 'siwe';
+import { getConfig } from '../config.js';
+import { getRedis } from '../lib/redis.js';
+
+const CHALLENGE_PREFIX = 'freechallenge:';
+
+export type FreeChallengeKind = 'pow' | 'signature';
+
+export interface FreeChallenge {
+  id: string;
+  moduleId: string;
+  nonce: string;
+  accepts: FreeChallengeKind[];
+  // Leading zero bits of sha256("<nonce>:<answer>"), when 'pow' is accepted
+  powDifficulty: number | null;
+  // SIWE statement to sign with `nonce`, when 'signature' is accepted
+  statement: string | null;
+  expiresAt: string;
+}
+
+export interface FreeChallengeAnswer {
+  id: string;
+  pow?: string;
+  message?: string;
+  signature?: string;
+}
+
+export type FreeChallengeResult =
+  | { passed: true; kind: FreeChallengeKind | 'session' | 'none'; walletAddress: string | null }
+  | { passed: false; reason: string };
+
+interface StoredChallenge {
+  moduleId: string;
+  nonce: string;
+  powDifficulty: number;
+}
+
+function getAcceptedKinds(): FreeChallengeKind[] {
+  const mode = getConfig().FREE_TIER_CHALLENGE;
+  if (mode === 'off') return [];
+  return mode === 'any' ? ['pow', 'signature'] : [mode];
+}
+
+export function isFreeChallengeRequired(): boolean {
+  return getAcceptedKinds().length > 0;
+}
+
+// The statement binds the signature to one module's free tier
+export function buildFreePreviewStatement(moduleId: string): string {
+  return `Request a free SoulForge preview of module ${moduleId}`;
+}
+
+// Number of leading zero bits in a hex digest
+function countLeadingZeroBits(hex: string): number {
+  let bits = 0;
+  for (const char of hex) {
+    const nibble = parseInt(char, 16);
+    if (nibble === 0) {
+      bits += 4;
+      continue;
+    }
+    return bits + Math.clz32(nibble) - 28;
+  }
+  return bits;
+}
+
+export function checkProofOfWork(nonce: string, answer: string, difficulty: number): boolean {
+  const digest = createHash('sha256').update(`${nonce}:${answer}`).digest('hex');
+  return countLeadingZeroBits(digest) >= difficulty;
+}
+
+/**
+ * Issue a single-use challenge for one free message on a module. The difficulty is fixed at
+ * issue time, so raising FREE_TIER_POW_DIFFICULTY does not invalidate challenges being solved.
+ */
+export async function issueFreeChallenge(moduleId: string): Promise<FreeChallenge> {
+  const config = getConfig();
+  const accepts = getAcceptedKinds();
+  const id = randomUUID();
+  const nonce = randomBytes(16).toString('hex');
+  const stored: StoredChallenge = { moduleId, nonce, powDifficulty: config.FREE_TIER_POW_DIFFICULTY };
+
+  await getRedis().set(
+    `${CHALLENGE_PREFIX}${id}`,
+    JSON.stringify(stored),
+    'EX',
+    config.FREE_TIER_CHALLENGE_TTL_SECONDS
+  );
+
+  return {
+    id,
+    moduleId,
+    nonce,
+    accepts,
+    powDifficulty: accepts.includes('pow') ? stored.powDifficulty : null,
+    statement: accepts.includes('signature') ? buildFreePreviewStatement(moduleId) : null,
+    expiresAt: new Date(Date.now() + config.FREE_TIER_CHALLENGE_TTL_SECONDS * 1000).toISOString(),
+  };
+}
+
+/**
+ * Check a request's right to a free message. A SIWE-authenticated buyer (`signedInWallet`) passes
+ * as-is; anyone else must answer an unexpired challenge, which is consumed whether or not the
+ * answer is right. Only signatures prove a wallet: a proof-of-work says nothing about who sent it.
+ */
+export async function verifyFreeChallenge(params: {
+  moduleId: string;
+  answer?: FreeChallengeAnswer;
+  signedInWallet?: string;
+}): Promise<FreeChallengeResult> {
+  if (params.signedInWallet) {
+    return { passed: true, kind: 'session', walletAddress: params.signedInWallet.toLowerCase() };
+  }
+
+  const accepts = getAcceptedKinds();
+  if (accepts.length === 0) return { passed: true, kind: 'none', walletAddress: null };
+  if (!params.answer) {
+    return { passed: false, reason: 'Free messages require an answered challenge' };
+  }
+
+  const raw = await getRedis().getdel(`${CHALLENGE_PREFIX}${params.answer.id}`);
+  if (!raw) return { passed: false, reason: 'Challenge is unknown, expired or already used' };
+  const challenge = JSON.parse(raw) as StoredChallenge;
+  if (challenge.moduleId !== params.moduleId) {
+    return { passed: false, reason: 'Challenge was issued for a different module' };
+  }
+
+  if (params.answer.message && params.answer.signature && accepts.includes('signature')) {
+    try {
+      const siweMessage = new SiweMessage(params.answer.message);
+      const fields = await siweMessage.verify({ signature: params.answer.signature, nonce: challenge.nonce });
+      if (!fields.success || siweMessage.statement !== buildFreePreviewStatement(params.moduleId)) {
+        return { passed: false, reason: 'Challenge signature is invalid' };
+      }
+      return { passed: true, kind: 'signature', walletAddress: siweMessage.address.toLowerCase() };
+    } catch {
+      return { passed: false, reason: 'Challenge signature is invalid' };
+    }
+  }
+
+  if (params.answer.pow !== undefined && accepts.includes('pow')) {
+    if (!checkProofOfWork(challenge.nonce, params.answer.pow, challenge.powDifficulty)) {
+      return { passed: false, reason: 'Proof-of-work does not meet the difficulty' };
+    }
+    return { passed: true, kind: 'pow', walletAddress: null };
+  }
+
+  return { passed: false, reason: `Challenge must be answered with: ${accepts.join(' or ')}` };
+}
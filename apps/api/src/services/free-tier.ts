@@ -0,0 +1,176 @@
+import type { FreeTierPolicy } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getRedis } from '../lib/redis.js';
+
+const FREE_TIER_PREFIX = 'freetier:';
+const FREE_TIER_BUDGET_PREFIX = 'freebudget:';
+const FREE_TIER_WINDOW_SECONDS = 24 * 60 * 60; // 24 hours
+// Budget keys are per UTC day; keep them a little past midnight
+const FREE_TIER_BUDGET_TTL_SECONDS = 2 * 24 * 60 * 60;
+
+// Modules without a policy keep the original try-once behaviour: one truncated preview a day
+export const DEFAULT_FREE_TIER_POLICY: FreeTierPolicy = {
+  messagesPerDay: 1,
+  fullAnswers: false,
+  requireWallet: false,
+};
+
+// Output limit for truncated previews (to prevent abuse)
+const PREVIEW_MAX_CHARS = 500;
+
+export interface FreeTierIdentifier {
+  moduleId: string;
+  walletAddress?: string;
+  ipAddress?: string;
+}
+
+export type FreeTierClaim =
+  | { claimed: true; used: number; remaining: number; release: () => Promise<void> }
+  | { claimed: false; reason: string; used: number; resetsInSeconds: number | null };
+
+export function resolveFreeTierPolicy(stored: FreeTierPolicy | null | undefined): FreeTierPolicy {
+  return stored ?? DEFAULT_FREE_TIER_POLICY;
+}
+
+// Build the Redis key for free tier counters
+function buildKey(moduleId: string, identifier: string): string {
+  return `${FREE_TIER_PREFIX}${moduleId}:${identifier}`;
+}
+
+// The module's free messages per UTC day across all buyers: the platform cap, lowered by the seller's own
+function getModuleDailyBudget(policy: FreeTierPolicy): number | null {
+  const platform = getConfig().FREE_TIER_MODULE_DAILY_BUDGET || null;
+  if (policy.dailyBudget === undefined) return platform;
+  return platform === null ? policy.dailyBudget : Math.min(platform, policy.dailyBudget);
+}
+
+function getSecondsUntilUtcMidnight(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+function buildBudgetKey(moduleId: string): string {
+  return `${FREE_TIER_BUDGET_PREFIX}${moduleId}:${new Date().toISOString().slice(0, 10)}`;
+}
+
+// Wallet and IP are counted separately; a buyer is limited by whichever has used more
+function getKeys(params: FreeTierIdentifier): string[] {
+  const keys: string[] = [];
+  if (params.walletAddress) keys.push(buildKey(params.moduleId, `wallet:${params.walletAddress.toLowerCase()}`));
+  if (params.ipAddress) keys.push(buildKey(params.moduleId, `ip:${params.ipAddress}`));
+  return keys;
+}
+
+async function getResetSeconds(keys: string[]): Promise<number | null> {
+  const redis = getRedis();
+  const ttls = await Promise.all(keys.map((key) => redis.ttl(key)));
+  const max = Math.max(0, ...ttls);
+  return max > 0 ? max : null;
+}
+
+/**
+ * Take one free message under the module's policy and daily budget. The counters are incremented
+ * up front so concurrent requests cannot share the last free message; call `release` if no answer
+ * was served.
+ */
+export async function claimFreeMessage(params: FreeTierIdentifier, policy: FreeTierPolicy): Promise<FreeTierClaim> {
+  if (policy.messagesPerDay === 0) {
+    return { claimed: false, reason: 'This module has no free tier', used: 0, resetsInSeconds: null };
+  }
+  if (policy.requireWallet && !params.walletAddress) {
+    return { claimed: false, reason: 'Connect a wallet to use the free tier', used: 0, resetsInSeconds: null };
+  }
+
+  const keys = getKeys(params);
+  if (keys.length === 0) {
+    return { claimed: false, reason: 'No identifier provided', used: 0, resetsInSeconds: null };
+  }
+
+  const redis = getRedis();
+  const budget = getModuleDailyBudget(policy);
+  const budgetKey = buildBudgetKey(params.moduleId);
+  const pipeline = redis.pipeline();
+  for (const key of keys) {
+    // The window starts with the first free message; INCR keeps the TTL
+    pipeline.set(key, 0, 'EX', FREE_TIER_WINDOW_SECONDS, 'NX');
+    pipeline.incr(key);
+  }
+  if (budget !== null) {
+    pipeline.set(budgetKey, 0, 'EX', FREE_TIER_BUDGET_TTL_SECONDS, 'NX');
+    pipeline.incr(budgetKey);
+  }
+  const results = (await pipeline.exec()) ?? [];
+  const counts = results.filter((_, index) => index % 2 === 1).map(([, value]) => Number(value));
+  const used = Math.max(...counts.slice(0, keys.length));
+  const budgetUsed = budget !== null ? counts[keys.length] : 0;
+
+  const release = async () => {
+    const undo = redis.pipeline();
+    for (const key of keys) undo.decr(key);
+    if (budget !== null) undo.decr(budgetKey);
+    await undo.exec();
+  };
+
+  if (budget !== null && budgetUsed > budget) {
+    await release();
+    return {
+      claimed: false,
+      reason: 'This module has given out all its free messages for today',
+      used: used - 1,
+      resetsInSeconds: getSecondsUntilUtcMidnight(),
+    };
+  }
+
+  if (used > policy.messagesPerDay) {
+    await release();
+    return {
+      claimed: false,
+      reason: 'Free messages for today are used up',
+      used: policy.messagesPerDay,
+      resetsInSeconds: await getResetSeconds(keys),
+    };
+  }
+
+  return { claimed: true, used, remaining: policy.messagesPerDay - used, release };
+}
+
+// Free messages used in the current window, and when it resets (for UI display)
+export async function getFreeTierUsage(
+  params: FreeTierIdentifier
+): Promise<{ used: number; resetsInSeconds: number | null }> {
+  const keys = getKeys(params);
+  if (keys.length === 0) return { used: 0, resetsInSeconds: null };
+
+  const redis = getRedis();
+  const values = await redis.mget(...keys);
+  return {
+    used: Math.max(0, ...values.map((value) => Number(value ?? 0))),
+    resetsInSeconds: await getResetSeconds(keys),
+  };
+}
+
+// Clear free tier counters (for testing/admin)
+export async function clearFreeTierUsage(params: FreeTierIdentifier): Promise<void> {
+  const keys = getKeys(params);
+  if (keys.length > 0) {
+    await getRedis().del(...keys);
+  }
+}
+
+// Truncate a free answer to a preview
+export function truncateFreePreview(response: string): string {
+  if (response.length <= PREVIEW_MAX_CHARS) {
+    return response;
+  }
+
+  // Find a good break point
+  const truncated = response.slice(0, PREVIEW_MAX_CHARS);
+  const lastSpace = truncated.lastIndexOf(' ');
+
+  if (lastSpace > PREVIEW_MAX_CHARS * 0.8) {
+    return truncated.slice(0, lastSpace) + '... [Preview truncated. Pay to see full response]';
+  }
+
+  return truncated + '... [Preview truncated. Pay to see full response]';
+}
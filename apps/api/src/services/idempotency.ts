@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+
+// An 'in_progress' claim older than this is assumed abandoned (process died mid-request)
+const STALE_CLAIM_INTERVAL = '5 minutes';
+
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'in_progress' }
+  | { status: 'mismatch' }
+  | { status: 'replay'; responseStatus: number; responseBody: unknown; paymentResponse: string | null };
+
+/**
+ * Idempotency-Key values: 1-255 visible ASCII characters
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+  return /^[\x21-\x7e]{1,255}$/.test(key);
+}
+
+/**
+ * Fingerprint of what a chat request asks for; a key may only be reused for the same request
+ */
+export function computeChatFingerprint(params: {
+  moduleId: string;
+  chatId?: string | null;
+  message: string;
+  mode?: string;
+  tierId?: string;
+}): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        moduleId: params.moduleId,
+        chatId: params.chatId ?? null,
+        message: params.message,
+        mode: params.mode ?? null,
+        tierId: params.tierId ?? null,
+      })
+    )
+    .digest('hex');
+}
+
+/**
+ * Who is sending a chat request, so a key only ever replays to its own caller: the signed-in wallet,
+ * else a hash of the X-PAYMENT or X-SESSION-PASS credential (only its holder can resend it), else the client IP
+ */
+export function getIdempotencyCaller(params: {
+  signedInWallet?: string;
+  paymentHeader?: string;
+  sessionPassToken?: string;
+  clientIp: string;
+}): string {
+  if (params.signedInWallet) return `wallet:${params.signedInWallet.toLowerCase()}`;
+  if (params.paymentHeader) return `payment:${createHash('sha256').update(params.paymentHeader).digest('hex')}`;
+  if (params.sessionPassToken) {
+    return `session:${createHash('sha256').update(params.sessionPassToken).digest('hex')}`;
+  }
+  return `ip:${params.clientIp}`;
+}
+
+/**
+ * Claim a caller's key for a request, or report what happened to the request that used it first.
+ * Expired keys and stale claims for the same request are taken over.
+ */
+export async function claimIdempotencyKey(params: {
+  moduleId: string;
+  caller: string;
+  key: string;
+  fingerprint: string;
+}): Promise<IdempotencyClaim> {
+  const pool = getPool();
+  const inserted = await pool.query(
+    `INSERT INTO idempotency_keys (module_id, caller, idempotency_key, fingerprint, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + ($5::int * INTERVAL '1 hour'))
+     ON CONFLICT (module_id, caller, idempotency_key) DO UPDATE
+       SET fingerprint = EXCLUDED.fingerprint, status = 'in_progress', response_status = NULL,
+           response_body = NULL, payment_response = NULL, created_at = NOW(), completed_at = NULL,
+           expires_at = EXCLUDED.expires_at
+       WHERE idempotency_keys.expires_at < NOW()
+          OR (idempotency_keys.status = 'in_progress'
+              AND idempotency_keys.fingerprint = EXCLUDED.fingerprint
+              AND idempotency_keys.created_at < NOW() - INTERVAL '${STALE_CLAIM_INTERVAL}')
+     RETURNING idempotency_key`,
+    [params.moduleId, params.caller, params.key, params.fingerprint, getConfig().IDEMPOTENCY_KEY_TTL_HOURS]
+  );
+  if ((inserted.rowCount ?? 0) > 0) return { status: 'claimed' };
+
+  const existing = await pool.query(
+    `SELECT fingerprint, status, response_status, response_body, payment_response
+     FROM idempotency_keys WHERE module_id = $1 AND caller = $2 AND idempotency_key = $3`,
+    [params.moduleId, params.caller, params.key]
+  );
+  // Released between our insert and select: let the caller go ahead without a claim
+  if (existing.rows.length === 0) return claimIdempotencyKey(params);
+
+  const row = existing.rows[0];
+  if (row.fingerprint !== params.fingerprint) return { status: 'mismatch' };
+  if (row.status !== 'completed') return { status: 'in_progress' };
+  return {
+    status: 'replay',
+    responseStatus: row.response_status as number,
+    responseBody: row.response_body,
+    paymentResponse: (row.payment_response as string | null) ?? null,
+  };
+}
+
+/**
+ * Store the final response so retries with the same key replay it
+ */
+export async function completeIdempotencyKey(params: {
+  moduleId: string;
+  caller: string;
+  key: string;
+  responseStatus: number;
+  responseBody: unknown;
+  paymentResponse: string | null;
+}): Promise<void> {
+  const pool = getPool();
+  await pool.query(
+    `UPDATE idempotency_keys
+     SET status = 'completed', response_status = $4, response_body = $5, payment_response = $6, completed_at = NOW()
+     WHERE module_id = $1 AND caller = $2 AND idempotency_key = $3`,
+    [
+      params.moduleId,
+      params.caller,
+      params.key,
+      params.responseStatus,
+      JSON.stringify(params.responseBody),
+      params.paymentResponse,
+    ]
+  );
+}
+
+/**
+ * Drop a claim whose request ended without charging (e.g. a 402 challenge), so the key can be retried
+ */
+export async function releaseIdempotencyKey(params: { moduleId: string; caller: string; key: string }): Promise<void> {
+  const pool = getPool();
+  await pool.query(
+    `DELETE FROM idempotency_keys
+     WHERE module_id = $1 AND caller = $2 AND idempotency_key = $3 AND status = 'in_progress'`,
+    [params.moduleId, params.caller, params.key]
+  );
+}
@@ -0,0 +1,186 @@
+import { randomBytes, createCipheriv, createDecipheriv } from 'crypto';
+import { generatePrivateKey, privateKeyToAccount, signTypedData } from 'viem/accounts';
+import { getConfig } from '../config.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12; // 96 bits for GCM
+const AUTH_TAG_LENGTH = 16; // 128 bits
+
+export const LOCAL_KEY_PROVIDER = 'local';
+
+/**
+ * An agent wallet key as stored in agent_wallets
+ */
+export interface StoredAgentKey {
+  walletAddress: string;
+  keyProvider: string;
+  // 'local': AES-GCM ciphertext of the private key; external providers: their key reference
+  keyMaterial: string;
+  // Master key version that encrypted keyMaterial (null for external providers)
+  encryptionKeyVersion: number | null;
+}
+
+export interface TypedDataToSign {
+  domain: {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract?: `0x${string}`;
+  };
+  types: Record<string, Array<{ name: string; type: string }>>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+/**
+ * Custody backend for agent wallet keys. The local provider keeps encrypted keys in Postgres;
+ * external signers (KMS, HSM, remote signing service) keep the key and only return signatures.
+ */
+export interface AgentKeyProvider {
+  readonly id: string;
+  createKey(): Promise<Omit<StoredAgentKey, 'keyProvider'>>;
+  signTypedData(key: StoredAgentKey, typedData: TypedDataToSign): Promise<`0x${string}`>;
+}
+
+/**
+ * Parse a base64 master key, which must be 32 bytes (256 bits) for AES-256
+ */
+function parseMasterKey(keyStr: string, label: string): Buffer {
+  const key = Buffer.from(keyStr, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${label} must be 32 bytes (got ${key.length}). Generate with: openssl rand -base64 32`);
+  }
+  return key;
+}
+
+/**
+ * Master keys by version: the current AGENT_WALLET_ENCRYPTION_KEY plus any
+ * AGENT_WALLET_PREVIOUS_ENCRYPTION_KEYS ("version:base64key" pairs, comma separated) kept for a rollover
+ */
+export function getMasterKeys(): { currentVersion: number; keys: Map<number, Buffer> } {
+  const config = getConfig();
+  if (!config.AGENT_WALLET_ENCRYPTION_KEY) {
+    throw new Error('AGENT_WALLET_ENCRYPTION_KEY not configured');
+  }
+
+  const currentVersion = config.AGENT_WALLET_ENCRYPTION_KEY_VERSION;
+  const keys = new Map<number, Buffer>();
+
+  for (const entry of (config.AGENT_WALLET_PREVIOUS_ENCRYPTION_KEYS ?? '').split(',')) {
+    if (!entry.trim()) continue;
+    const sep = entry.indexOf(':');
+    const version = Number(entry.slice(0, sep).trim());
+    if (sep === -1 || !Number.isInteger(version) || version <= 0) {
+      throw new Error('AGENT_WALLET_PREVIOUS_ENCRYPTION_KEYS entries must look like "<version>:<base64 key>"');
+    }
+    keys.set(version, parseMasterKey(entry.slice(sep + 1).trim(), `Previous encryption key v${version}`));
+  }
+  keys.set(currentVersion, parseMasterKey(config.AGENT_WALLET_ENCRYPTION_KEY, 'AGENT_WALLET_ENCRYPTION_KEY'));
+
+  return { currentVersion, keys };
+}
+
+function getMasterKey(version: number): Buffer {
+  const key = getMasterKeys().keys.get(version);
+  if (!key) {
+    throw new Error(`No master key configured for encryption key version ${version}`);
+  }
+  return key;
+}
+
+/**
+ * Encrypt a private key with the current master key using AES-256-GCM.
+ * Ciphertext is base64 of: iv + authTag + ciphertext
+ */
+export function encryptPrivateKey(privateKey: string): { ciphertext: string; version: number } {
+  const { currentVersion } = getMasterKeys();
+  const key = getMasterKey(currentVersion);
+  const iv = randomBytes(IV_LENGTH);
+
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return { ciphertext: Buffer.concat([iv, authTag, encrypted]).toString('base64'), version: currentVersion };
+}
+
+/**
+ * Decrypt a private key with the master key version that encrypted it
+ */
+export function decryptPrivateKey(encryptedData: string, version: number): string {
+  const key = getMasterKey(version);
+  const data = Buffer.from(encryptedData, 'base64');
+
+  const iv = data.subarray(0, IV_LENGTH);
+  const authTag = data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const ciphertext = data.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Default provider: keys generated in-process and stored AES-GCM encrypted under a versioned master key
+ */
+const localKeyProvider: AgentKeyProvider = {
+  id: LOCAL_KEY_PROVIDER,
+
+  async createKey() {
+    const privateKey = generatePrivateKey();
+    const { ciphertext, version } = encryptPrivateKey(privateKey);
+    return {
+      walletAddress: privateKeyToAccount(privateKey).address,
+      keyMaterial: ciphertext,
+      encryptionKeyVersion: version,
+    };
+  },
+
+  async signTypedData(key, typedData) {
+    if (key.encryptionKeyVersion === null) {
+      throw new Error(`Agent wallet ${key.walletAddress} has no encryption key version`);
+    }
+    const privateKey = decryptPrivateKey(key.keyMaterial, key.encryptionKeyVersion) as `0x${string}`;
+    return signTypedData({
+      privateKey,
+      domain: typedData.domain,
+      types: typedData.types,
+      primaryType: typedData.primaryType,
+      message: typedData.message,
+    });
+  },
+};
+
+const providers = new Map<string, AgentKeyProvider>([[LOCAL_KEY_PROVIDER, localKeyProvider]]);
+
+/**
+ * Register an external signer; select it for new wallets with AGENT_WALLET_KEY_PROVIDER
+ */
+export function registerKeyProvider(provider: AgentKeyProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getKeyProvider(id: string = getConfig().AGENT_WALLET_KEY_PROVIDER): AgentKeyProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Agent wallet key provider "${id}" is not registered`);
+  }
+  return provider;
+}
+
+/**
+ * Re-encrypt a local key under the current master key. Returns null if it already uses it.
+ */
+export function reencryptLocalKey(key: StoredAgentKey): { ciphertext: string; version: number } | null {
+  if (key.keyProvider !== LOCAL_KEY_PROVIDER || key.encryptionKeyVersion === null) {
+    throw new Error(`Agent wallet ${key.walletAddress} is not held by the local key provider`);
+  }
+  if (key.encryptionKeyVersion === getMasterKeys().currentVersion) return null;
+
+  const privateKey = decryptPrivateKey(key.keyMaterial, key.encryptionKeyVersion);
+  if (privateKeyToAccount(privateKey as `0x${string}`).address.toLowerCase() !== key.walletAddress.toLowerCase()) {
+    throw new Error(`Decrypted key does not match agent wallet ${key.walletAddress}`);
+  }
+  return encryptPrivateKey(privateKey);
+}
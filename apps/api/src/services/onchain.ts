@@ -1,4 +1,3 @@
-import { getConfig } from '../config.js';
 import {
   TransactionReceiptNotFoundError,
   createPublicClient,
@@ -8,21 +7,15 @@ import {
   parseAbiItem,
   type Hex,
 } from 'viem';
-import { cronos, cronosTestnet } from 'viem/chains';
+import { getChainDefinition, getRpcUrl, type ChainDefinition } from './chains.js';
 
 const transferEvent = parseAbiItem('event Transfer(address indexed from, address indexed to, uint256 value)');
+const balanceOfFunction = parseAbiItem('function balanceOf(address owner) view returns (uint256)');
 
-type SupportedNetwork = 'cronos-testnet' | 'cronos-mainnet';
-
-function normalizeNetwork(network: string): SupportedNetwork {
-  const normalized = network.trim().toLowerCase();
-  if (normalized === 'cronos-testnet') return 'cronos-testnet';
-  if (normalized === 'cronos-mainnet' || normalized === 'cronos') return 'cronos-mainnet';
-  throw new Error(`Unsupported network: ${network}`);
-}
-
-function getChain(network: SupportedNetwork) {
-  return network === 'cronos-testnet' ? cronosTestnet : cronos;
+function resolveNetwork(network: string): ChainDefinition {
+  const def = getChainDefinition(network);
+  if (!def) throw new Error(`Unsupported network: ${network}`);
+  return def;
 }
 
 function normalizeAddress(value: string): string {
@@ -37,7 +30,7 @@ type VerifyPaymentTxResult =
   | {
       status: 'confirmed';
       txHash: string;
-      network: SupportedNetwork;
+      network: string;
       blockNumber: string;
       blockTimestamp: string; // ISO
       from: string;
@@ -77,18 +70,16 @@ function setCached(key: string, value: VerifyPaymentTxResult): void {
 const clientCache = new Map<string, ReturnType<typeof createPublicClient>>();
 const blockTimestampCache = new Map<string, string>();
 
-function getPublicClientForNetwork(network: SupportedNetwork) {
-  const config = getConfig();
-  const chain = getChain(network);
-
-  const rpcUrl = config.X402_RPC_URL || chain.rpcUrls.default.http[0];
-  const cacheKey = `${network}:${rpcUrl}`;
+function getPublicClientForNetwork(def: ChainDefinition) {
+  const rpcUrl = getRpcUrl(def);
+  if (!rpcUrl) throw new Error(`No RPC URL configured for network: ${def.network}`);
+  const cacheKey = `${def.network}:${rpcUrl}`;
 
   const existing = clientCache.get(cacheKey);
   if (existing) return existing;
 
   const client = createPublicClient({
-    chain,
+    chain: def.chain,
     transport: http(rpcUrl),
   });
   clientCache.set(cacheKey, client);
@@ -97,7 +88,7 @@ function getPublicClientForNetwork(network: SupportedNetwork) {
 
 export type TokenTransfer = {
   txHash: string;
-  network: SupportedNetwork;
+  network: string;
   assetContract: string;
   blockNumber: string;
   blockTimestamp: string; // ISO
@@ -129,7 +120,7 @@ async function findBlockNumberByTimestamp(params: {
 
 async function getBlockTimestampIso(params: {
   client: ReturnType<typeof createPublicClient>;
-  network: SupportedNetwork;
+  network: string;
   blockNumber: bigint;
 }): Promise<string> {
   const key = `${params.network}:${params.blockNumber.toString()}`;
@@ -200,27 +191,47 @@ async function getLogsChunked<TLog>(params: {
   return logs;
 }
 
+/**
+ * ERC-20 balance of an address, in the token's smallest units
+ */
+export async function getTokenBalance(params: {
+  network: string;
+  assetContract: string;
+  address: string;
+}): Promise<string> {
+  const client = getPublicClientForNetwork(resolveNetwork(params.network));
+  const balance = await client.readContract({
+    address: normalizeAddress(params.assetContract) as `0x${string}`,
+    abi: [balanceOfFunction],
+    functionName: 'balanceOf',
+    args: [normalizeAddress(params.address) as `0x${string}`],
+  });
+  return balance.toString();
+}
+
 export async function listTokenTransfersToAddresses(params: {
   network: string;
   assetContract: string;
   toAddresses: string[];
   fromTimestampMs: number;
 }): Promise<{ transfers: TokenTransfer[]; meta: { fromBlock: string; toBlock: string } }> {
-  let network: SupportedNetwork;
+  let chainDef: ChainDefinition;
+  let client: ReturnType<typeof getPublicClientForNetwork>;
   try {
-    network = normalizeNetwork(params.network);
+    chainDef = resolveNetwork(params.network);
+    client = getPublicClientForNetwork(chainDef);
   } catch (err) {
     return {
       transfers: [],
       meta: { fromBlock: '0', toBlock: '0' },
     };
   }
+  const network = chainDef.network;
 
   if (params.toAddresses.length === 0) {
     return { transfers: [], meta: { fromBlock: '0', toBlock: '0' } };
   }
 
-  const client = getPublicClientForNetwork(network);
   const assetContract = normalizeAddress(params.assetContract) as `0x${string}`;
   const toAddresses = params.toAddresses.map((a) => normalizeAddress(a) as `0x${string}`);
 
@@ -265,6 +276,88 @@ export async function listTokenTransfersToAddresses(params: {
   };
 }
 
+export type IndexedTokenTransfer = TokenTransfer & { blockHash: string };
+
+/**
+ * Latest block number and the block at or after `timestampMs` (for an indexer's first run)
+ */
+export async function getBlockRange(params: {
+  network: string;
+  fromTimestampMs?: number;
+}): Promise<{ head: bigint; fromBlock: bigint | null }> {
+  const client = getPublicClientForNetwork(resolveNetwork(params.network));
+  const head = await client.getBlockNumber();
+  if (params.fromTimestampMs === undefined) return { head, fromBlock: null };
+
+  const fromBlock = await findBlockNumberByTimestamp({
+    client,
+    targetTimestampSec: BigInt(Math.floor(params.fromTimestampMs / 1000)),
+  });
+  return { head, fromBlock };
+}
+
+/**
+ * ISO timestamp of a block (cached per block number)
+ */
+export async function getBlockTimestamp(params: { network: string; blockNumber: bigint }): Promise<string> {
+  const chainDef = resolveNetwork(params.network);
+  return getBlockTimestampIso({
+    client: getPublicClientForNetwork(chainDef),
+    network: chainDef.network,
+    blockNumber: params.blockNumber,
+  });
+}
+
+/**
+ * Every Transfer log of an asset in [fromBlock, toBlock] (to any address), oldest first, with block
+ * hashes so callers can detect reorgs. Unlike listTokenTransfersToAddresses this throws on RPC errors.
+ */
+export async function getTokenTransferLogs(params: {
+  network: string;
+  assetContract: string;
+  fromBlock: bigint;
+  toBlock: bigint;
+}): Promise<IndexedTokenTransfer[]> {
+  const chainDef = resolveNetwork(params.network);
+  const client = getPublicClientForNetwork(chainDef);
+  const network = chainDef.network;
+  const assetContract = normalizeAddress(params.assetContract) as `0x${string}`;
+
+  const logs = await getLogsChunked({
+    client,
+    fromBlock: params.fromBlock,
+    toBlock: params.toBlock,
+    getLogs: (from, to) =>
+      client.getLogs({
+        address: assetContract,
+        event: transferEvent,
+        fromBlock: from,
+        toBlock: to,
+      }),
+  });
+
+  const transfers = await mapWithConcurrency(logs, 10, async (log) => {
+    const ts = await getBlockTimestampIso({ client, network, blockNumber: log.blockNumber });
+    return {
+      txHash: log.transactionHash.toLowerCase(),
+      network,
+      assetContract,
+      blockNumber: log.blockNumber.toString(),
+      blockHash: log.blockHash.toLowerCase(),
+      blockTimestamp: ts,
+      logIndex: log.logIndex,
+      from: normalizeAddress(log.args.from!),
+      to: normalizeAddress(log.args.to!),
+      value: log.args.value!.toString(),
+    } satisfies IndexedTokenTransfer;
+  });
+
+  transfers.sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : BigInt(a.blockNumber) < BigInt(b.blockNumber) ? -1 : 1
+  );
+  return transfers;
+}
+
 export async function verifyPaymentTxOnchain(params: {
   txHash: string;
   network: string;
@@ -296,9 +389,11 @@ export async function verifyPaymentTxOnchain(params: {
     return result;
   }
 
-  let network: SupportedNetwork;
+  let chainDef: ChainDefinition;
+  let client: ReturnType<typeof getPublicClientForNetwork>;
   try {
-    network = normalizeNetwork(params.network);
+    chainDef = resolveNetwork(params.network);
+    client = getPublicClientForNetwork(chainDef);
   } catch (err) {
     const result: VerifyPaymentTxResult = {
       status: 'unsupported_network',
@@ -309,8 +404,8 @@ export async function verifyPaymentTxOnchain(params: {
     setCached(cacheKey, result);
     return result;
   }
+  const network = chainDef.network;
 
-  const client = getPublicClientForNetwork(network);
   const asset = normalizeAddress(params.assetContract);
   const expectedTo = normalizeAddress(params.expectedTo);
   const expectedFrom = params.expectedFrom ? normalizeAddress(params.expectedFrom) : undefined;
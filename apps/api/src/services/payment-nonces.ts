@@ -0,0 +1,88 @@
+import { getPool } from '../lib/db.js';
+import { getRedis } from '../lib/redis.js';
+
+const NONCE_PREFIX = 'x402nonce:';
+const NONCE_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+export interface PaymentNonceKey {
+  payer: string;
+  asset: string;
+  nonce: string;
+}
+
+function normalizeKey(key: PaymentNonceKey): PaymentNonceKey {
+  return {
+    payer: key.payer.trim().toLowerCase(),
+    asset: key.asset.trim().toLowerCase(),
+    nonce: key.nonce.trim().toLowerCase(),
+  };
+}
+
+// Build the Redis key for the nonce fast path
+function buildRedisKey(key: PaymentNonceKey): string {
+  return `${NONCE_PREFIX}${key.payer}:${key.asset}:${key.nonce}`;
+}
+
+/**
+ * Check whether an EIP-3009 authorization nonce has already been consumed.
+ * Redis only caches positive hits; Postgres is the source of truth.
+ */
+export async function isPaymentNonceUsed(key: PaymentNonceKey): Promise<boolean> {
+  const normalized = normalizeKey(key);
+  const redis = getRedis();
+  const redisKey = buildRedisKey(normalized);
+
+  if (await redis.exists(redisKey)) return true;
+
+  const pool = getPool();
+  const result = await pool.query(
+    'SELECT 1 FROM payment_nonces WHERE payer = $1 AND asset = $2 AND nonce = $3',
+    [normalized.payer, normalized.asset, normalized.nonce]
+  );
+
+  if ((result.rowCount ?? 0) > 0) {
+    await redis.setex(redisKey, NONCE_CACHE_TTL_SECONDS, '1');
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Atomically claim a nonce before settlement.
+ * Returns false if the nonce was already claimed (replayed authorization).
+ */
+export async function claimPaymentNonce(key: PaymentNonceKey & { network: string }): Promise<boolean> {
+  const normalized = normalizeKey(key);
+  const redis = getRedis();
+  const redisKey = buildRedisKey(normalized);
+
+  if (await redis.exists(redisKey)) return false;
+
+  const pool = getPool();
+  const result = await pool.query(
+    `INSERT INTO payment_nonces (payer, asset, nonce, network)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (payer, asset, nonce) DO NOTHING
+     RETURNING nonce`,
+    [normalized.payer, normalized.asset, normalized.nonce, key.network]
+  );
+
+  await redis.setex(redisKey, NONCE_CACHE_TTL_SECONDS, '1');
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Release a claimed nonce when settlement failed before any funds moved,
+ * so the buyer can retry with the same authorization.
+ */
+export async function releasePaymentNonce(key: PaymentNonceKey): Promise<void> {
+  const normalized = normalizeKey(key);
+  const pool = getPool();
+  await pool.query('DELETE FROM payment_nonces WHERE payer = $1 AND asset = $2 AND nonce = $3', [
+    normalized.payer,
+    normalized.asset,
+    normalized.nonce,
+  ]);
+  await getRedis().del(buildRedisKey(normalized));
+}
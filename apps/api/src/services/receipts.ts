@@ -0,0 +1,194 @@
+import { randomUUID } from 'crypto';
+import { getAddress, keccak256, toHex, verifyTypedData, type Address, type Hex } from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
+import type { PaymentReceipt } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+
+const DEV_JWT_SECRET = 'insecure-dev-secret-change-in-production';
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+export const RECEIPT_DOMAIN = { name: 'SoulForge Receipt', version: '1' } as const;
+
+export const RECEIPT_TYPES = {
+  Receipt: [
+    { name: 'receiptId', type: 'string' },
+    { name: 'paymentId', type: 'string' },
+    { name: 'moduleId', type: 'string' },
+    { name: 'payer', type: 'address' },
+    { name: 'payTo', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'network', type: 'string' },
+    { name: 'asset', type: 'address' },
+    { name: 'txHash', type: 'string' },
+    { name: 'requestHash', type: 'bytes32' },
+    { name: 'responseHash', type: 'bytes32' },
+    { name: 'issuedAt', type: 'uint256' },
+  ],
+} as const;
+
+let signer: PrivateKeyAccount | null = null;
+
+/**
+ * Receipt signing account. Without RECEIPT_SIGNING_KEY a key is derived from JWT_SECRET
+ * (development only: receipts stay verifiable across restarts but the key is not independent).
+ */
+export function getReceiptSigner(): PrivateKeyAccount {
+  if (!signer) {
+    const config = getConfig();
+    const key = (config.RECEIPT_SIGNING_KEY ??
+      keccak256(toHex(`receipt-signing:${config.JWT_SECRET || DEV_JWT_SECRET}`))) as Hex;
+    signer = privateKeyToAccount(key);
+  }
+  return signer;
+}
+
+/**
+ * Hash of what the buyer asked for: keccak256 of JSON {moduleId, chatId, message}
+ */
+export function hashChatRequest(params: { moduleId: string; chatId: string | null; message: string }): Hex {
+  return keccak256(
+    toHex(JSON.stringify({ moduleId: params.moduleId, chatId: params.chatId, message: params.message }))
+  );
+}
+
+/**
+ * Hash of what the buyer got: keccak256 of the reply text
+ */
+export function hashChatResponse(reply: string): Hex {
+  return keccak256(toHex(reply));
+}
+
+function toAddress(value: string): Address {
+  return /^0x[a-fA-F0-9]{40}$/.test(value) ? getAddress(value.toLowerCase()) : ZERO_ADDRESS;
+}
+
+// The EIP-712 message a receipt's signature covers
+function buildReceiptMessage(receipt: Omit<PaymentReceipt, 'signer' | 'signature'>) {
+  return {
+    receiptId: receipt.id,
+    paymentId: receipt.paymentId,
+    moduleId: receipt.moduleId,
+    payer: toAddress(receipt.payer),
+    payTo: toAddress(receipt.payTo),
+    amount: BigInt(receipt.amount),
+    network: receipt.network,
+    asset: toAddress(receipt.asset),
+    txHash: receipt.txHash,
+    requestHash: receipt.requestHash as Hex,
+    responseHash: receipt.responseHash as Hex,
+    issuedAt: BigInt(receipt.issuedAt),
+  };
+}
+
+/**
+ * Typed data for independent verification (e.g. viem verifyTypedData or ethers verifyTypedData)
+ */
+export function getReceiptTypedData(receipt: PaymentReceipt) {
+  const message = buildReceiptMessage(receipt);
+  return {
+    domain: RECEIPT_DOMAIN,
+    types: RECEIPT_TYPES,
+    primaryType: 'Receipt' as const,
+    message: { ...message, amount: message.amount.toString(), issuedAt: message.issuedAt.toString() },
+  };
+}
+
+function mapReceiptRow(row: Record<string, unknown>): PaymentReceipt {
+  return {
+    id: row.id as string,
+    paymentId: row.payment_id as string,
+    moduleId: row.module_id as string,
+    payer: row.payer as string,
+    payTo: row.pay_to as string,
+    amount: row.amount as string,
+    network: row.network as string,
+    asset: row.asset as string,
+    txHash: row.tx_hash as string,
+    requestHash: row.request_hash as string,
+    responseHash: row.response_hash as string,
+    issuedAt: Number(row.issued_at),
+    signer: row.signer as string,
+    signature: row.signature as string,
+  };
+}
+
+/**
+ * Sign and store a receipt for a settled payment. Idempotent per payment.
+ */
+export async function issueReceipt(params: {
+  paymentId: string;
+  moduleId: string;
+  payer: string;
+  payTo: string;
+  amount: string;
+  network: string;
+  asset: string;
+  txHash: string;
+  requestHash: Hex;
+  responseHash: Hex;
+}): Promise<PaymentReceipt> {
+  const account = getReceiptSigner();
+  const unsigned = {
+    ...params,
+    id: randomUUID(),
+    issuedAt: Math.floor(Date.now() / 1000),
+  };
+
+  const signature = await account.signTypedData({
+    domain: RECEIPT_DOMAIN,
+    types: RECEIPT_TYPES,
+    primaryType: 'Receipt',
+    message: buildReceiptMessage(unsigned),
+  });
+
+  const pool = getPool();
+  const result = await pool.query(
+    `INSERT INTO payment_receipts (id, payment_id, module_id, payer, pay_to, amount, network, asset, tx_hash,
+                                   request_hash, response_hash, issued_at, signer, signature)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     ON CONFLICT (payment_id) DO UPDATE SET payment_id = EXCLUDED.payment_id
+     RETURNING *`,
+    [
+      unsigned.id,
+      unsigned.paymentId,
+      unsigned.moduleId,
+      unsigned.payer.toLowerCase(),
+      unsigned.payTo.toLowerCase(),
+      unsigned.amount,
+      unsigned.network,
+      unsigned.asset.toLowerCase(),
+      unsigned.txHash,
+      unsigned.requestHash,
+      unsigned.responseHash,
+      unsigned.issuedAt,
+      account.address,
+      signature,
+    ]
+  );
+  return mapReceiptRow(result.rows[0]);
+}
+
+export async function getReceipt(id: string): Promise<PaymentReceipt | null> {
+  const pool = getPool();
+  const result = await pool.query('SELECT * FROM payment_receipts WHERE id = $1', [id]);
+  return result.rows.length > 0 ? mapReceiptRow(result.rows[0]) : null;
+}
+
+/**
+ * Check a receipt's signature against the signer recorded on it
+ */
+export async function verifyReceipt(receipt: PaymentReceipt): Promise<boolean> {
+  try {
+    return await verifyTypedData({
+      address: receipt.signer as Address,
+      domain: RECEIPT_DOMAIN,
+      types: RECEIPT_TYPES,
+      primaryType: 'Receipt',
+      message: buildReceiptMessage(receipt),
+      signature: receipt.signature as Hex,
+    });
+  } catch {
+    return false;
+  }
+}
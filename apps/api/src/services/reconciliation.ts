@@ -0,0 +1,351 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { DiscrepancyKind, PaymentDiscrepancy, PaymentOnchainStatus } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+import { normalizeNetworkName } from './chains.js';
+import { verifyPaymentTxOnchain } from './onchain.js';
+import { findFinalizedTransfer, getIndexerCursor } from './token-indexer.js';
+
+const RECONCILE_BATCH_SIZE = 50;
+
+// Transfers newer than this are left for the next scan: the payment row is written only after
+// the facilitator answers, so a fresh transfer may simply not be recorded yet
+const TRANSFER_GRACE_MS = 10 * 60 * 1000;
+
+const DISCREPANCY_COLUMNS = `id, kind, payment_id, network, asset, tx_hash, log_index, from_address, to_address, value,
+                             block_number, block_timestamp, detail, resolved_at, resolution_note, created_at`;
+
+const EVM_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+
+function normalizeAddressLower(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return EVM_ADDRESS_REGEX.test(trimmed) ? trimmed.toLowerCase() : null;
+}
+
+function mapDiscrepancyRow(row: Record<string, unknown>): PaymentDiscrepancy {
+  return {
+    id: row.id as string,
+    kind: row.kind as DiscrepancyKind,
+    paymentId: (row.payment_id as string | null) ?? null,
+    network: row.network as string,
+    asset: (row.asset as string | null) ?? null,
+    txHash: (row.tx_hash as string | null) ?? null,
+    logIndex: (row.log_index as number | null) ?? null,
+    fromAddress: (row.from_address as string | null) ?? null,
+    toAddress: row.to_address as string,
+    value: row.value as string,
+    blockNumber: (row.block_number as string | null) ?? null,
+    blockTimestamp: (row.block_timestamp as Date | null) ?? null,
+    detail: (row.detail as string | null) ?? null,
+    resolvedAt: (row.resolved_at as Date | null) ?? null,
+    resolutionNote: (row.resolution_note as string | null) ?? null,
+    createdAt: row.created_at as Date,
+  };
+}
+
+type OnchainCheck = {
+  status: PaymentOnchainStatus;
+  blockNumber?: string;
+  blockTimestamp?: string;
+  error?: string;
+  // not_found and RPC errors may clear up on a later attempt
+  retryable: boolean;
+};
+
+async function checkPaymentOnchain(row: Record<string, unknown>): Promise<OnchainCheck> {
+  const config = getConfig();
+  const txHash = typeof row.tx_hash === 'string' ? row.tx_hash.toLowerCase() : null;
+  const network = normalizeNetworkName(
+    typeof row.network === 'string' && row.network.trim() ? row.network.trim() : config.X402_NETWORK
+  );
+  const assetContract = normalizeAddressLower(row.asset) ?? normalizeAddressLower(config.X402_ASSET_CONTRACT);
+  const payTo = normalizeAddressLower(row.pay_to);
+
+  if (!txHash) return { status: 'error', error: 'Missing tx_hash', retryable: false };
+  if (!network) return { status: 'unsupported_network', error: 'Unsupported network', retryable: false };
+  if (!assetContract) return { status: 'error', error: 'Missing asset contract', retryable: false };
+  if (!payTo) return { status: 'error', error: 'Invalid pay_to', retryable: false };
+
+  const expectedFrom = normalizeAddressLower(row.payer_wallet) ?? undefined;
+
+  // The token indexer usually has the transfer already; only ask the RPC when it does not
+  const indexed = await findFinalizedTransfer({
+    network,
+    asset: assetContract,
+    txHash,
+    to: payTo,
+    value: row.value as string,
+    from: expectedFrom,
+  });
+  if (indexed) {
+    return {
+      status: 'confirmed',
+      blockNumber: indexed.blockNumber,
+      blockTimestamp: indexed.blockTimestamp.toISOString(),
+      retryable: false,
+    };
+  }
+
+  const result = await verifyPaymentTxOnchain({
+    txHash,
+    network,
+    assetContract,
+    expectedTo: payTo,
+    expectedValue: row.value as string,
+    expectedFrom,
+  });
+
+  if (result.status === 'confirmed') {
+    return {
+      status: 'confirmed',
+      blockNumber: result.blockNumber,
+      blockTimestamp: result.blockTimestamp,
+      retryable: false,
+    };
+  }
+  return {
+    status: result.status,
+    error: result.error,
+    retryable: result.status === 'not_found' || result.status === 'error',
+  };
+}
+
+/**
+ * Verify a batch of settled payments that have no stored on-chain result yet. Final results are saved
+ * on the payment row; not-found and RPC errors are retried on later ticks up to RECONCILE_MAX_ATTEMPTS.
+ * Payments that end up anything but confirmed are added to the discrepancy report.
+ */
+export async function reconcileSettledPayments(): Promise<{ checked: number; confirmed: number; flagged: number }> {
+  const config = getConfig();
+  const pool = getPool();
+
+  // Fewest attempts first, so payments that keep failing do not starve new ones
+  const due = await pool.query(
+    `SELECT p.id, p.payer_wallet, p.pay_to, p.value, p.tx_hash, p.reconcile_attempts,
+            COALESCE(NULLIF(p.network, ''), NULLIF(m.network, '')) AS network,
+            COALESCE(NULLIF(p.asset, ''), NULLIF(m.asset_contract, '')) AS asset
+     FROM payments p
+     LEFT JOIN modules m ON p.module_id = m.id
+     WHERE p.event = 'settled' AND p.reconciled_at IS NULL
+     ORDER BY p.reconcile_attempts, p.created_at
+     LIMIT $1`,
+    [RECONCILE_BATCH_SIZE]
+  );
+
+  let confirmed = 0;
+  let flagged = 0;
+
+  for (const row of due.rows) {
+    const check = await checkPaymentOnchain(row);
+    const attempts = (row.reconcile_attempts as number) + 1;
+    const final = !check.retryable || attempts >= config.RECONCILE_MAX_ATTEMPTS;
+
+    await pool.query(
+      `UPDATE payments
+       SET onchain_status = $2, onchain_block_number = $3, onchain_block_timestamp = $4, onchain_error = $5,
+           reconcile_attempts = $6, reconciled_at = CASE WHEN $7 THEN NOW() ELSE NULL END
+       WHERE id = $1`,
+      [
+        row.id,
+        check.status,
+        check.blockNumber ?? null,
+        check.blockTimestamp ?? null,
+        check.error ?? null,
+        attempts,
+        final,
+      ]
+    );
+
+    if (check.status === 'confirmed') {
+      confirmed += 1;
+    } else if (final) {
+      await pool.query(
+        `INSERT INTO payment_discrepancies (kind, payment_id, network, asset, tx_hash, from_address, to_address, value,
+                                            detail)
+         VALUES ('payment_unconfirmed', $1, $2, $3, $4, $5, $6, $7, $8)
+         ON CONFLICT (payment_id) WHERE payment_id IS NOT NULL DO NOTHING`,
+        [
+          row.id,
+          row.network ?? config.X402_NETWORK,
+          row.asset ?? null,
+          row.tx_hash ?? null,
+          row.payer_wallet,
+          row.pay_to,
+          row.value,
+          `${check.status}${check.error ? `: ${check.error}` : ''}`,
+        ]
+      );
+      flagged += 1;
+    }
+  }
+
+  return { checked: due.rows.length, confirmed, flagged };
+}
+
+/**
+ * Report indexed transfers to seller pay_to addresses (module defaults and payment options) whose tx
+ * is not recorded as a payment or agent wallet sweep. Each network/asset keeps a cursor, so a pass only
+ * looks at transfers since the last one and never past what the token indexer has reached; addresses
+ * added later are not back-filled.
+ */
+export async function scanUnrecordedTransfers(): Promise<{ scanned: number; flagged: number }> {
+  const config = getConfig();
+  const pool = getPool();
+
+  const targets = await pool.query(
+    `SELECT network, asset_contract AS asset, pay_to FROM modules
+     UNION
+     SELECT opt->>'network', opt->>'asset', COALESCE(opt->>'payTo', m.pay_to)
+     FROM modules m, jsonb_array_elements(COALESCE(m.payment_options, '[]'::jsonb)) AS opt`
+  );
+
+  const groups = new Map<string, { network: string; asset: string; addresses: Set<string> }>();
+  for (const row of targets.rows) {
+    const network = typeof row.network === 'string' ? normalizeNetworkName(row.network) : null;
+    const asset = normalizeAddressLower(row.asset);
+    const payTo = normalizeAddressLower(row.pay_to);
+    if (!network || !asset || !payTo) continue;
+
+    const key = `${network}:${asset}`;
+    const group = groups.get(key) ?? { network, asset, addresses: new Set<string>() };
+    group.addresses.add(payTo);
+    groups.set(key, group);
+  }
+
+  let scanned = 0;
+  let flagged = 0;
+
+  for (const group of groups.values()) {
+    const indexer = await getIndexerCursor(group);
+    if (!indexer) continue;
+    const scanUntil = Math.min(Date.now() - TRANSFER_GRACE_MS, indexer.lastBlockTimestamp.getTime());
+
+    const cursor = await pool.query(
+      'SELECT scanned_until FROM reconciliation_cursors WHERE network = $1 AND asset = $2',
+      [group.network, group.asset]
+    );
+    const scanFrom =
+      cursor.rows.length > 0
+        ? (cursor.rows[0].scanned_until as Date).getTime()
+        : Date.now() - config.RECONCILE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000;
+    if (scanFrom >= scanUntil) continue;
+
+    const counted = await pool.query(
+      `SELECT COUNT(*)::int AS total FROM token_transfers
+       WHERE network = $1 AND asset = $2 AND to_address = ANY($3::text[])
+         AND block_timestamp >= $4 AND block_timestamp < $5`,
+      [group.network, group.asset, Array.from(group.addresses), new Date(scanFrom), new Date(scanUntil)]
+    );
+    scanned += counted.rows[0].total as number;
+
+    const inserted = await pool.query(
+      `INSERT INTO payment_discrepancies (kind, network, asset, tx_hash, log_index, from_address, to_address, value,
+                                          block_number, block_timestamp, detail)
+       SELECT 'unrecorded_transfer', t.network, t.asset, t.tx_hash, t.log_index, t.from_address, t.to_address, t.value,
+              t.block_number, t.block_timestamp, 'No payment recorded for this transfer'
+       FROM token_transfers t
+       WHERE t.network = $1 AND t.asset = $2 AND t.to_address = ANY($3::text[])
+         AND t.block_timestamp >= $4 AND t.block_timestamp < $5
+         AND NOT EXISTS (SELECT 1 FROM payments p WHERE LOWER(p.tx_hash) = t.tx_hash)
+         AND NOT EXISTS (SELECT 1 FROM agent_wallet_sweeps s WHERE LOWER(s.tx_hash) = t.tx_hash)
+       ON CONFLICT (network, tx_hash, log_index) WHERE kind = 'unrecorded_transfer' DO NOTHING`,
+      [group.network, group.asset, Array.from(group.addresses), new Date(scanFrom), new Date(scanUntil)]
+    );
+    flagged += inserted.rowCount ?? 0;
+
+    await pool.query(
+      `INSERT INTO reconciliation_cursors (network, asset, scanned_until)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (network, asset) DO UPDATE SET scanned_until = EXCLUDED.scanned_until`,
+      [group.network, group.asset, new Date(scanUntil)]
+    );
+  }
+
+  return { scanned, flagged };
+}
+
+async function runReconciliation(log: FastifyBaseLogger): Promise<void> {
+  const payments = await reconcileSettledPayments();
+  const transfers = await scanUnrecordedTransfers();
+  if (payments.checked > 0 || transfers.flagged > 0) {
+    log.info({ payments, transfers }, 'Reconciliation pass finished');
+  }
+}
+
+/**
+ * Reconcile every RECONCILE_INTERVAL_MS. Returns a stop function. Mock and local-facilitator
+ * settlements never reach a chain, so the worker does not run in those modes.
+ */
+export function startReconciliationWorker(log: FastifyBaseLogger): () => void {
+  const config = getConfig();
+  if (config.RECONCILE_INTERVAL_MS === 0 || config.X402_MOCK_MODE || config.X402_LOCAL_FACILITATOR) {
+    return () => {};
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    runReconciliation(log)
+      .catch((err) => log.error(err, 'Reconciliation worker tick failed'))
+      .finally(() => {
+        running = false;
+      });
+  }, config.RECONCILE_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Discrepancy report, newest first. `toAddresses` limits it to transfers and payments to those addresses.
+ */
+export async function listDiscrepancies(params: {
+  kind?: DiscrepancyKind;
+  unresolvedOnly?: boolean;
+  toAddresses?: string[];
+  limit: number;
+}): Promise<PaymentDiscrepancy[]> {
+  const pool = getPool();
+  const values: unknown[] = [params.limit];
+  const where: string[] = [];
+  if (params.kind) {
+    values.push(params.kind);
+    where.push(`kind = $${values.length}`);
+  }
+  if (params.unresolvedOnly) {
+    where.push('resolved_at IS NULL');
+  }
+  if (params.toAddresses) {
+    values.push(params.toAddresses.map((a) => a.toLowerCase()));
+    where.push(`LOWER(to_address) = ANY($${values.length}::text[])`);
+  }
+
+  const result = await pool.query(
+    `SELECT ${DISCREPANCY_COLUMNS} FROM payment_discrepancies
+     ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+     ORDER BY created_at DESC
+     LIMIT $1`,
+    values
+  );
+  return result.rows.map(mapDiscrepancyRow);
+}
+
+/**
+ * Mark a discrepancy as handled. Returns null if it does not exist or was already resolved.
+ */
+export async function resolveDiscrepancy(params: {
+  id: string;
+  resolvedBy: string;
+  note: string | null;
+}): Promise<PaymentDiscrepancy | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE payment_discrepancies SET resolved_at = NOW(), resolved_by = $2, resolution_note = $3
+     WHERE id = $1 AND resolved_at IS NULL
+     RETURNING ${DISCREPANCY_COLUMNS}`,
+    [params.id, params.resolvedBy, params.note]
+  );
+  return result.rows.length > 0 ? mapDiscrepancyRow(result.rows[0]) : null;
+}
@@ -1,9 +1,31 @@
 import jwt from 'jsonwebtoken';
 import type { JwtPayload } from 'jsonwebtoken';
 import { getRedis } from '../lib/redis.js';
+import { getPool } from '../lib/db.js';
 import { getConfig } from '../config.js';
 
 const SESSION_PASS_PREFIX = 'sessionpass:';
+const SESSION_PASS_COLUMNS = `id, module_id, wallet_address, payment_tx_hash, max_credits, credits_remaining,
+  expires_at, revoked_at, created_at`;
+
+// Cache replies from the credit scripts (credits themselves are never negative)
+const CACHE_MISS = -2;
+const CREDITS_EXHAUSTED = -1;
+
+// Check-and-decrement in one step, so concurrent requests cannot both spend the last credit
+const TAKE_CREDIT_SCRIPT = `
+local credits = redis.call('GET', KEYS[1])
+if not credits then return ${CACHE_MISS} end
+if tonumber(credits) <= 0 then return ${CREDITS_EXHAUSTED} end
+return redis.call('DECR', KEYS[1])`;
+
+// Add credits to a cached counter only; a missing one is rebuilt from Postgres on the next use
+const ADD_CREDITS_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then return ${CACHE_MISS} end
+local credits = redis.call('INCRBY', KEYS[1], ARGV[1])
+if ARGV[2] then redis.call('EXPIREAT', KEYS[1], ARGV[2]) end
+return credits`;
+
 const DEV_JWT_SECRET = 'insecure-dev-secret-change-in-production';
 
 function getJwtSecret(): string {
@@ -18,6 +40,7 @@ export interface SessionPolicy {
 
 export interface SessionPassPayload {
   sub: string; // wallet address
+  passId?: string; // session_passes row; absent on tokens issued before passes were recorded
   moduleId: string;
   paymentTxHash: string;
   creditsRemaining: number;
@@ -27,12 +50,25 @@ export interface SessionPassPayload {
 }
 
 export interface SessionPassInfo {
+  passId: string;
   token: string;
   creditsRemaining: number;
   maxCredits: number;
   expiresAt: number;
 }
 
+export interface SessionPassRecord {
+  id: string;
+  moduleId: string;
+  walletAddress: string;
+  paymentTxHash: string;
+  maxCredits: number;
+  creditsRemaining: number;
+  expiresAt: Date;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
 export interface ValidateResult {
   valid: boolean;
   payload?: SessionPassPayload;
@@ -53,26 +89,39 @@ export async function issueSessionPass(params: {
   const now = Math.floor(Date.now() / 1000);
   const expiresAt = now + sessionPolicy.minutes * 60;
 
-  const payload: SessionPassPayload = {
+  // The pass and its opening ledger entry in one statement
+  const pool = getPool();
+  const inserted = await pool.query(
+    `WITH pass AS (
+       INSERT INTO session_passes
+         (module_id, wallet_address, payment_tx_hash, max_credits, credits_remaining, expires_at)
+       VALUES ($1, $2, $3, $4, $4, to_timestamp($5))
+       RETURNING id
+     )
+     INSERT INTO session_credit_ledger (session_pass_id, entry_type, credits)
+     SELECT id, 'issue'::session_credit_entry_type, $4 FROM pass
+     RETURNING session_pass_id`,
+    [moduleId, walletAddress.toLowerCase(), paymentTxHash, sessionPolicy.messageCredits, expiresAt]
+  );
+  const passId = inserted.rows[0].session_pass_id as string;
+
+  const token = signSessionPassToken({
     sub: walletAddress.toLowerCase(),
+    passId,
     moduleId,
     paymentTxHash,
     creditsRemaining: sessionPolicy.messageCredits,
     maxCredits: sessionPolicy.messageCredits,
     issuedAt: now,
     expiresAt,
-  };
-
-  const token = jwt.sign(payload, getJwtSecret(), {
-    expiresIn: sessionPolicy.minutes * 60,
   });
 
-  // Store credits in Redis for tracking consumption
+  // Warm the credit cache
   const redisKey = buildRedisKey(moduleId, walletAddress, paymentTxHash);
-  const redis = getRedis();
-  await redis.setex(redisKey, sessionPolicy.minutes * 60, sessionPolicy.messageCredits.toString());
+  await getRedis().set(redisKey, sessionPolicy.messageCredits, 'EXAT', expiresAt);
 
   return {
+    passId,
     token,
     creditsRemaining: sessionPolicy.messageCredits,
     maxCredits: sessionPolicy.messageCredits,
@@ -80,14 +129,22 @@ export async function issueSessionPass(params: {
   };
 }
 
+function signSessionPassToken(payload: SessionPassPayload): string {
+  return jwt.sign(payload, getJwtSecret(), {
+    expiresIn: Math.max(1, payload.expiresAt - Math.floor(Date.now() / 1000)),
+  });
+}
+
 /**
- * Validate and decode a session pass
+ * Validate and decode a session pass: the token signature, revocation and expiry.
+ * Credits are not checked here; consumeSessionCredit decides atomically whether one is left.
  */
 export async function validateSessionPass(token: string): Promise<ValidateResult> {
   try {
     const decoded = jwt.verify(token, getJwtSecret()) as JwtPayload & SessionPassPayload;
     const payload: SessionPassPayload = {
       sub: decoded.sub || '',
+      passId: decoded.passId,
       moduleId: decoded.moduleId,
       paymentTxHash: decoded.paymentTxHash,
       creditsRemaining: decoded.creditsRemaining,
@@ -96,30 +153,27 @@ export async function validateSessionPass(token: string): Promise<ValidateResult
       expiresAt: decoded.expiresAt,
     };
 
+    // The revocation list: a revoked pass rejects every token issued for it. Top-ups move the
+    // expiry, so the row's value wins over the one signed into this token.
+    let pass: SessionPassRecord | null = null;
+    if (payload.passId) {
+      pass = await getSessionPass(payload.passId);
+      if (!pass) {
+        return { valid: false, error: 'Session pass not found or expired' };
+      }
+      if (pass.revokedAt) {
+        return { valid: false, error: 'Session pass revoked' };
+      }
+      payload.expiresAt = Math.floor(pass.expiresAt.getTime() / 1000);
+      payload.maxCredits = pass.maxCredits;
+    }
+
     // Check if expired (redundant with JWT but explicit)
     const now = Math.floor(Date.now() / 1000);
     if (payload.expiresAt < now) {
       return { valid: false, error: 'Session pass expired' };
     }
 
-    // Get current credits from Redis
-    const redisKey = buildRedisKey(payload.moduleId, payload.sub, payload.paymentTxHash);
-    const redis = getRedis();
-    const creditsStr = await redis.get(redisKey);
-
-    if (creditsStr === null) {
-      // Redis key expired or never existed
-      return { valid: false, error: 'Session pass not found or expired' };
-    }
-
-    const creditsRemaining = parseInt(creditsStr, 10);
-    if (creditsRemaining <= 0) {
-      return { valid: false, error: 'Session pass credits exhausted' };
-    }
-
-    // Update payload with current credits
-    payload.creditsRemaining = creditsRemaining;
-
     return { valid: true, payload };
   } catch (err) {
     if (err instanceof jwt.TokenExpiredError) {
@@ -132,23 +186,114 @@ export async function validateSessionPass(token: string): Promise<ValidateResult
   }
 }
 
+// Seed the cache from Postgres; NX keeps a counter another request rebuilt first
+async function cacheSessionCredits(pass: SessionPassRecord): Promise<void> {
+  const redisKey = buildRedisKey(pass.moduleId, pass.walletAddress, pass.paymentTxHash);
+  const expiresAt = Math.floor(pass.expiresAt.getTime() / 1000);
+  await getRedis().set(redisKey, pass.creditsRemaining, 'EXAT', expiresAt, 'NX');
+}
+
 /**
- * Consume one credit from a session pass
+ * Consume one credit from a session pass. Redis takes the credit atomically (rebuilding its counter
+ * from Postgres on a miss), then the Postgres ledger records it; Postgres has the final say, so a
+ * stale cache can never spend below zero. Returns null when no credit is left.
+ * Tokens without `passId` predate the ledger and are counted in Redis only.
  */
 export async function consumeSessionCredit(params: {
+  passId?: string;
   moduleId: string;
   walletAddress: string;
   paymentTxHash: string;
-}): Promise<{ creditsRemaining: number }> {
-  const { moduleId, walletAddress, paymentTxHash } = params;
+}): Promise<{ creditsRemaining: number } | null> {
+  const { passId, moduleId, walletAddress, paymentTxHash } = params;
 
   const redisKey = buildRedisKey(moduleId, walletAddress, paymentTxHash);
   const redis = getRedis();
 
-  // Decrement and get new value
-  const newCredits = await redis.decr(redisKey);
+  let cached = Number(await redis.eval(TAKE_CREDIT_SCRIPT, 1, redisKey));
+  if (cached === CACHE_MISS && passId) {
+    const pass = await getSessionPass(passId);
+    if (!pass || pass.revokedAt || pass.expiresAt.getTime() <= Date.now()) return null;
+    await cacheSessionCredits(pass);
+    cached = Number(await redis.eval(TAKE_CREDIT_SCRIPT, 1, redisKey));
+  }
+  if (cached < 0) return null;
+  if (!passId) return { creditsRemaining: cached };
+
+  let spent: number | null;
+  try {
+    spent = await recordSessionCreditUse(passId);
+  } catch (err) {
+    await redis.eval(ADD_CREDITS_SCRIPT, 1, redisKey, 1);
+    throw err;
+  }
+
+  if (spent === null) {
+    // Postgres has no credit left, or the pass was revoked or expired since: take the truth and refuse
+    await redis.set(redisKey, 0, 'KEEPTTL');
+    return null;
+  }
 
-  return { creditsRemaining: Math.max(0, newCredits) };
+  // Passes migrated from Redis-only counters may have fewer credits cached than in Postgres
+  return { creditsRemaining: Math.min(cached, spent) };
+}
+
+// Debit one credit in Postgres with its ledger entry; null if none is left or the pass is revoked or expired
+async function recordSessionCreditUse(passId: string): Promise<number | null> {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const updated = await client.query(
+      `UPDATE session_passes SET credits_remaining = credits_remaining - 1
+       WHERE id = $1 AND credits_remaining > 0 AND revoked_at IS NULL AND expires_at > NOW()
+       RETURNING credits_remaining`,
+      [passId]
+    );
+    if (updated.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query(
+      `INSERT INTO session_credit_ledger (session_pass_id, entry_type, credits)
+       VALUES ($1, 'consume', -1)`,
+      [passId]
+    );
+    await client.query('COMMIT');
+    return updated.rows[0].credits_remaining as number;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Give a consumed credit back (the turn failed)
+ */
+export async function refundSessionCredit(params: {
+  passId?: string;
+  moduleId: string;
+  walletAddress: string;
+  paymentTxHash: string;
+}): Promise<void> {
+  const { passId, moduleId, walletAddress, paymentTxHash } = params;
+
+  if (passId) {
+    const pool = getPool();
+    await pool.query(
+      `WITH refunded AS (
+         UPDATE session_passes SET credits_remaining = credits_remaining + 1 WHERE id = $1 RETURNING id
+       )
+       INSERT INTO session_credit_ledger (session_pass_id, entry_type, credits)
+       SELECT id, 'refund'::session_credit_entry_type, 1 FROM refunded`,
+      [passId]
+    );
+  }
+
+  await getRedis().eval(ADD_CREDITS_SCRIPT, 1, buildRedisKey(moduleId, walletAddress, paymentTxHash), 1);
 }
 
 /**
@@ -170,6 +315,170 @@ export async function getSessionCredits(params: {
   return parseInt(creditsStr, 10);
 }
 
+function mapSessionPassRow(row: Record<string, unknown>): SessionPassRecord {
+  return {
+    id: row.id as string,
+    moduleId: row.module_id as string,
+    walletAddress: row.wallet_address as string,
+    paymentTxHash: row.payment_tx_hash as string,
+    maxCredits: row.max_credits as number,
+    creditsRemaining: row.credits_remaining as number,
+    expiresAt: row.expires_at as Date,
+    revokedAt: (row.revoked_at as Date | null) ?? null,
+    createdAt: row.created_at as Date,
+  };
+}
+
+export async function getSessionPass(passId: string): Promise<SessionPassRecord | null> {
+  const pool = getPool();
+  const result = await pool.query(`SELECT ${SESSION_PASS_COLUMNS} FROM session_passes WHERE id = $1`, [passId]);
+  return result.rows.length > 0 ? mapSessionPassRow(result.rows[0]) : null;
+}
+
+/**
+ * Unexpired, unrevoked passes for a wallet with module names and remaining credits, soonest expiry first
+ */
+export async function listSessionPasses(
+  walletAddress: string
+): Promise<Array<SessionPassRecord & { moduleName: string }>> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT p.*, m.name AS module_name
+     FROM (SELECT ${SESSION_PASS_COLUMNS} FROM session_passes
+           WHERE wallet_address = $1 AND revoked_at IS NULL AND expires_at > NOW()) p
+     JOIN modules m ON p.module_id = m.id
+     ORDER BY p.expires_at ASC`,
+    [walletAddress.toLowerCase()]
+  );
+  return result.rows.map((row) => ({ ...mapSessionPassRow(row), moduleName: row.module_name as string }));
+}
+
+/**
+ * Add a paid increment of credits and time to a pass and record the payment. Time is added to the
+ * current expiry (or to now, if it lapsed while the payment settled). Returns a fresh token, since
+ * the old one still carries the old expiry.
+ */
+export async function topUpSessionPass(params: {
+  passId: string;
+  payment: {
+    payerWallet: string;
+    payTo: string;
+    value: string;
+    txHash: string;
+    network: string;
+    asset: string;
+    nonce?: string;
+  };
+  sessionPolicy: SessionPolicy;
+}): Promise<{ paymentId: string; sessionPass: SessionPassInfo }> {
+  const { passId, payment, sessionPolicy } = params;
+  const pool = getPool();
+  const client = await pool.connect();
+  let paymentId: string;
+  let pass: SessionPassRecord;
+  try {
+    await client.query('BEGIN');
+
+    // Re-checked under the row lock: the pass may have been revoked while the payment settled
+    const current = await client.query(
+      'SELECT module_id FROM session_passes WHERE id = $1 AND revoked_at IS NULL FOR UPDATE',
+      [passId]
+    );
+    if (current.rows.length === 0) throw new Error('Session pass not found or revoked');
+
+    const paymentResult = await client.query(
+      `INSERT INTO payments (module_id, payer_wallet, pay_to, value, tx_hash, network, event, nonce, asset)
+       VALUES ($1, $2, $3, $4, $5, $6, 'settled', $7, $8)
+       RETURNING id`,
+      [
+        current.rows[0].module_id,
+        payment.payerWallet,
+        payment.payTo,
+        payment.value,
+        payment.txHash,
+        payment.network,
+        payment.nonce ? payment.nonce.toLowerCase() : null,
+        payment.asset.toLowerCase(),
+      ]
+    );
+    paymentId = paymentResult.rows[0].id as string;
+
+    await client.query(
+      `INSERT INTO session_pass_topups (session_pass_id, payment_id, credits_added, minutes_added)
+       VALUES ($1, $2, $3, $4)`,
+      [passId, paymentId, sessionPolicy.messageCredits, sessionPolicy.minutes]
+    );
+    await client.query(
+      `INSERT INTO session_credit_ledger (session_pass_id, entry_type, credits, payment_id)
+       VALUES ($1, 'top_up', $2, $3)`,
+      [passId, sessionPolicy.messageCredits, paymentId]
+    );
+
+    const updated = await client.query(
+      `UPDATE session_passes
+       SET max_credits = max_credits + $2,
+           credits_remaining = credits_remaining + $2,
+           expires_at = GREATEST(expires_at, NOW()) + make_interval(mins => $3)
+       WHERE id = $1
+       RETURNING ${SESSION_PASS_COLUMNS}`,
+      [passId, sessionPolicy.messageCredits, sessionPolicy.minutes]
+    );
+    pass = mapSessionPassRow(updated.rows[0]);
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  const expiresAt = Math.floor(pass.expiresAt.getTime() / 1000);
+  const redisKey = buildRedisKey(pass.moduleId, pass.walletAddress, pass.paymentTxHash);
+  const cached = Number(
+    await getRedis().eval(ADD_CREDITS_SCRIPT, 1, redisKey, sessionPolicy.messageCredits, expiresAt)
+  );
+  const creditsRemaining = cached === CACHE_MISS ? pass.creditsRemaining : Math.min(cached, pass.creditsRemaining);
+
+  const token = signSessionPassToken({
+    sub: pass.walletAddress,
+    passId: pass.id,
+    moduleId: pass.moduleId,
+    paymentTxHash: pass.paymentTxHash,
+    creditsRemaining,
+    maxCredits: pass.maxCredits,
+    issuedAt: Math.floor(Date.now() / 1000),
+    expiresAt,
+  });
+
+  return {
+    paymentId,
+    sessionPass: { passId: pass.id, token, creditsRemaining, maxCredits: pass.maxCredits, expiresAt },
+  };
+}
+
+/**
+ * Revoke a pass, which rejects every token issued for it. With `walletAddress`, only the owner's
+ * pass matches. Revoking twice keeps the first revocation time. Returns null if no pass matched.
+ */
+export async function revokeSessionPass(params: {
+  passId: string;
+  walletAddress?: string;
+}): Promise<SessionPassRecord | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE session_passes SET revoked_at = COALESCE(revoked_at, NOW())
+     WHERE id = $1 AND ($2::text IS NULL OR wallet_address = $2)
+     RETURNING ${SESSION_PASS_COLUMNS}`,
+    [params.passId, params.walletAddress?.toLowerCase() ?? null]
+  );
+  if (result.rows.length === 0) return null;
+
+  const pass = mapSessionPassRow(result.rows[0]);
+  await getRedis().del(buildRedisKey(pass.moduleId, pass.walletAddress, pass.paymentTxHash));
+  return pass;
+}
+
 /**
  * Build Redis key for session pass credits
  */
@@ -0,0 +1,358 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { PaymentErrorCode, PaymentRequirements, SettlementJob, SettlementJobStatus } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+import { emitPaymentWebhook } from './webhooks.js';
+import { getPaymentValidBefore, submitSettlement } from './x402.js';
+
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+// A job left 'processing' this long (e.g. the process died mid-attempt) is picked up again
+const STALE_LOCK_INTERVAL = '5 minutes';
+// A deferral slot whose request never recorded its payment stops counting after this long
+const DEFERRAL_SLOT_INTERVAL = '5 minutes';
+const BATCH_SIZE = 10;
+// Retries are pulled in to at least this long before the authorization's validBefore
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+const JOB_COLUMNS = `id, payment_id, status, attempts, max_attempts, next_attempt_at, valid_before, last_error,
+                     tx_hash, created_at, updated_at, completed_at`;
+
+function mapJobRow(row: Record<string, unknown>): SettlementJob {
+  return {
+    id: row.id as string,
+    paymentId: row.payment_id as string,
+    status: row.status as SettlementJobStatus,
+    attempts: row.attempts as number,
+    maxAttempts: row.max_attempts as number,
+    nextAttemptAt: row.next_attempt_at as Date,
+    validBefore: (row.valid_before as Date | null) ?? null,
+    lastError: (row.last_error as string | null) ?? null,
+    txHash: (row.tx_hash as string | null) ?? null,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date,
+    completedAt: (row.completed_at as Date | null) ?? null,
+  };
+}
+
+/**
+ * Backoff before the next attempt: base * 2^(attempt-1), capped at 10 minutes
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const { SETTLEMENT_RETRY_BASE_MS } = getConfig();
+  return Math.min(MAX_RETRY_DELAY_MS, SETTLEMENT_RETRY_BASE_MS * Math.pow(2, Math.max(0, attempt - 1)));
+}
+
+/**
+ * When to retry: after the backoff, but no later than EXPIRY_MARGIN_MS before the authorization expires.
+ * Null when there is no time left for another attempt.
+ */
+function getNextAttemptAt(attempt: number, validBefore: Date | null): Date | null {
+  const now = Date.now();
+  const next = now + getRetryDelayMs(attempt);
+  if (!validBefore) return new Date(next);
+
+  const latest = validBefore.getTime() - EXPIRY_MARGIN_MS;
+  return latest > now ? new Date(Math.min(next, latest)) : null;
+}
+
+/**
+ * Risk policy: may this verified payment be answered before it settles?
+ * Requires SETTLEMENT_ASYNC_MAX_VALUE, a value within it, fewer than SETTLEMENT_ASYNC_MAX_PENDING
+ * unsettled payments from the payer, and no dead-lettered settlement on record for them.
+ * Returns a deferral slot id when it may, or null. The slot is taken under a per-payer lock and counts
+ * as an unsettled payment until releaseSettlementDeferral, so concurrent requests cannot all be deferred.
+ */
+export async function reserveSettlementDeferral(params: {
+  payer: string | undefined;
+  value: string;
+}): Promise<string | null> {
+  const config = getConfig();
+  if (!config.SETTLEMENT_ASYNC_MAX_VALUE || !params.payer) return null;
+  if (!/^\d+$/.test(params.value) || BigInt(params.value) > BigInt(config.SETTLEMENT_ASYNC_MAX_VALUE)) {
+    return null;
+  }
+
+  const payer = params.payer.toLowerCase();
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`settlement_deferral:${payer}`]);
+    await client.query('DELETE FROM settlement_deferral_slots WHERE payer = $1 AND expires_at <= NOW()', [payer]);
+
+    const result = await client.query(
+      `SELECT COUNT(*) FILTER (WHERE p.event = 'pending')::int AS pending,
+              COUNT(*) FILTER (WHERE j.status = 'dead')::int AS dead,
+              (SELECT COUNT(*)::int FROM settlement_deferral_slots WHERE payer = $1) AS slots
+       FROM settlement_jobs j
+       JOIN payments p ON p.id = j.payment_id
+       WHERE LOWER(p.payer_wallet) = $1`,
+      [payer]
+    );
+    const { pending, dead, slots } = result.rows[0] as { pending: number; dead: number; slots: number };
+    if (dead > 0 || pending + slots >= config.SETTLEMENT_ASYNC_MAX_PENDING) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO settlement_deferral_slots (payer, expires_at)
+       VALUES ($1, NOW() + INTERVAL '${DEFERRAL_SLOT_INTERVAL}')
+       RETURNING id`,
+      [payer]
+    );
+    await client.query('COMMIT');
+    return inserted.rows[0].id as string;
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Free a deferral slot once its payment is recorded as 'pending' (which then counts instead), or failed
+ */
+export async function releaseSettlementDeferral(slotId: string | null): Promise<void> {
+  if (!slotId) return;
+  const pool = getPool();
+  await pool.query('DELETE FROM settlement_deferral_slots WHERE id = $1', [slotId]);
+}
+
+/**
+ * Queue a 'pending' payment for background settlement. Its nonce must already be claimed.
+ */
+export async function enqueueSettlement(params: {
+  paymentId: string;
+  paymentHeader: string;
+  requirements: PaymentRequirements;
+  amount?: string;
+}): Promise<SettlementJob> {
+  const pool = getPool();
+  const result = await pool.query(
+    `INSERT INTO settlement_jobs (payment_id, payment_header, requirements, amount, max_attempts, valid_before)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING ${JOB_COLUMNS}`,
+    [
+      params.paymentId,
+      params.paymentHeader,
+      JSON.stringify(params.requirements),
+      params.amount ?? null,
+      getConfig().SETTLEMENT_MAX_ATTEMPTS,
+      getPaymentValidBefore(params.paymentHeader),
+    ]
+  );
+  return mapJobRow(result.rows[0]);
+}
+
+// Lock a batch of due jobs (plus stale 'processing' ones) and count the attempt
+async function claimDueJobs(limit: number): Promise<Array<Record<string, unknown>>> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE settlement_jobs
+     SET status = 'processing', locked_at = NOW(), attempts = attempts + 1
+     WHERE id IN (
+       SELECT id FROM settlement_jobs
+       WHERE (status = 'queued' AND next_attempt_at <= NOW())
+          OR (status = 'processing' AND locked_at < NOW() - INTERVAL '${STALE_LOCK_INTERVAL}')
+       ORDER BY next_attempt_at ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id, payment_id, payment_header, requirements, amount, attempts, max_attempts, valid_before`,
+    [limit]
+  );
+  return result.rows;
+}
+
+// Deferred payments get no signed receipt: the receipt binds the request and reply hashes, which are
+// only known to the chat route, and the reply has already been sent by the time the job settles
+async function markSettled(jobId: string, paymentId: string, txHash: string): Promise<void> {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE settlement_jobs
+       SET status = 'succeeded', tx_hash = $2, last_error = NULL, locked_at = NULL, completed_at = NOW()
+       WHERE id = $1`,
+      [jobId, txHash]
+    );
+    await client.query(
+      `UPDATE payments SET event = 'settled', tx_hash = $2, error = NULL, error_code = NULL WHERE id = $1`,
+      [paymentId, txHash]
+    );
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function markDeadLettered(
+  jobId: string,
+  paymentId: string,
+  error: string,
+  errorCode: PaymentErrorCode
+): Promise<void> {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `UPDATE settlement_jobs
+       SET status = 'dead', last_error = $2, locked_at = NULL, completed_at = NOW()
+       WHERE id = $1`,
+      [jobId, error]
+    );
+    await client.query(`UPDATE payments SET event = 'failed', error = $2, error_code = $3 WHERE id = $1`, [
+      paymentId,
+      `settle: ${error}`,
+      errorCode,
+    ]);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+async function scheduleRetry(jobId: string, nextAttemptAt: Date, error: string): Promise<void> {
+  const pool = getPool();
+  await pool.query(
+    `UPDATE settlement_jobs
+     SET status = 'queued', last_error = $2, locked_at = NULL, next_attempt_at = $3
+     WHERE id = $1`,
+    [jobId, error, nextAttemptAt]
+  );
+}
+
+/**
+ * Attempt every due settlement once. Retryable failures are rescheduled with backoff, kept inside the
+ * authorization's validity window; permanent failures, jobs out of attempts and jobs whose authorization
+ * has expired are dead-lettered (payment marked 'failed').
+ * The claimed nonce is kept either way: the buyer was already served.
+ */
+export async function processDueSettlements(log?: FastifyBaseLogger): Promise<number> {
+  const jobs = await claimDueJobs(BATCH_SIZE);
+
+  for (const job of jobs) {
+    const jobId = job.id as string;
+    const paymentId = job.payment_id as string;
+    const attempt = job.attempts as number;
+    const validBefore = (job.valid_before as Date | null) ?? null;
+
+    // The facilitator would reject it anyway: the authorization can no longer be used
+    if (validBefore && validBefore.getTime() <= Date.now()) {
+      await markDeadLettered(jobId, paymentId, 'Authorization expired before it could be settled', 'EXPIRED');
+      await emitPaymentWebhook(paymentId, log);
+      log?.error({ jobId, paymentId, attempt, validBefore }, 'Queued settlement expired');
+      continue;
+    }
+
+    const result = await submitSettlement(
+      job.payment_header as string,
+      job.requirements as PaymentRequirements,
+      (job.amount as string | null) ?? undefined
+    );
+
+    const nextAttemptAt =
+      !result.success && result.retryable && attempt < (job.max_attempts as number)
+        ? getNextAttemptAt(attempt, validBefore)
+        : null;
+
+    if (result.success) {
+      await markSettled(jobId, paymentId, result.txHash);
+      await emitPaymentWebhook(paymentId, log);
+      log?.info({ jobId, paymentId, attempt, txHash: result.txHash }, 'Queued settlement succeeded');
+    } else if (nextAttemptAt) {
+      await scheduleRetry(jobId, nextAttemptAt, result.error);
+      log?.warn({ jobId, paymentId, attempt, error: result.error }, 'Queued settlement failed, will retry');
+    } else {
+      await markDeadLettered(jobId, paymentId, result.error, result.code);
+      await emitPaymentWebhook(paymentId, log);
+      log?.error({ jobId, paymentId, attempt, error: result.error }, 'Queued settlement dead-lettered');
+    }
+  }
+
+  return jobs.length;
+}
+
+/**
+ * Poll for due settlements every SETTLEMENT_WORKER_INTERVAL_MS. Returns a stop function.
+ */
+export function startSettlementWorker(log: FastifyBaseLogger): () => void {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    processDueSettlements(log)
+      .catch((err) => log.error(err, 'Settlement worker tick failed'))
+      .finally(() => {
+        running = false;
+      });
+  }, getConfig().SETTLEMENT_WORKER_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Settlement jobs, newest first (admin view)
+ */
+export async function listSettlementJobs(params: {
+  status?: SettlementJobStatus;
+  limit: number;
+}): Promise<SettlementJob[]> {
+  const pool = getPool();
+  const values: unknown[] = [params.limit];
+  let statusFilter = '';
+  if (params.status) {
+    values.push(params.status);
+    statusFilter = `WHERE status = $${values.length}`;
+  }
+
+  const result = await pool.query(
+    `SELECT ${JOB_COLUMNS} FROM settlement_jobs ${statusFilter} ORDER BY created_at DESC LIMIT $1`,
+    values
+  );
+  return result.rows.map(mapJobRow);
+}
+
+/**
+ * Put a dead-lettered job back in the queue with a fresh set of attempts.
+ * Jobs whose authorization has expired cannot settle any more and are left dead.
+ */
+export async function requeueSettlementJob(id: string): Promise<SettlementJob | null> {
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await client.query(
+      `UPDATE settlement_jobs
+       SET status = 'queued', attempts = 0, next_attempt_at = NOW(), completed_at = NULL
+       WHERE id = $1 AND status = 'dead' AND (valid_before IS NULL OR valid_before > NOW())
+       RETURNING ${JOB_COLUMNS}`,
+      [id]
+    );
+    if (result.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+    await client.query(`UPDATE payments SET event = 'pending', error = NULL, error_code = NULL WHERE id = $1`, [
+      result.rows[0].payment_id,
+    ]);
+    await client.query('COMMIT');
+    return mapJobRow(result.rows[0]);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,284 @@
+import type { BuyerSpendingPolicy } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+
+export type SpendingPolicyLimit = 'max_per_message' | 'daily_limit' | 'module_daily_limit';
+
+export type SpendingPolicyCheck =
+  | { allowed: true; reservationId: string | null }
+  | { allowed: false; limit: SpendingPolicyLimit; limitAmount: string; attemptedTotal: string };
+
+type PolicyLimits = Pick<BuyerSpendingPolicy, 'maxPerMessage' | 'dailyLimit' | 'moduleDailyLimit'>;
+
+// Pending limits whose time has come are read as the current ones, so nothing has to promote them
+const POLICY_COLUMNS = `wallet_address,
+  CASE WHEN pending_effective_at <= NOW() THEN pending_max_per_message ELSE max_per_message END AS max_per_message,
+  CASE WHEN pending_effective_at <= NOW() THEN pending_daily_limit ELSE daily_limit END AS daily_limit,
+  CASE WHEN pending_effective_at <= NOW() THEN pending_module_daily_limit ELSE module_daily_limit END
+    AS module_daily_limit,
+  pending_max_per_message, pending_daily_limit, pending_module_daily_limit,
+  CASE WHEN pending_effective_at > NOW() THEN pending_effective_at END AS pending_effective_at,
+  created_at, updated_at`;
+
+// How long a reservation without a payment expiry holds its spend if the caller never releases it
+const RESERVATION_INTERVAL = '10 minutes';
+
+function mapPolicyRow(row: Record<string, unknown>): BuyerSpendingPolicy {
+  return {
+    walletAddress: row.wallet_address as string,
+    maxPerMessage: (row.max_per_message as string | null) ?? null,
+    dailyLimit: (row.daily_limit as string | null) ?? null,
+    moduleDailyLimit: (row.module_daily_limit as string | null) ?? null,
+    pendingLimits: row.pending_effective_at
+      ? {
+          maxPerMessage: (row.pending_max_per_message as string | null) ?? null,
+          dailyLimit: (row.pending_daily_limit as string | null) ?? null,
+          moduleDailyLimit: (row.pending_module_daily_limit as string | null) ?? null,
+          effectiveAt: row.pending_effective_at as Date,
+        }
+      : null,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date,
+  };
+}
+
+/**
+ * The SIWE statement a wallet signs to set a policy. Binding the exact limits into the signed
+ * message means a captured signature cannot be replayed for different limits.
+ */
+export function buildSpendingPolicyStatement(limits: PolicyLimits): string {
+  return (
+    `Set SoulForge spending policy: maxPerMessage=${limits.maxPerMessage ?? 'none'}, ` +
+    `dailyLimit=${limits.dailyLimit ?? 'none'}, moduleDailyLimit=${limits.moduleDailyLimit ?? 'none'}`
+  );
+}
+
+export async function getSpendingPolicy(walletAddress: string): Promise<BuyerSpendingPolicy | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT ${POLICY_COLUMNS} FROM buyer_spending_policies WHERE wallet_address = $1`,
+    [walletAddress.toLowerCase()]
+  );
+  return result.rows.length > 0 ? mapPolicyRow(result.rows[0]) : null;
+}
+
+// Does going from `current` to `next` raise or remove a cap? (null = no limit)
+function loosens(current: string | null, next: string | null): boolean {
+  return current !== null && (next === null || BigInt(next) > BigInt(current));
+}
+
+/**
+ * Replace the wallet's policy, keeping the signed SIWE request that authorized it.
+ * Lowered or added limits apply at once; raised or removed ones wait SPENDING_POLICY_INCREASE_DELAY_HOURS,
+ * so a leaked key cannot lift the caps and spend in the same breath. A newer request replaces any pending one.
+ */
+export async function setSpendingPolicy(params: {
+  walletAddress: string;
+  limits: PolicyLimits;
+  siweMessage: string;
+  siweSignature: string;
+}): Promise<BuyerSpendingPolicy> {
+  const walletAddress = params.walletAddress.toLowerCase();
+  const delayHours = getConfig().SPENDING_POLICY_INCREASE_DELAY_HOURS;
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const currentResult = await client.query(
+      `SELECT ${POLICY_COLUMNS} FROM buyer_spending_policies WHERE wallet_address = $1 FOR UPDATE`,
+      [walletAddress]
+    );
+    // A wallet without a policy has no caps, so its first policy only ever tightens
+    const current = currentResult.rows.length > 0 ? mapPolicyRow(currentResult.rows[0]) : null;
+
+    const next = params.limits;
+    const delayed =
+      current !== null &&
+      delayHours > 0 &&
+      (loosens(current.maxPerMessage, next.maxPerMessage) ||
+        loosens(current.dailyLimit, next.dailyLimit) ||
+        loosens(current.moduleDailyLimit, next.moduleDailyLimit));
+    // Until a delayed request takes effect, each limit is the stricter of the current and the requested one
+    const now: PolicyLimits = { ...next };
+    if (delayed) {
+      for (const key of ['maxPerMessage', 'dailyLimit', 'moduleDailyLimit'] as const) {
+        if (loosens(current[key], next[key])) now[key] = current[key];
+      }
+    }
+
+    const result = await client.query(
+      `INSERT INTO buyer_spending_policies (wallet_address, max_per_message, daily_limit, module_daily_limit,
+                                            pending_max_per_message, pending_daily_limit, pending_module_daily_limit,
+                                            pending_effective_at, siwe_message, siwe_signature)
+       VALUES ($1, $2, $3, $4, $5, $6, $7,
+               CASE WHEN $8::boolean THEN NOW() + make_interval(secs => $9 * 3600) END, $10, $11)
+       ON CONFLICT (wallet_address) DO UPDATE SET
+         max_per_message = EXCLUDED.max_per_message,
+         daily_limit = EXCLUDED.daily_limit,
+         module_daily_limit = EXCLUDED.module_daily_limit,
+         pending_max_per_message = EXCLUDED.pending_max_per_message,
+         pending_daily_limit = EXCLUDED.pending_daily_limit,
+         pending_module_daily_limit = EXCLUDED.pending_module_daily_limit,
+         pending_effective_at = EXCLUDED.pending_effective_at,
+         siwe_message = EXCLUDED.siwe_message,
+         siwe_signature = EXCLUDED.siwe_signature
+       RETURNING ${POLICY_COLUMNS}`,
+      [
+        walletAddress,
+        now.maxPerMessage,
+        now.dailyLimit,
+        now.moduleDailyLimit,
+        delayed ? next.maxPerMessage : null,
+        delayed ? next.dailyLimit : null,
+        delayed ? next.moduleDailyLimit : null,
+        delayed,
+        delayHours,
+        params.siweMessage,
+        params.siweSignature,
+      ]
+    );
+    await client.query('COMMIT');
+    return mapPolicyRow(result.rows[0]);
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * The wallet's chat spend in the current UTC day, overall and on one module: settled or pending x402 chat
+ * payments plus prepaid balance debits net of their refunds. Deposits are not spend; the debits drawing on
+ * them are.
+ */
+export async function getBuyerSpend(params: {
+  walletAddress: string;
+  moduleId?: string;
+}): Promise<{ today: string; moduleToday: string | null }> {
+  const pool = getPool();
+  const result = await pool.query(
+    `WITH spend AS (
+       SELECT module_id, value::numeric AS amount
+       FROM payments
+       WHERE LOWER(payer_wallet) = LOWER($1)
+         AND module_id IS NOT NULL
+         AND event IN ('settled', 'pending')
+         AND created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+       UNION ALL
+       -- A refund reduces the day of the debit it reverses
+       SELECT l.module_id, CASE WHEN l.entry_type = 'debit' THEN l.amount::numeric ELSE -l.amount::numeric END
+       FROM buyer_balance_ledger l
+       LEFT JOIN buyer_balance_ledger d ON d.id = l.reverses_entry_id
+       WHERE l.wallet_address = LOWER($1)
+         AND l.entry_type IN ('debit', 'refund')
+         AND COALESCE(d.created_at, l.created_at) >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+     )
+     SELECT
+       COALESCE(SUM(amount), 0)::text AS today,
+       COALESCE(SUM(amount) FILTER (WHERE module_id = $2), 0)::text AS module_today
+     FROM spend`,
+    [params.walletAddress, params.moduleId ?? null]
+  );
+  return {
+    today: result.rows[0].today as string,
+    moduleToday: params.moduleId ? (result.rows[0].module_today as string) : null,
+  };
+}
+
+/**
+ * Reserve `value` on `moduleId` against the payer's policy. Wallets without a policy are not limited.
+ * The check and the reservation happen under a per-payer lock, and reserved spend counts until the payment
+ * carrying `nonce` is recorded or the reservation is released, so concurrent requests cannot overshoot.
+ * The caller releases `reservationId` with releaseSpendingPolicyReservation once the payment is recorded
+ * (or abandoned); `expiresAt` (the authorization's expiry) bounds a reservation that is never released.
+ */
+export async function reserveWithinSpendingPolicy(params: {
+  payer: string;
+  moduleId: string;
+  value: string;
+  nonce?: string;
+  expiresAt?: Date | null;
+}): Promise<SpendingPolicyCheck> {
+  const policy = await getSpendingPolicy(params.payer);
+  if (!policy) return { allowed: true, reservationId: null };
+
+  const amount = BigInt(params.value);
+  if (policy.maxPerMessage && amount > BigInt(policy.maxPerMessage)) {
+    return {
+      allowed: false,
+      limit: 'max_per_message',
+      limitAmount: policy.maxPerMessage,
+      attemptedTotal: params.value,
+    };
+  }
+  if (!policy.dailyLimit && !policy.moduleDailyLimit) return { allowed: true, reservationId: null };
+
+  const walletAddress = params.payer.toLowerCase();
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`spending_policy:${walletAddress}`]);
+    await client.query('DELETE FROM spending_policy_reservations WHERE wallet_address = $1 AND expires_at <= NOW()', [
+      walletAddress,
+    ]);
+
+    const spend = await getBuyerSpend({ walletAddress, moduleId: params.moduleId });
+    // Reservations whose payment is already recorded are counted by the spend above
+    const reservedResult = await client.query(
+      `SELECT
+         COALESCE(SUM(r.value::numeric), 0)::text AS reserved,
+         COALESCE(SUM(r.value::numeric) FILTER (WHERE r.module_id = $2), 0)::text AS module_reserved
+       FROM spending_policy_reservations r
+       WHERE r.wallet_address = $1
+         AND (r.nonce IS NULL OR NOT EXISTS (SELECT 1 FROM payments p WHERE p.nonce = r.nonce))`,
+      [walletAddress, params.moduleId]
+    );
+
+    const dailyTotal = BigInt(spend.today) + BigInt(reservedResult.rows[0].reserved as string) + amount;
+    if (policy.dailyLimit && dailyTotal > BigInt(policy.dailyLimit)) {
+      await client.query('ROLLBACK');
+      return {
+        allowed: false,
+        limit: 'daily_limit',
+        limitAmount: policy.dailyLimit,
+        attemptedTotal: dailyTotal.toString(),
+      };
+    }
+    const moduleTotal =
+      BigInt(spend.moduleToday ?? '0') + BigInt(reservedResult.rows[0].module_reserved as string) + amount;
+    if (policy.moduleDailyLimit && moduleTotal > BigInt(policy.moduleDailyLimit)) {
+      await client.query('ROLLBACK');
+      return {
+        allowed: false,
+        limit: 'module_daily_limit',
+        limitAmount: policy.moduleDailyLimit,
+        attemptedTotal: moduleTotal.toString(),
+      };
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO spending_policy_reservations (wallet_address, module_id, value, nonce, expires_at)
+       VALUES ($1, $2, $3, $4, COALESCE($5::timestamptz, NOW() + INTERVAL '${RESERVATION_INTERVAL}'))
+       RETURNING id`,
+      [walletAddress, params.moduleId, params.value, params.nonce?.toLowerCase() ?? null, params.expiresAt ?? null]
+    );
+    await client.query('COMMIT');
+    return { allowed: true, reservationId: inserted.rows[0].id as string };
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Drop a spending policy reservation once its payment is recorded or will not happen
+ */
+export async function releaseSpendingPolicyReservation(reservationId: string | null): Promise<void> {
+  if (!reservationId) return;
+  const pool = getPool();
+  await pool.query('DELETE FROM spending_policy_reservations WHERE id = $1', [reservationId]);
+}
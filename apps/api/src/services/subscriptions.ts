@@ -0,0 +1,222 @@
+import type { Subscription, SubscriptionPolicy, SubscriptionStatus } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Subscription joined with the period covering NOW() (if any)
+const SUBSCRIPTION_SELECT = `
+  SELECT s.id, s.module_id, s.wallet_address, s.expires_at, s.canceled_at, s.created_at, s.updated_at,
+         p.id AS period_id, p.period_start, p.period_end, p.message_cap, p.messages_used
+  FROM subscriptions s
+  LEFT JOIN LATERAL (
+    SELECT id, period_start, period_end, message_cap, messages_used
+    FROM subscription_periods
+    WHERE subscription_id = s.id AND period_start <= NOW() AND period_end > NOW()
+    ORDER BY period_start ASC
+    LIMIT 1
+  ) p ON true`;
+
+export type ConsumeSubscriptionResult =
+  | { status: 'ok'; subscription: Subscription; periodId: string }
+  | { status: 'cap_reached'; subscription: Subscription }
+  | { status: 'none'; subscription: Subscription | null };
+
+function mapSubscriptionRow(row: Record<string, unknown>): Subscription {
+  const expiresAt = row.expires_at as Date;
+  const canceledAt = (row.canceled_at as Date | null) ?? null;
+  let status: SubscriptionStatus = 'active';
+  if (expiresAt.getTime() <= Date.now()) status = 'expired';
+  else if (canceledAt) status = 'canceled';
+
+  return {
+    id: row.id as string,
+    moduleId: row.module_id as string,
+    walletAddress: row.wallet_address as string,
+    status,
+    currentPeriodStart: (row.period_start as Date | null) ?? null,
+    currentPeriodEnd: (row.period_end as Date | null) ?? null,
+    expiresAt,
+    messageCap: (row.message_cap as number | null) ?? null,
+    messagesUsed: (row.messages_used as number | null) ?? 0,
+    canceledAt,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date,
+  };
+}
+
+/**
+ * Whether a subscription should prompt the buyer to renew: still running, not canceled,
+ * and ending within SUBSCRIPTION_REMINDER_DAYS.
+ */
+export function isRenewalDue(subscription: Subscription): boolean {
+  if (subscription.status !== 'active') return false;
+  const windowMs = getConfig().SUBSCRIPTION_REMINDER_DAYS * DAY_MS;
+  return subscription.expiresAt.getTime() - Date.now() <= windowMs;
+}
+
+export async function getSubscription(params: {
+  moduleId: string;
+  walletAddress: string;
+}): Promise<Subscription | null> {
+  const pool = getPool();
+  const result = await pool.query(`${SUBSCRIPTION_SELECT} WHERE s.module_id = $1 AND s.wallet_address = $2`, [
+    params.moduleId,
+    params.walletAddress.toLowerCase(),
+  ]);
+  return result.rows.length > 0 ? mapSubscriptionRow(result.rows[0]) : null;
+}
+
+/**
+ * Subscriptions for a wallet with module names, soonest expiry first
+ */
+export async function listSubscriptions(
+  walletAddress: string
+): Promise<Array<Subscription & { moduleName: string }>> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT sub.*, m.name AS module_name
+     FROM (${SUBSCRIPTION_SELECT} WHERE s.wallet_address = $1) sub
+     JOIN modules m ON sub.module_id = m.id
+     ORDER BY sub.expires_at ASC`,
+    [walletAddress.toLowerCase()]
+  );
+  return result.rows.map((row) => ({ ...mapSubscriptionRow(row), moduleName: row.module_name as string }));
+}
+
+/**
+ * Record a paid period. A renewal while still subscribed starts when the current paid time ends;
+ * otherwise the period starts now. Paying again also undoes a cancellation.
+ * Idempotent per payment.
+ */
+export async function grantSubscriptionPeriod(params: {
+  moduleId: string;
+  walletAddress: string;
+  paymentId: string;
+  policy: SubscriptionPolicy;
+}): Promise<Subscription> {
+  const walletAddress = params.walletAddress.toLowerCase();
+  const pool = getPool();
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [
+      `subscription:${params.moduleId}:${walletAddress}`,
+    ]);
+
+    const existing = await client.query(
+      'SELECT id, expires_at FROM subscriptions WHERE module_id = $1 AND wallet_address = $2',
+      [params.moduleId, walletAddress]
+    );
+
+    const now = new Date();
+    const previousEnd = existing.rows[0]?.expires_at as Date | undefined;
+    const periodStart = previousEnd && previousEnd > now ? previousEnd : now;
+    const periodEnd = new Date(periodStart.getTime() + params.policy.periodDays * DAY_MS);
+
+    let subscriptionId: string;
+    if (existing.rows.length > 0) {
+      subscriptionId = existing.rows[0].id as string;
+    } else {
+      const inserted = await client.query(
+        `INSERT INTO subscriptions (module_id, wallet_address, expires_at)
+         VALUES ($1, $2, $3)
+         RETURNING id`,
+        [params.moduleId, walletAddress, periodEnd]
+      );
+      subscriptionId = inserted.rows[0].id as string;
+    }
+
+    const period = await client.query(
+      `INSERT INTO subscription_periods (subscription_id, payment_id, period_start, period_end, message_cap)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (payment_id) DO NOTHING
+       RETURNING id`,
+      [subscriptionId, params.paymentId, periodStart, periodEnd, params.policy.messageCap ?? null]
+    );
+
+    if (period.rows.length > 0) {
+      await client.query('UPDATE subscriptions SET expires_at = $2, canceled_at = NULL WHERE id = $1', [
+        subscriptionId,
+        periodEnd,
+      ]);
+    }
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  const subscription = await getSubscription({ moduleId: params.moduleId, walletAddress });
+  if (!subscription) throw new Error('Subscription not found after grant');
+  return subscription;
+}
+
+/**
+ * Count one message against the current period's fair-use cap.
+ * Returns 'none' when the wallet has no period covering now.
+ */
+export async function consumeSubscriptionMessage(params: {
+  moduleId: string;
+  walletAddress: string;
+}): Promise<ConsumeSubscriptionResult> {
+  const walletAddress = params.walletAddress.toLowerCase();
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE subscription_periods SET messages_used = messages_used + 1
+     WHERE id = (
+       SELECT p.id FROM subscription_periods p
+       JOIN subscriptions s ON p.subscription_id = s.id
+       WHERE s.module_id = $1 AND s.wallet_address = $2
+         AND p.period_start <= NOW() AND p.period_end > NOW()
+       ORDER BY p.period_start ASC
+       LIMIT 1
+       FOR UPDATE
+     )
+     AND (message_cap IS NULL OR messages_used < message_cap)
+     RETURNING id`,
+    [params.moduleId, walletAddress]
+  );
+
+  const subscription = await getSubscription({ moduleId: params.moduleId, walletAddress });
+  if (result.rows.length > 0 && subscription) {
+    return { status: 'ok', subscription, periodId: result.rows[0].id as string };
+  }
+  if (subscription?.currentPeriodEnd) {
+    return { status: 'cap_reached', subscription };
+  }
+  return { status: 'none', subscription };
+}
+
+/**
+ * Give a counted message back (the turn failed)
+ */
+export async function releaseSubscriptionMessage(periodId: string): Promise<void> {
+  const pool = getPool();
+  await pool.query(
+    'UPDATE subscription_periods SET messages_used = GREATEST(messages_used - 1, 0) WHERE id = $1',
+    [periodId]
+  );
+}
+
+/**
+ * Stop a subscription from being renewed. Access continues until the paid time runs out;
+ * paying again reactivates it. Returns null if the subscription is not the wallet's.
+ */
+export async function cancelSubscription(params: {
+  id: string;
+  walletAddress: string;
+}): Promise<Subscription | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE subscriptions SET canceled_at = COALESCE(canceled_at, NOW())
+     WHERE id = $1 AND wallet_address = $2
+     RETURNING module_id, wallet_address`,
+    [params.id, params.walletAddress.toLowerCase()]
+  );
+  if (result.rows.length === 0) return null;
+  return getSubscription({ moduleId: result.rows[0].module_id, walletAddress: result.rows[0].wallet_address });
+}
@@ -0,0 +1,261 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+import { normalizeNetworkName } from './chains.js';
+import { getBlockRange, getBlockTimestamp, getTokenTransferLogs } from './onchain.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EVM_ADDRESS_REGEX = /^0x[a-fA-F0-9]{40}$/;
+
+export interface IndexerCursor {
+  network: string;
+  asset: string;
+  lastBlock: string;
+  lastBlockTimestamp: Date;
+}
+
+export interface IndexedTransfer {
+  network: string;
+  asset: string;
+  blockNumber: string;
+  blockTimestamp: Date;
+  txHash: string;
+  logIndex: number;
+  fromAddress: string;
+  toAddress: string;
+  value: string;
+}
+
+function mapIndexedTransferRow(row: Record<string, unknown>): IndexedTransfer {
+  return {
+    network: row.network as string,
+    asset: row.asset as string,
+    blockNumber: row.block_number as string,
+    blockTimestamp: row.block_timestamp as Date,
+    txHash: row.tx_hash as string,
+    logIndex: row.log_index as number,
+    fromAddress: row.from_address as string,
+    toAddress: row.to_address as string,
+    value: row.value as string,
+  };
+}
+
+/**
+ * (network, asset) pairs the indexer follows: the platform default plus every module's default and payment options
+ */
+export async function listIndexedAssets(): Promise<Array<{ network: string; asset: string }>> {
+  const config = getConfig();
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT network, asset_contract AS asset FROM modules
+     UNION
+     SELECT opt->>'network', opt->>'asset'
+     FROM modules m, jsonb_array_elements(COALESCE(m.payment_options, '[]'::jsonb)) AS opt`
+  );
+
+  const pairs = new Map<string, { network: string; asset: string }>();
+  for (const row of [{ network: config.X402_NETWORK, asset: config.X402_ASSET_CONTRACT }, ...result.rows]) {
+    const network = typeof row.network === 'string' ? normalizeNetworkName(row.network) : null;
+    const asset = typeof row.asset === 'string' && EVM_ADDRESS_REGEX.test(row.asset.trim()) ? row.asset.trim() : null;
+    if (!network || !asset) continue;
+    pairs.set(`${network}:${asset.toLowerCase()}`, { network, asset: asset.toLowerCase() });
+  }
+  return Array.from(pairs.values());
+}
+
+export async function getIndexerCursor(params: { network: string; asset: string }): Promise<IndexerCursor | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT network, asset, last_block, last_block_timestamp FROM token_indexer_cursors
+     WHERE network = $1 AND asset = $2`,
+    [params.network, params.asset.toLowerCase()]
+  );
+  if (result.rows.length === 0) return null;
+  return {
+    network: result.rows[0].network as string,
+    asset: result.rows[0].asset as string,
+    lastBlock: result.rows[0].last_block as string,
+    lastBlockTimestamp: result.rows[0].last_block_timestamp as Date,
+  };
+}
+
+/**
+ * An indexed transfer matching a payment, only if it is deeper than TOKEN_INDEXER_REORG_DEPTH
+ * (shallower blocks may still be replaced). Null means "not known locally", not "not on chain".
+ */
+export async function findFinalizedTransfer(params: {
+  network: string;
+  asset: string;
+  txHash: string;
+  to: string;
+  value: string;
+  from?: string;
+}): Promise<IndexedTransfer | null> {
+  const config = getConfig();
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT t.network, t.asset, t.block_number, t.block_timestamp, t.tx_hash, t.log_index,
+            t.from_address, t.to_address, t.value
+     FROM token_transfers t
+     JOIN token_indexer_cursors c ON c.network = t.network AND c.asset = t.asset
+     WHERE t.network = $1 AND t.asset = $2 AND t.tx_hash = $3 AND t.to_address = $4 AND t.value = $5
+       AND ($6::text IS NULL OR t.from_address = $6)
+       AND t.block_number <= c.last_block - $7
+     LIMIT 1`,
+    [
+      params.network,
+      params.asset.toLowerCase(),
+      params.txHash.toLowerCase(),
+      params.to.toLowerCase(),
+      params.value,
+      params.from?.toLowerCase() ?? null,
+      config.TOKEN_INDEXER_REORG_DEPTH,
+    ]
+  );
+  return result.rows.length > 0 ? mapIndexedTransferRow(result.rows[0]) : null;
+}
+
+/**
+ * Index one asset forward from its cursor, at most TOKEN_INDEXER_MAX_BLOCKS new blocks per call.
+ * The last TOKEN_INDEXER_REORG_DEPTH indexed blocks are read again and replaced, so a reorg within
+ * that depth drops transfers that left the chain and picks up their replacements.
+ * Returns null when there is nothing to read yet.
+ */
+export async function indexTokenTransfers(
+  params: { network: string; asset: string },
+  log: FastifyBaseLogger
+): Promise<{ fromBlock: string; toBlock: string; indexed: number; reorged: number } | null> {
+  const config = getConfig();
+  const pool = getPool();
+  const cursor = await getIndexerCursor(params);
+
+  let head: bigint;
+  let nextBlock: bigint;
+  let fromBlock: bigint;
+  if (cursor) {
+    ({ head } = await getBlockRange({ network: params.network }));
+    nextBlock = BigInt(cursor.lastBlock) + 1n;
+    const rewind = nextBlock - BigInt(config.TOKEN_INDEXER_REORG_DEPTH);
+    fromBlock = rewind > 0n ? rewind : 0n;
+  } else if (config.TOKEN_INDEXER_START_BLOCK) {
+    ({ head } = await getBlockRange({ network: params.network }));
+    nextBlock = BigInt(config.TOKEN_INDEXER_START_BLOCK);
+    fromBlock = nextBlock;
+  } else {
+    const range = await getBlockRange({
+      network: params.network,
+      fromTimestampMs: Date.now() - config.RECONCILE_LOOKBACK_DAYS * DAY_MS,
+    });
+    head = range.head;
+    nextBlock = range.fromBlock ?? head;
+    fromBlock = nextBlock;
+  }
+
+  const maxTo = nextBlock + BigInt(config.TOKEN_INDEXER_MAX_BLOCKS) - 1n;
+  const toBlock = head < maxTo ? head : maxTo;
+  if (fromBlock > toBlock) return null;
+
+  const transfers = await getTokenTransferLogs({
+    network: params.network,
+    assetContract: params.asset,
+    fromBlock,
+    toBlock,
+  });
+  const toBlockTimestamp = await getBlockTimestamp({ network: params.network, blockNumber: toBlock });
+
+  const client = await pool.connect();
+  let removed: Array<{ tx_hash: string; log_index: number; block_hash: string }>;
+  try {
+    await client.query('BEGIN');
+
+    const deleted = await client.query(
+      `DELETE FROM token_transfers WHERE network = $1 AND asset = $2 AND block_number >= $3
+       RETURNING tx_hash, log_index, block_hash`,
+      [params.network, params.asset, fromBlock.toString()]
+    );
+    removed = deleted.rows;
+
+    for (const transfer of transfers) {
+      await client.query(
+        `INSERT INTO token_transfers (network, asset, block_number, block_hash, block_timestamp, tx_hash, log_index,
+                                      from_address, to_address, value)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+        [
+          params.network,
+          params.asset,
+          transfer.blockNumber,
+          transfer.blockHash,
+          transfer.blockTimestamp,
+          transfer.txHash,
+          transfer.logIndex,
+          transfer.from,
+          transfer.to,
+          transfer.value,
+        ]
+      );
+    }
+
+    await client.query(
+      `INSERT INTO token_indexer_cursors (network, asset, last_block, last_block_timestamp)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (network, asset) DO UPDATE SET
+         last_block = EXCLUDED.last_block,
+         last_block_timestamp = EXCLUDED.last_block_timestamp`,
+      [params.network, params.asset, toBlock.toString(), toBlockTimestamp]
+    );
+
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK');
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  // Rows re-read unchanged carry the same block hash; anything else left the canonical chain
+  const current = new Set(transfers.map((t) => `${t.txHash}:${t.logIndex}:${t.blockHash}`));
+  const reorged = removed.filter((r) => !current.has(`${r.tx_hash}:${r.log_index}:${r.block_hash}`)).length;
+  if (reorged > 0) {
+    log.warn(
+      { network: params.network, asset: params.asset, fromBlock: fromBlock.toString(), reorged },
+      'Token indexer rolled back reorged transfers'
+    );
+  }
+
+  return { fromBlock: fromBlock.toString(), toBlock: toBlock.toString(), indexed: transfers.length, reorged };
+}
+
+/**
+ * Follow every indexed asset every TOKEN_INDEXER_INTERVAL_MS. Returns a stop function. Mock and
+ * local-facilitator transfers never reach a chain, so the indexer does not run in those modes.
+ */
+export function startTokenIndexer(log: FastifyBaseLogger): () => void {
+  const config = getConfig();
+  if (config.TOKEN_INDEXER_INTERVAL_MS === 0 || config.X402_MOCK_MODE || config.X402_LOCAL_FACILITATOR) {
+    return () => {};
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    (async () => {
+      for (const pair of await listIndexedAssets()) {
+        try {
+          await indexTokenTransfers(pair, log);
+        } catch (err) {
+          // The cursor only moves on success, so the next tick retries the same range
+          log.warn({ err, network: pair.network, asset: pair.asset }, 'Token indexer pass failed');
+        }
+      }
+    })()
+      .catch((err) => log.error(err, 'Token indexer tick failed'))
+      .finally(() => {
+        running = false;
+      });
+  }, config.TOKEN_INDEXER_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,503 @@
+import { createHmac, randomBytes } from 'crypto';
+import { lookup as dnsLookup } from 'dns';
+import { lookup as resolveHost } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import type { FastifyBaseLogger } from 'fastify';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookSubscription } from '@soulforge/shared';
+import { getConfig } from '../config.js';
+import { getPool } from '../lib/db.js';
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// A delivery left 'processing' this long (e.g. the process died mid-request) is picked up again
+const STALE_LOCK_INTERVAL = '5 minutes';
+const BATCH_SIZE = 20;
+
+// Webhooks may only reach the public internet: no loopback, private, link-local, CGNAT, multicast or reserved
+// ranges. The IPv4 rules also match IPv4-mapped IPv6 addresses (::ffff:a.b.c.d); NAT64 is blocked outright.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class WebhookDestinationError extends Error {
+  constructor(message = 'Webhook URL must resolve to a public address') {
+    super(message);
+    this.name = 'WebhookDestinationError';
+  }
+}
+
+const SUBSCRIPTION_COLUMNS = 'id, owner_user_id, module_id, url, events, active, created_at, updated_at';
+
+const DELIVERY_COLUMNS = `id, subscription_id, event, payload, status, attempts, max_attempts, next_attempt_at,
+                          last_status_code, last_error, created_at, updated_at, delivered_at`;
+
+function mapSubscriptionRow(row: Record<string, unknown>): WebhookSubscription {
+  return {
+    id: row.id as string,
+    ownerUserId: row.owner_user_id as string,
+    moduleId: (row.module_id as string | null) ?? null,
+    url: row.url as string,
+    events: row.events as WebhookEvent[],
+    active: row.active as boolean,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date,
+  };
+}
+
+function mapDeliveryRow(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    subscriptionId: row.subscription_id as string,
+    event: row.event as WebhookEvent,
+    payload: row.payload as Record<string, unknown>,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts as number,
+    maxAttempts: row.max_attempts as number,
+    nextAttemptAt: row.next_attempt_at as Date,
+    lastStatusCode: (row.last_status_code as number | null) ?? null,
+    lastError: (row.last_error as string | null) ?? null,
+    createdAt: row.created_at as Date,
+    updatedAt: row.updated_at as Date,
+    deliveredAt: (row.delivered_at as Date | null) ?? null,
+  };
+}
+
+/**
+ * Backoff before the next attempt: base * 2^(attempt-1), capped at 1 hour
+ */
+function getRetryDelayMs(attempt: number): number {
+  const { WEBHOOK_RETRY_BASE_MS } = getConfig();
+  return Math.min(MAX_RETRY_DELAY_MS, WEBHOOK_RETRY_BASE_MS * Math.pow(2, Math.max(0, attempt - 1)));
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  return family === 0 || BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolve the URL's host and throw WebhookDestinationError unless every address it resolves to is public.
+ * Checked when a subscription is saved and again before each delivery, since DNS can change in between.
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  if (isIP(hostname)) {
+    if (isBlockedAddress(hostname)) throw new WebhookDestinationError();
+    return;
+  }
+
+  const addresses = await resolveHost(hostname, { all: true, verbatim: true }).catch(() => {
+    throw new WebhookDestinationError('Webhook URL host does not resolve');
+  });
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new WebhookDestinationError();
+  }
+}
+
+// Used for the delivery socket itself, so the address connected to is the one that was checked
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '');
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new WebhookDestinationError(), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POST the body and resolve with the status code. Redirects are not followed and the response body is discarded.
+ */
+function postWebhook(url: string, headers: Record<string, string>, body: string, timeoutMs: number): Promise<number> {
+  const target = new URL(url);
+  const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = send(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicOnlyLookup,
+        timeout: timeoutMs,
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on('timeout', () => req.destroy(new Error('Timed out')));
+    req.on('error', reject);
+    req.end(body);
+  });
+}
+
+// Only a fixed, short reason is stored: never text that came from the receiver or its network
+function describeDeliveryError(err: unknown): string {
+  if (err instanceof WebhookDestinationError) return err.message;
+  if (err instanceof Error && err.message === 'Timed out') return 'Timed out';
+  const code = (err as NodeJS.ErrnoException | null)?.code;
+  return typeof code === 'string' && /^E[A-Z_]+$/.test(code) ? `Connection failed (${code})` : 'Connection failed';
+}
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}`, sent as `X-SoulForge-Signature: t=<timestamp>,v1=<signature>`.
+ * Receivers recompute it over the raw request body and should reject stale timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export async function createWebhookSubscription(params: {
+  ownerUserId: string;
+  moduleId: string | null;
+  url: string;
+  events: WebhookEvent[];
+}): Promise<{ subscription: WebhookSubscription; secret: string }> {
+  const pool = getPool();
+  const secret = `whsec_${randomBytes(24).toString('hex')}`;
+  const result = await pool.query(
+    `INSERT INTO webhook_subscriptions (owner_user_id, module_id, url, events, secret)
+     VALUES ($1, $2, $3, $4, $5)
+     RETURNING ${SUBSCRIPTION_COLUMNS}`,
+    [params.ownerUserId, params.moduleId, params.url, params.events, secret]
+  );
+  return { subscription: mapSubscriptionRow(result.rows[0]), secret };
+}
+
+export async function listWebhookSubscriptions(ownerUserId: string): Promise<WebhookSubscription[]> {
+  const pool = getPool();
+  const result = await pool.query(
+    `SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions WHERE owner_user_id = $1 ORDER BY created_at DESC`,
+    [ownerUserId]
+  );
+  return result.rows.map(mapSubscriptionRow);
+}
+
+/**
+ * Change a subscription's URL, events or active flag. Returns null if the seller does not own it.
+ */
+export async function updateWebhookSubscription(
+  id: string,
+  ownerUserId: string,
+  changes: { url?: string; events?: WebhookEvent[]; active?: boolean }
+): Promise<WebhookSubscription | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE webhook_subscriptions
+     SET url = COALESCE($3, url), events = COALESCE($4, events), active = COALESCE($5, active)
+     WHERE id = $1 AND owner_user_id = $2
+     RETURNING ${SUBSCRIPTION_COLUMNS}`,
+    [id, ownerUserId, changes.url ?? null, changes.events ?? null, changes.active ?? null]
+  );
+  return result.rows.length > 0 ? mapSubscriptionRow(result.rows[0]) : null;
+}
+
+/**
+ * Delete a subscription and its delivery log
+ */
+export async function deleteWebhookSubscription(id: string, ownerUserId: string): Promise<boolean> {
+  const pool = getPool();
+  const result = await pool.query('DELETE FROM webhook_subscriptions WHERE id = $1 AND owner_user_id = $2', [
+    id,
+    ownerUserId,
+  ]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Queue `event` for every active subscription of the module's owner that covers the module.
+ * Best effort: a failure is logged and never reaches the caller. Returns how many deliveries were queued.
+ */
+export async function emitWebhookEvent(
+  params: { event: WebhookEvent; moduleId: string; data: Record<string, unknown> },
+  log?: FastifyBaseLogger
+): Promise<number> {
+  try {
+    const pool = getPool();
+    const result = await pool.query(
+      `INSERT INTO webhook_deliveries (subscription_id, event, payload, max_attempts)
+       SELECT s.id, $2, $3, $4
+       FROM webhook_subscriptions s
+       JOIN modules m ON m.owner_user_id = s.owner_user_id
+       WHERE m.id = $1 AND s.active AND (s.module_id IS NULL OR s.module_id = m.id) AND $2 = ANY(s.events)`,
+      [params.moduleId, params.event, JSON.stringify(params.data), getConfig().WEBHOOK_MAX_ATTEMPTS]
+    );
+    return result.rowCount ?? 0;
+  } catch (err) {
+    log?.warn({ err, event: params.event, moduleId: params.moduleId }, 'Failed to queue webhook event');
+    return 0;
+  }
+}
+
+/**
+ * Emit payment.settled or payment.failed for a recorded payment ('pending' payments emit once they resolve)
+ */
+export async function emitPaymentWebhook(paymentId: string, log?: FastifyBaseLogger): Promise<void> {
+  try {
+    const pool = getPool();
+    const result = await pool.query(
+      `SELECT id, module_id, payer_wallet, pay_to, value, tx_hash, network, asset, event, error,
+              error_code, created_at
+       FROM payments WHERE id = $1`,
+      [paymentId]
+    );
+    const row = result.rows[0];
+    if (!row || !row.module_id || (row.event !== 'settled' && row.event !== 'failed')) return;
+
+    await emitWebhookEvent(
+      {
+        event: row.event === 'settled' ? 'payment.settled' : 'payment.failed',
+        moduleId: row.module_id,
+        data: {
+          paymentId: row.id,
+          moduleId: row.module_id,
+          payerWallet: row.payer_wallet,
+          payTo: row.pay_to,
+          value: row.value,
+          txHash: row.tx_hash,
+          network: row.network,
+          asset: row.asset,
+          error: row.error,
+          errorCode: row.error_code,
+          createdAt: row.created_at,
+        },
+      },
+      log
+    );
+  } catch (err) {
+    log?.warn({ err, paymentId }, 'Failed to queue payment webhook');
+  }
+}
+
+// POST one delivery and record the outcome: delivered, rescheduled with backoff, or dead
+async function attemptDelivery(row: Record<string, unknown>, log?: FastifyBaseLogger): Promise<void> {
+  const config = getConfig();
+  const pool = getPool();
+  const attempt = row.attempts as number;
+
+  const body = JSON.stringify({
+    id: row.id,
+    event: row.event,
+    createdAt: row.created_at,
+    data: row.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  try {
+    await assertPublicWebhookUrl(row.url as string);
+    statusCode = await postWebhook(
+      row.url as string,
+      {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SoulForge-Webhooks/1.0',
+        'X-SoulForge-Event': row.event as string,
+        'X-SoulForge-Delivery': row.id as string,
+        'X-SoulForge-Signature': `t=${timestamp},v1=${signWebhookPayload(row.secret as string, timestamp, body)}`,
+      },
+      body,
+      config.WEBHOOK_TIMEOUT_MS
+    );
+    // 3xx counts as a failure: a redirect could point anywhere, including an internal address
+    if (statusCode < 200 || statusCode >= 300) {
+      error = `HTTP ${statusCode}`;
+    }
+  } catch (err) {
+    error = describeDeliveryError(err);
+  }
+
+  if (!error) {
+    await pool.query(
+      `UPDATE webhook_deliveries
+       SET status = 'delivered', last_status_code = $2, last_error = NULL, locked_at = NULL, delivered_at = NOW()
+       WHERE id = $1`,
+      [row.id, statusCode]
+    );
+  } else if (attempt < (row.max_attempts as number)) {
+    await pool.query(
+      `UPDATE webhook_deliveries
+       SET status = 'queued', last_status_code = $2, last_error = $3, locked_at = NULL,
+           next_attempt_at = NOW() + ($4::int * INTERVAL '1 millisecond')
+       WHERE id = $1`,
+      [row.id, statusCode, error, getRetryDelayMs(attempt)]
+    );
+    log?.warn({ deliveryId: row.id, attempt, error }, 'Webhook delivery failed, will retry');
+  } else {
+    await pool.query(
+      `UPDATE webhook_deliveries
+       SET status = 'dead', last_status_code = $2, last_error = $3, locked_at = NULL
+       WHERE id = $1`,
+      [row.id, statusCode, error]
+    );
+    log?.warn({ deliveryId: row.id, attempt, error }, 'Webhook delivery gave up');
+  }
+}
+
+// Lock deliveries (all due ones, or the given ids) and count the attempt
+async function claimDeliveries(params: { limit: number; ids?: string[] }): Promise<Array<Record<string, unknown>>> {
+  const pool = getPool();
+  const result = await pool.query(
+    `WITH claimed AS (
+       UPDATE webhook_deliveries
+       SET status = 'processing', locked_at = NOW(), attempts = attempts + 1
+       WHERE id IN (
+         SELECT id FROM webhook_deliveries
+         WHERE ($2::uuid[] IS NULL AND status = 'queued' AND next_attempt_at <= NOW())
+            OR ($2::uuid[] IS NULL AND status = 'processing' AND locked_at < NOW() - INTERVAL '${STALE_LOCK_INTERVAL}')
+            OR (id = ANY($2::uuid[]) AND status = 'queued')
+         ORDER BY next_attempt_at ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id, subscription_id, event, payload, attempts, max_attempts, created_at
+     )
+     SELECT c.*, s.url, s.secret
+     FROM claimed c
+     JOIN webhook_subscriptions s ON s.id = c.subscription_id`,
+    [params.limit, params.ids ?? null]
+  );
+  return result.rows;
+}
+
+/**
+ * Attempt every due delivery once
+ */
+export async function processDueWebhooks(log?: FastifyBaseLogger): Promise<number> {
+  const deliveries = await claimDeliveries({ limit: BATCH_SIZE });
+  for (const delivery of deliveries) {
+    await attemptDelivery(delivery, log);
+  }
+  return deliveries.length;
+}
+
+/**
+ * Poll for due deliveries every WEBHOOK_WORKER_INTERVAL_MS. Returns a stop function.
+ */
+export function startWebhookWorker(log: FastifyBaseLogger): () => void {
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    processDueWebhooks(log)
+      .catch((err) => log.error(err, 'Webhook worker tick failed'))
+      .finally(() => {
+        running = false;
+      });
+  }, getConfig().WEBHOOK_WORKER_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+async function getDelivery(id: string): Promise<WebhookDelivery> {
+  const pool = getPool();
+  const result = await pool.query(`SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries WHERE id = $1`, [id]);
+  return mapDeliveryRow(result.rows[0]);
+}
+
+/**
+ * Send a webhook.ping to a subscription right away (even if inactive) and return the logged delivery.
+ * Returns null if the seller does not own the subscription.
+ */
+export async function pingWebhookSubscription(id: string, ownerUserId: string): Promise<WebhookDelivery | null> {
+  const pool = getPool();
+  const inserted = await pool.query(
+    `INSERT INTO webhook_deliveries (subscription_id, event, payload, max_attempts)
+     SELECT id, 'webhook.ping', $3, $4 FROM webhook_subscriptions WHERE id = $1 AND owner_user_id = $2
+     RETURNING id`,
+    [id, ownerUserId, JSON.stringify({ subscriptionId: id }), getConfig().WEBHOOK_MAX_ATTEMPTS]
+  );
+  if (inserted.rows.length === 0) return null;
+
+  const deliveryId = inserted.rows[0].id as string;
+  for (const delivery of await claimDeliveries({ limit: 1, ids: [deliveryId] })) {
+    await attemptDelivery(delivery);
+  }
+  return getDelivery(deliveryId);
+}
+
+/**
+ * Send a logged delivery again now with a fresh set of attempts. Returns null if the seller does not
+ * own it; a delivery another worker is sending right now is returned unchanged.
+ */
+export async function redeliverWebhook(id: string, ownerUserId: string): Promise<WebhookDelivery | null> {
+  const pool = getPool();
+  const result = await pool.query(
+    `UPDATE webhook_deliveries d
+     SET status = 'queued', attempts = 0, max_attempts = $3, next_attempt_at = NOW(), delivered_at = NULL
+     FROM webhook_subscriptions s
+     WHERE d.id = $1 AND s.id = d.subscription_id AND s.owner_user_id = $2 AND d.status <> 'processing'
+     RETURNING d.id`,
+    [id, ownerUserId, getConfig().WEBHOOK_MAX_ATTEMPTS]
+  );
+  if (result.rows.length === 0) {
+    const owned = await pool.query(
+      `SELECT 1 FROM webhook_deliveries d JOIN webhook_subscriptions s ON s.id = d.subscription_id
+       WHERE d.id = $1 AND s.owner_user_id = $2`,
+      [id, ownerUserId]
+    );
+    return owned.rows.length > 0 ? getDelivery(id) : null;
+  }
+
+  for (const delivery of await claimDeliveries({ limit: 1, ids: [id] })) {
+    await attemptDelivery(delivery);
+  }
+  return getDelivery(id);
+}
+
+/**
+ * A subscription's delivery log, newest first. Returns null if the seller does not own the subscription.
+ */
+export async function listWebhookDeliveries(params: {
+  subscriptionId: string;
+  ownerUserId: string;
+  status?: WebhookDeliveryStatus;
+  limit: number;
+}): Promise<WebhookDelivery[] | null> {
+  const pool = getPool();
+  const owned = await pool.query('SELECT 1 FROM webhook_subscriptions WHERE id = $1 AND owner_user_id = $2', [
+    params.subscriptionId,
+    params.ownerUserId,
+  ]);
+  if (owned.rows.length === 0) return null;
+
+  const values: unknown[] = [params.subscriptionId, params.limit];
+  let statusFilter = '';
+  if (params.status) {
+    values.push(params.status);
+    statusFilter = `AND status = $${values.length}`;
+  }
+
+  const result = await pool.query(
+    `SELECT ${DELIVERY_COLUMNS} FROM webhook_deliveries
+     WHERE subscription_id = $1 ${statusFilter}
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    values
+  );
+  return result.rows.map(mapDeliveryRow);
+}
@@ -1,80 +1,298 @@
 import { getConfig } from '../config.js';
-import type { PaymentRequirements } from '@soulforge/shared';
+import { PAYMENT_ERROR_RECOVERY } from '@soulforge/shared';
+import type {
+  PaymentErrorCode,
+  PaymentErrorRecovery,
+  PaymentOption,
+  PaymentRequirements,
+  PaymentScheme,
+} from '@soulforge/shared';
 import { randomBytes } from 'crypto';
 import { getAddress, type Address } from 'viem';
+import { checkTransferAuthorization } from './facilitator.js';
+import { getChainId, normalizeNetworkName } from './chains.js';
+import { claimPaymentNonce, isPaymentNonceUsed, releasePaymentNonce } from './payment-nonces.js';
+
+// Machine-readable reason for rejections clients can act on
+export type PaymentRejectReason = 'nonce_reused';
 
 interface VerifyResult {
   valid: boolean;
   error?: string;
+  code?: PaymentErrorCode;
+  reason?: PaymentRejectReason;
   payer?: string;
   value?: string;
+  nonce?: string;
 }
 
-type SettleResult =
-  | { success: true; txHash: string; isMock?: boolean }
-  | { success: false; error: string };
+export type SettleResult =
+  | { success: true; txHash: string; isMock?: boolean; nonce?: string }
+  | { success: false; error: string; code: PaymentErrorCode; reason?: PaymentRejectReason; retryable?: boolean };
+
+type ClaimResult =
+  | { success: true; nonce: string; release: () => Promise<void> }
+  | { success: false; error: string; code: PaymentErrorCode; reason?: PaymentRejectReason };
+
+export type SettlementClaim = Extract<ClaimResult, { success: true }>;
+
+const NONCE_REUSED_ERROR = 'Payment authorization already used (nonce replay)';
+
+// Checked in order against facilitator and local verifier messages; the first match wins
+const PAYMENT_ERROR_PATTERNS: Array<[RegExp, PaymentErrorCode]> = [
+  [/nonce.*(already used|replay|reuse)|(already used|replayed).*nonce|authorization.*already used/i, 'NONCE_REUSED'],
+  [/insufficient (balance|funds)|exceeds balance/i, 'INSUFFICIENT_FUNDS'],
+  [/insufficient (value|amount)|amount (is )?(too low|below)/i, 'INSUFFICIENT_AMOUNT'],
+  [/expired|valid ?before/i, 'EXPIRED'],
+  [/not yet valid|valid ?after/i, 'NOT_YET_VALID'],
+  [/signature|signer/i, 'BAD_SIGNATURE'],
+  [/network|chain ?id/i, 'WRONG_NETWORK'],
+  [/asset|token contract/i, 'WRONG_ASSET'],
+  [/recipient|pay ?to/i, 'WRONG_RECIPIENT'],
+  [/scheme/i, 'SCHEME_MISMATCH'],
+  [/decode|structure|x402 ?version|malformed|missing payer|invalid (payload|authorization)/i, 'INVALID_PAYLOAD'],
+];
+
+/**
+ * Map a verify/settle failure onto the payment error taxonomy. Facilitators only return free-form
+ * reasons, so this matches their wording; 5xx/429 and transport errors are FACILITATOR_UNAVAILABLE.
+ */
+export function classifyPaymentError(
+  message: string | null | undefined,
+  fallback: PaymentErrorCode = 'UNKNOWN',
+  httpStatus?: number
+): PaymentErrorCode {
+  if (httpStatus !== undefined && (httpStatus >= 500 || httpStatus === 429)) return 'FACILITATOR_UNAVAILABLE';
+  if (!message) return fallback;
+  return PAYMENT_ERROR_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ?? fallback;
+}
+
+/**
+ * Machine-readable fields added to payment rejection bodies
+ */
+export function describePaymentError(code: PaymentErrorCode = 'UNKNOWN'): {
+  code: PaymentErrorCode;
+  recovery: PaymentErrorRecovery;
+} {
+  return { code, recovery: PAYMENT_ERROR_RECOVERY[code] };
+}
+
+// Where a payment is made; defaults to the global X402_NETWORK / X402_ASSET_CONTRACT
+export interface PaymentTarget {
+  network: string;
+  asset: string;
+  eip712Name?: string;
+  eip712Version?: string;
+}
+
+function normalizeAddress(value: string): string {
+  if (/^0x[a-fA-F0-9]{40}$/.test(value)) return getAddress(value.toLowerCase() as Address);
+  return value;
+}
 
 export function buildPaymentRequirements(
   payTo: string,
   amount: string,
-  description: string
+  description: string,
+  scheme: PaymentScheme = 'exact',
+  target?: PaymentTarget
 ): PaymentRequirements {
   const config = getConfig();
-
-  const normalizeAddress = (value: string): string => {
-    if (/^0x[a-fA-F0-9]{40}$/.test(value)) return getAddress(value.toLowerCase() as Address);
-    return value;
-  };
+  const network = target?.network ?? config.X402_NETWORK;
 
   return {
-    scheme: 'exact',
-    network: config.X402_NETWORK,
+    scheme,
+    network,
     payTo: normalizeAddress(payTo),
     asset: normalizeAddress(
-      config.X402_ASSET_CONTRACT || '0x0000000000000000000000000000000000000000'
+      target?.asset || config.X402_ASSET_CONTRACT || '0x0000000000000000000000000000000000000000'
     ),
     description,
     mimeType: 'application/json',
     maxAmountRequired: amount,
     maxTimeoutSeconds: 300,
+    extra: {
+      name: target?.eip712Name ?? config.X402_EIP712_NAME,
+      version: target?.eip712Version ?? config.X402_EIP712_VERSION,
+      chainId: getChainId(network) ?? config.X402_CHAIN_ID,
+    },
   };
 }
 
+/**
+ * Build every payment option a module accepts (x402 `accepts`).
+ * The module's primary network/asset comes first; options on unknown networks are skipped.
+ */
+export function buildAcceptedPaymentRequirements(params: {
+  payTo: string;
+  priceAmount: string;
+  description: string;
+  scheme?: PaymentScheme;
+  paymentOptions?: PaymentOption[] | null;
+}): PaymentRequirements[] {
+  const scheme = params.scheme ?? 'exact';
+  const accepts = [buildPaymentRequirements(params.payTo, params.priceAmount, params.description, scheme)];
+
+  for (const option of params.paymentOptions ?? []) {
+    const network = normalizeNetworkName(option.network);
+    if (!network) continue;
+
+    const requirements = buildPaymentRequirements(
+      option.payTo ?? params.payTo,
+      option.priceAmount ?? params.priceAmount,
+      params.description,
+      scheme,
+      { ...option, network }
+    );
+
+    const duplicate = accepts.some(
+      (r) => r.network === requirements.network && r.asset.toLowerCase() === requirements.asset.toLowerCase()
+    );
+    if (!duplicate) accepts.push(requirements);
+  }
+
+  return accepts;
+}
+
+/**
+ * Pick the accepted option a payment header was signed for (matched on network and asset).
+ * Returns null if the header targets a network/asset the module does not accept.
+ */
+export function selectPaymentRequirements(
+  paymentHeader: string,
+  accepts: PaymentRequirements[]
+): PaymentRequirements | null {
+  let decoded: { network?: string; payload?: { asset?: string } };
+  try {
+    decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString());
+  } catch {
+    // Let verification report the decode error against the primary option
+    return accepts[0] ?? null;
+  }
+
+  if (typeof decoded?.network !== 'string') return accepts[0] ?? null;
+  const network = normalizeNetworkName(decoded.network) ?? decoded.network;
+  const candidates = accepts.filter((r) => (normalizeNetworkName(r.network) ?? r.network) === network);
+  const asset = decoded?.payload?.asset;
+
+  if (typeof asset === 'string') {
+    return candidates.find((r) => r.asset.toLowerCase() === asset.toLowerCase()) ?? null;
+  }
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Convert an amount priced against one option into another option's units,
+ * rounding up (used to scale metered charges across assets).
+ */
+export function scaleAmount(amount: string, fromPrice: string, toPrice: string): string {
+  if (fromPrice === toPrice) return amount;
+  const scaled = (BigInt(amount) * BigInt(toPrice) + BigInt(fromPrice) - 1n) / BigInt(fromPrice);
+  return (scaled > BigInt(toPrice) ? BigInt(toPrice) : scaled).toString();
+}
+
+/**
+ * Compute the charge for a metered ('upto') turn: price per 1k tokens, rounded up,
+ * at least 1 unit and never more than the authorized maximum.
+ */
+export function computeMeteredCharge(totalTokens: number, pricePer1kTokens: string, maxAmount: string): string {
+  const max = BigInt(maxAmount);
+  const raw = (BigInt(Math.max(0, Math.ceil(totalTokens))) * BigInt(pricePer1kTokens) + 999n) / 1000n;
+  const charge = raw < 1n ? 1n : raw;
+  return (charge > max ? max : charge).toString();
+}
+
 function decodePaymentHeader(paymentHeader: string): {
   payer?: string;
   value?: string;
+  nonce?: string;
+  asset?: string;
+  validBefore?: number | string;
   error?: string;
 } {
   try {
     const decoded = JSON.parse(Buffer.from(paymentHeader, 'base64').toString()) as {
-      payload?: { from?: string; value?: string };
+      payload?: { from?: string; value?: string; nonce?: string; asset?: string; validBefore?: number | string };
     };
     return {
       payer: decoded?.payload?.from,
       value: decoded?.payload?.value,
+      nonce: decoded?.payload?.nonce,
+      asset: decoded?.payload?.asset,
+      validBefore: decoded?.payload?.validBefore,
     };
   } catch {
     return { error: 'Failed to decode payment header' };
   }
 }
 
+/**
+ * When the header's authorization stops being settleable (its EIP-3009 validBefore), or null if it has none
+ */
+export function getPaymentValidBefore(paymentHeader: string): Date | null {
+  const seconds = Number(decodePaymentHeader(paymentHeader).validBefore);
+  return Number.isFinite(seconds) && seconds > 0 ? new Date(seconds * 1000) : null;
+}
+
+function getNonceKey(
+  decoded: ReturnType<typeof decodePaymentHeader>,
+  paymentRequirements: PaymentRequirements
+): { payer: string; asset: string; nonce: string } | null {
+  if (!decoded.payer || !decoded.nonce) return null;
+  return {
+    payer: decoded.payer,
+    asset: decoded.asset || paymentRequirements.asset,
+    nonce: decoded.nonce,
+  };
+}
+
 export async function verifyPayment(
   paymentHeader: string,
   paymentRequirements: PaymentRequirements
 ): Promise<VerifyResult> {
   const config = getConfig();
 
+  // Reject replayed authorizations before asking anyone else
+  const preDecoded = decodePaymentHeader(paymentHeader);
+  const nonceKey = getNonceKey(preDecoded, paymentRequirements);
+  if (nonceKey && (await isPaymentNonceUsed(nonceKey))) {
+    return {
+      valid: false,
+      error: NONCE_REUSED_ERROR,
+      code: 'NONCE_REUSED',
+      reason: 'nonce_reused',
+      payer: preDecoded.payer,
+      value: preDecoded.value,
+      nonce: preDecoded.nonce,
+    };
+  }
+
   if (config.X402_MOCK_MODE) {
-    const decoded = decodePaymentHeader(paymentHeader);
-    if (decoded.error) return { valid: false, error: decoded.error };
-    if (!decoded.payer || !decoded.value) return { valid: false, error: 'Invalid payment structure' };
-    return { valid: true, payer: decoded.payer, value: decoded.value };
+    // Mock mode skips the facilitator but runs the same semantic checks it would:
+    // recipient, asset, network, amount, validity window and EIP-712 signature.
+    const check = await checkTransferAuthorization(paymentHeader, paymentRequirements);
+    if (!check.isValid) {
+      return {
+        valid: false,
+        error: check.invalidReason,
+        code: classifyPaymentError(check.invalidReason, 'INVALID_PAYLOAD'),
+        payer: check.payer,
+        value: preDecoded.value,
+        nonce: preDecoded.nonce,
+      };
+    }
+    return {
+      valid: true,
+      payer: check.payer,
+      value: check.authorization.value,
+      nonce: check.authorization.nonce,
+    };
   }
 
   // Real mode: call facilitator
   const facilitatorUrl = config.X402_FACILITATOR_BASE_URL;
   if (!facilitatorUrl) {
-    return { valid: false, error: 'X402_FACILITATOR_BASE_URL not configured' };
+    return { valid: false, error: 'X402_FACILITATOR_BASE_URL not configured', code: 'FACILITATOR_UNAVAILABLE' };
   }
 
   try {
@@ -99,6 +317,7 @@ export async function verifyPayment(
         payer: decoded.payer,
         value: decoded.value,
         error: `Verify failed: ${response.status} ${errorText}`,
+        code: classifyPaymentError(errorText, 'UNKNOWN', response.status),
       };
     }
 
@@ -112,7 +331,9 @@ export async function verifyPayment(
         valid: result.isValid,
         payer: decoded.payer,
         value: decoded.value,
+        nonce: decoded.nonce,
         error: result.isValid ? undefined : result.invalidReason || 'Payment verification failed',
+        code: result.isValid ? undefined : classifyPaymentError(result.invalidReason),
       };
     }
 
@@ -121,27 +342,165 @@ export async function verifyPayment(
         valid: result.valid,
         payer: result.payer ?? decoded.payer,
         value: result.value ?? decoded.value,
+        nonce: decoded.nonce,
       };
     }
 
+    const error = 'error' in result && typeof result.error === 'string' ? result.error : 'Unexpected verify response';
     return {
       valid: false,
       payer: decoded.payer,
       value: decoded.value,
-      error:
-        'error' in result && typeof result.error === 'string'
-          ? result.error
-          : 'Unexpected verify response',
+      error,
+      code: classifyPaymentError(error),
     };
   } catch (err) {
     const msg = err instanceof Error ? err.message : 'Unknown error';
-    return { valid: false, error: `Verify request failed: ${msg}` };
+    return { valid: false, error: `Verify request failed: ${msg}`, code: 'FACILITATOR_UNAVAILABLE' };
   }
 }
 
+/**
+ * Settle a verified payment. For the 'upto' scheme pass the final `amount`
+ * (at most the authorized value); 'exact' always settles the authorized value.
+ */
 export async function settlePayment(
   paymentHeader: string,
-  paymentRequirements: PaymentRequirements
+  paymentRequirements: PaymentRequirements,
+  options: { amount?: string } = {}
+): Promise<SettleResult> {
+  const claim = await claimSettlement(paymentHeader, paymentRequirements, options);
+  if (!claim.success) return claim;
+
+  const result = await settleWithFacilitator(paymentHeader, paymentRequirements, options.amount);
+  if (!result.success) {
+    await claim.release();
+    return result;
+  }
+
+  return { ...result, nonce: claim.nonce };
+}
+
+/**
+ * Validate a settlement and claim its nonce without contacting the facilitator,
+ * so a payment can be queued for background settlement while replays are already rejected.
+ */
+export async function claimSettlement(
+  paymentHeader: string,
+  paymentRequirements: PaymentRequirements,
+  options: { amount?: string } = {}
+): Promise<ClaimResult> {
+  const decoded = decodePaymentHeader(paymentHeader);
+  const nonceKey = getNonceKey(decoded, paymentRequirements);
+  if (!nonceKey) {
+    return {
+      success: false,
+      error: decoded.error || 'Payment header is missing payer or nonce',
+      code: 'INVALID_PAYLOAD',
+    };
+  }
+
+  const amountError = checkSettlementAmount(decoded, paymentRequirements, options.amount);
+  if (amountError) return amountError;
+
+  // Claim the nonce first so concurrent replays of the same header cannot both settle
+  const claimed = await claimPaymentNonce({ ...nonceKey, network: paymentRequirements.network });
+  if (!claimed) {
+    return { success: false, error: NONCE_REUSED_ERROR, code: 'NONCE_REUSED', reason: 'nonce_reused' };
+  }
+
+  return { success: true, nonce: nonceKey.nonce, release: () => releasePaymentNonce(nonceKey) };
+}
+
+/**
+ * Finish a settlement whose nonce claimSettlement already took (e.g. before a metered turn is generated):
+ * check the final `amount`, then submit it to the facilitator, or with `defer` leave that to the settlement
+ * worker. The claim is released if this fails.
+ */
+export async function completeClaimedSettlement(
+  claim: SettlementClaim,
+  paymentHeader: string,
+  paymentRequirements: PaymentRequirements,
+  options: { amount?: string; defer?: boolean } = {}
+): Promise<SettleResult | ClaimResult> {
+  const amountError = checkSettlementAmount(decodePaymentHeader(paymentHeader), paymentRequirements, options.amount);
+  if (amountError) {
+    await claim.release();
+    return amountError;
+  }
+  if (options.defer) return claim;
+
+  const result = await settleWithFacilitator(paymentHeader, paymentRequirements, options.amount);
+  if (!result.success) {
+    await claim.release();
+    return result;
+  }
+  return { ...result, nonce: claim.nonce };
+}
+
+// An 'upto' settlement amount must be a positive integer within the authorized value
+function checkSettlementAmount(
+  decoded: ReturnType<typeof decodePaymentHeader>,
+  paymentRequirements: PaymentRequirements,
+  amount: string | undefined
+): Extract<ClaimResult, { success: false }> | null {
+  if (amount === undefined) return null;
+  if (paymentRequirements.scheme !== 'upto') {
+    return {
+      success: false,
+      error: 'Settlement amount is only supported for the upto scheme',
+      code: 'SCHEME_MISMATCH',
+    };
+  }
+  if (!/^\d+$/.test(amount) || BigInt(amount) <= 0n) {
+    return {
+      success: false,
+      error: 'Settlement amount must be a positive integer string',
+      code: 'SETTLEMENT_FAILED',
+    };
+  }
+  if (!decoded.value || !/^\d+$/.test(decoded.value) || BigInt(amount) > BigInt(decoded.value)) {
+    return { success: false, error: 'Settlement amount exceeds authorized value', code: 'SETTLEMENT_FAILED' };
+  }
+  return null;
+}
+
+/**
+ * Submit an already-claimed settlement to the facilitator (used by the settlement worker)
+ */
+export async function submitSettlement(
+  paymentHeader: string,
+  paymentRequirements: PaymentRequirements,
+  amount?: string
+): Promise<SettleResult> {
+  return settleWithFacilitator(paymentHeader, paymentRequirements, amount);
+}
+
+/**
+ * X-PAYMENT-RESPONSE header value: base64 JSON settlement response per the x402 spec
+ */
+export function encodePaymentResponseHeader(params: {
+  success: boolean;
+  transaction: string | null;
+  network: string;
+  payer: string | null;
+  errorReason?: string;
+}): string {
+  return Buffer.from(
+    JSON.stringify({
+      success: params.success,
+      transaction: params.transaction ?? '',
+      network: params.network,
+      payer: params.payer ?? '',
+      ...(params.errorReason ? { errorReason: params.errorReason } : {}),
+    })
+  ).toString('base64');
+}
+
+async function settleWithFacilitator(
+  paymentHeader: string,
+  paymentRequirements: PaymentRequirements,
+  amount?: string
 ): Promise<SettleResult> {
   const config = getConfig();
 
@@ -157,7 +516,7 @@ export async function settlePayment(
   // Real mode: call facilitator
   const facilitatorUrl = config.X402_FACILITATOR_BASE_URL;
   if (!facilitatorUrl) {
-    return { success: false, error: 'X402_FACILITATOR_BASE_URL not configured' };
+    return { success: false, error: 'X402_FACILITATOR_BASE_URL not configured', code: 'FACILITATOR_UNAVAILABLE' };
   }
 
   try {
@@ -171,12 +530,19 @@ export async function settlePayment(
         x402Version: 1,
         paymentHeader,
         paymentRequirements,
+        // 'upto' scheme: final amount to transfer (<= authorized value)
+        ...(amount !== undefined ? { amount } : {}),
       }),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
-      return { success: false, error: `Settle failed: ${response.status} ${errorText}` };
+      return {
+        success: false,
+        error: `Settle failed: ${response.status} ${errorText}`,
+        code: classifyPaymentError(errorText, 'SETTLEMENT_FAILED', response.status),
+        retryable: response.status >= 500 || response.status === 429,
+      };
     }
 
     const result = (await response.json()) as
@@ -190,26 +556,38 @@ export async function settlePayment(
     if ('event' in result) {
       if (result.event === 'payment.settled') {
         if (!isTxHash(result.txHash)) {
-          return { success: false, error: 'Settlement returned invalid txHash' };
+          return { success: false, error: 'Settlement returned invalid txHash', code: 'SETTLEMENT_FAILED' };
         }
         return { success: true, txHash: result.txHash };
       }
-      return { success: false, error: result.error || 'Payment settlement failed' };
+      return settleFailure(result.error);
     }
 
     if ('success' in result && typeof result.success === 'boolean') {
       if (result.success) {
         if (!isTxHash(result.txHash)) {
-          return { success: false, error: 'Settlement returned success without a valid txHash' };
+          return {
+            success: false,
+            error: 'Settlement returned success without a valid txHash',
+            code: 'SETTLEMENT_FAILED',
+          };
         }
         return { success: true, txHash: result.txHash };
       }
-      return { success: false, error: result.error || 'Payment settlement failed' };
+      return settleFailure(result.error);
     }
 
-    return { success: false, error: 'Unexpected settle response' };
+    return { success: false, error: 'Unexpected settle response', code: 'SETTLEMENT_FAILED' };
   } catch (err) {
     const msg = err instanceof Error ? err.message : 'Unknown error';
-    return { success: false, error: `Settle request failed: ${msg}` };
+    return { success: false, error: `Settle request failed: ${msg}`, code: 'FACILITATOR_UNAVAILABLE', retryable: true };
   }
 }
+
+function settleFailure(error: string | undefined): Extract<SettleResult, { success: false }> {
+  return {
+    success: false,
+    error: error || 'Payment settlement failed',
+    code: classifyPaymentError(error, 'SETTLEMENT_FAILED'),
+  };
+}
@@ -3,9 +3,12 @@
 import { useState, useEffect, useMemo, useRef } from 'react';
 import Link from 'next/link';
 import { useParams, useSearchParams } from 'next/navigation';
-import { useAccount, useSignTypedData } from 'wagmi';
+import { useAccount, useSignMessage, useSignTypedData } from 'wagmi';
+import { SiweMessage } from 'siwe';
+import type { PaymentErrorCode, PaymentErrorRecovery, PaymentRequirements } from '@soulforge/shared';
 import { getClientX402Config } from '../../../lib/x402-config';
 import { getTxExplorerUrl } from '../../../lib/explorer';
+import { solveProofOfWork, type FreeChallenge } from '../../../lib/free-challenge';
 import { Button } from '../../../components/ui/Button';
 import { Card } from '../../../components/ui/Card';
 import { Badge } from '../../../components/ui/Badge';
@@ -46,6 +49,20 @@ interface UpstreamPaymentInfo {
   network?: string;
 }
 
+// Buyer-facing text for payment error codes returned in 402 bodies
+const PAYMENT_ERROR_MESSAGES: Partial<Record<PaymentErrorCode, string>> = {
+  INSUFFICIENT_FUNDS: 'Your wallet does not have enough tokens for this payment. Top it up and try again.',
+  INSUFFICIENT_AMOUNT: 'The signed amount is below the price. Please sign the payment again.',
+  EXPIRED: 'The payment authorization expired before it was used. Please sign it again.',
+  NOT_YET_VALID: 'The payment authorization is not valid yet. Check your device clock and try again shortly.',
+  BAD_SIGNATURE: 'The payment signature could not be verified. Please sign it again.',
+  NONCE_REUSED: 'This payment authorization was already used. Please sign a new one.',
+  WRONG_NETWORK: 'The payment was signed for the wrong network. Switch networks and try again.',
+  WRONG_ASSET: 'The payment was signed for a token this module does not accept. Please sign it again.',
+  WRONG_RECIPIENT: 'The payment was signed for the wrong recipient. Please sign it again.',
+  FACILITATOR_UNAVAILABLE: 'The payment service is temporarily unavailable. Please try again in a moment.',
+};
+
 interface ModuleInfo {
   id: string;
   name: string;
@@ -62,8 +79,9 @@ export default function ChatPage() {
   const moduleId = params.id as string;
   const tryMode = searchParams.get('mode') === 'try';
 
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, chainId: walletChainId } = useAccount();
   const { signTypedDataAsync } = useSignTypedData();
+  const { signMessageAsync } = useSignMessage();
 
   const x402Config = useMemo(() => getClientX402Config(), []);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -136,8 +154,12 @@ export default function ChatPage() {
       .map((b) => b.toString(16).padStart(2, '0'))
       .join('')}` as `0x${string}`;
 
+    // Prefer the asset's EIP-712 domain advertised by the server (x402 `extra`)
     const domain = {
       ...domainBase,
+      ...(requirements.extra?.name ? { name: requirements.extra.name } : {}),
+      ...(requirements.extra?.version ? { version: requirements.extra.version } : {}),
+      ...(requirements.extra?.chainId ? { chainId: requirements.extra.chainId } : {}),
       verifyingContract: requirements.asset as `0x${string}`,
     } as const;
 
@@ -182,6 +204,36 @@ export default function ChatPage() {
     return sessionPass.expiresAt > now && sessionPass.creditsRemaining > 0;
   };
 
+  // Free messages need an answered challenge: sign it with the connected wallet, or solve the proof-of-work
+  const answerFreeChallenge = async () => {
+    const res = await fetch(`${API_URL}/api/modules/${moduleId}/free-challenge`, { method: 'POST' });
+    const data = await res.json();
+    // 409: the module has no free tier, so the chat request goes straight to payment
+    if (res.status === 409) return undefined;
+    if (!res.ok) throw new Error(data.error || 'Failed to get free message challenge');
+    if (!data.required) return undefined;
+
+    const challenge = data.challenge as FreeChallenge;
+    if (address && challenge.accepts.includes('signature') && challenge.statement) {
+      const message = new SiweMessage({
+        domain: window.location.host,
+        address,
+        statement: challenge.statement,
+        uri: window.location.origin,
+        version: '1',
+        chainId: walletChainId ?? x402Config.chainId,
+        nonce: challenge.nonce,
+      }).prepareMessage();
+      return { id: challenge.id, message, signature: await signMessageAsync({ message }) };
+    }
+
+    if (challenge.accepts.includes('pow') && challenge.powDifficulty !== null) {
+      return { id: challenge.id, pow: await solveProofOfWork(challenge.nonce, challenge.powDifficulty) };
+    }
+
+    throw new Error('Connect a wallet to use free messages');
+  };
+
   const sendMessage = async (
     messageText: string,
     paymentHeader?: string
@@ -209,13 +261,15 @@ export default function ChatPage() {
         headers['X-PAYMENT'] = paymentHeader;
       }
 
+      const freeMessage = tryMode && !paymentHeader;
       const res = await fetch(`${API_URL}/api/modules/${moduleId}/chat`, {
         method: 'POST',
         headers,
         body: JSON.stringify({
           chatId,
           message: messageText,
-          mode: tryMode && !paymentHeader ? 'try' : 'paid',
+          mode: freeMessage ? 'try' : 'paid',
+          freeChallenge: freeMessage ? await answerFreeChallenge() : undefined,
         }),
       });
 
@@ -223,13 +277,32 @@ export default function ChatPage() {
 
       if (res.status === 402) {
         if (data?.paymentRequirements) {
-          setPaymentRequirements(data.paymentRequirements);
+          // Pay on the wallet's current chain when the module accepts it
+          const accepts: PaymentRequirements[] = Array.isArray(data.accepts) ? data.accepts : [];
+          const onWalletChain = accepts.find((r) => r.extra?.chainId === walletChainId);
+          setPaymentRequirements(onWalletChain ?? data.paymentRequirements);
           setPendingMessage(messageText);
           setShowPaymentModal(true);
           setMessages((prev) => prev.slice(0, -1));
           return { sent: false };
         }
 
+        const code = data?.code as PaymentErrorCode | undefined;
+        const recovery = data?.recovery as PaymentErrorRecovery | undefined;
+        const friendly = code ? PAYMENT_ERROR_MESSAGES[code] : undefined;
+
+        // A fresh signature fixes these: keep the message and ask the buyer to sign again
+        if (paymentHeader && recovery === 're_sign' && paymentRequirements) {
+          setMessages((prev) => prev.slice(0, -1));
+          setPendingMessage(messageText);
+          setShowPaymentModal(true);
+          setError(friendly ?? data?.error ?? 'Payment failed. Please sign again.');
+          showToast(friendly ?? 'Payment failed. Please sign again.', 'warning');
+          return { sent: false };
+        }
+
+        if (friendly) throw new Error(friendly);
+
         const details =
           typeof data?.details === 'string'
             ? data.details
@@ -265,7 +338,12 @@ export default function ChatPage() {
       setInput('');
 
       if (data.isTryOnce) {
-        setError('Free preview complete. Pay to continue chatting.');
+        const remaining = data.freeTier?.remaining ?? 0;
+        setError(
+          remaining > 0
+            ? `Free message used (${remaining} left today).`
+            : 'Free messages for today are used up. Pay to continue chatting.'
+        );
       }
 
       return { sent: true, payment: data.payment, upstreamPayment: data.upstreamPayment };
@@ -364,7 +442,7 @@ export default function ChatPage() {
             </h1>
             <div className="flex items-center gap-3 mt-1 text-sm">
               <span className="text-[var(--color-text-secondary)]">
-                {formatPrice(module.priceAmount)} / {module.pricingMode === 'per_message' ? 'msg' : 'session'}
+                {formatPrice(module.priceAmount)} / {module.pricingMode === 'per_session' ? 'session' : module.pricingMode === 'metered' ? 'msg max' : module.pricingMode === 'subscription' ? 'period' : 'msg'}
               </span>
               {tryMode && (
                 <Badge variant="warning" size="sm">Free Preview</Badge>
@@ -19,6 +19,9 @@ interface ModuleDetail {
   pricingMode: string;
   priceAmount: string;
   sessionPolicy: { minutes?: number; messageCredits?: number } | null;
+  subscriptionPolicy?: { periodDays: number; messageCap?: number } | null;
+  pricingTiers?: Array<{ id: string; credits: number; priceAmount: string; label?: string }> | null;
+  freeTier?: { messagesPerDay: number; fullAnswers: boolean; requireWallet: boolean };
   payTo: string;
   network: string;
   assetContract: string;
@@ -65,7 +68,15 @@ export default function ModuleDetailPage() {
 
   const formatPrice = (amount: string, mode: string) => {
     const value = parseInt(amount, 10) / 1e6;
-    return `$${value.toFixed(2)} / ${mode === 'per_message' ? 'message' : 'session'}`;
+    return `$${value.toFixed(2)} / ${mode === 'per_session' ? 'session' : mode === 'metered' ? 'message (max)' : mode === 'subscription' ? 'period' : mode === 'pack' ? 'pack' : 'message'}`;
+  };
+
+  const hasFreeTier = (m: ModuleDetail) => (m.freeTier?.messagesPerDay ?? 1) > 0;
+
+  const formatFreeTier = (freeTier: NonNullable<ModuleDetail['freeTier']>) => {
+    const count = freeTier.messagesPerDay === 1 ? '1 free message' : `${freeTier.messagesPerDay} free messages`;
+    const kind = freeTier.fullAnswers ? 'full answers' : 'truncated previews';
+    return `${count} per day (${kind}${freeTier.requireWallet ? ', wallet required' : ''})`;
   };
 
   const formatAddress = (addr: string) => `${addr.slice(0, 6)}...${addr.slice(-4)}`;
@@ -300,13 +311,37 @@ export default function ModuleDetailPage() {
                   {module.sessionPolicy.messageCredits && `${module.sessionPolicy.messageCredits} messages`}
                 </p>
               )}
+              {module.subscriptionPolicy && (
+                <p className="text-sm text-[var(--color-text-secondary)]">
+                  Subscription: {module.subscriptionPolicy.periodDays} days of access
+                  {module.subscriptionPolicy.messageCap &&
+                    ` (fair use: ${module.subscriptionPolicy.messageCap} messages per period)`}
+                </p>
+              )}
+              {module.pricingTiers && module.pricingTiers.length > 0 && (
+                <div className="mt-3 text-sm text-[var(--color-text-secondary)]">
+                  <p className="font-semibold">Credit packs (never expire)</p>
+                  {module.pricingTiers.map((tier) => (
+                    <p key={tier.id}>
+                      {tier.label || `${tier.credits} messages`}: {formatPrice(tier.priceAmount, 'pack')}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {module.freeTier && (
+                <p className="mt-3 text-sm text-[var(--color-text-secondary)]">
+                  Free tier: {hasFreeTier(module) ? formatFreeTier(module.freeTier) : 'none'}
+                </p>
+              )}
             </div>
             <div className="flex flex-col sm:flex-row gap-3 justify-center">
-              <Link href={`/chat/${module.id}?mode=try`}>
-                <Button variant="outline" fullWidth>
-                  Try Once (Free)
-                </Button>
-              </Link>
+              {hasFreeTier(module) && (
+                <Link href={`/chat/${module.id}?mode=try`}>
+                  <Button variant="outline" fullWidth>
+                    Try Once (Free)
+                  </Button>
+                </Link>
+              )}
               <Link href={`/chat/${module.id}`}>
                 <Button fullWidth>Paid Chat</Button>
               </Link>
@@ -329,15 +364,19 @@ export default function ModuleDetailPage() {
                     Try Once (Free Preview)
                   </label>
                   <CopyButton
-                    text={`curl -X POST ${API_URL}/api/modules/${module.id}/chat -H "Content-Type: application/json" -d '{"message": "Hello", "mode": "try"}'`}
+                    text={`curl -X POST ${API_URL}/api/modules/${module.id}/chat -H "Content-Type: application/json" -d '{"message": "Hello", "mode": "try", "freeChallenge": {"id": "<challenge id>", "pow": "<answer>"}}'`}
                     label="curl command"
                     showText
                   />
                 </div>
                 <pre className="p-3 bg-[var(--color-background-secondary)] rounded-[var(--radius-md)] text-xs overflow-x-auto font-mono">
-{`curl -X POST ${API_URL}/api/modules/${module.id}/chat \\
+{`# Get a challenge, then answer it
+curl -X POST ${API_URL}/api/modules/${module.id}/free-challenge
+
+curl -X POST ${API_URL}/api/modules/${module.id}/chat \\
   -H "Content-Type: application/json" \\
-  -d '{"message": "Hello", "mode": "try"}'`}
+  -d '{"message": "Hello", "mode": "try",
+       "freeChallenge": {"id": "<challenge id>", "pow": "<answer>"}}'`}
                 </pre>
               </div>
               <div>
@@ -394,11 +433,13 @@ export default function ModuleDetailPage() {
 
       {/* CTA Buttons (always visible) */}
       <div className="flex flex-col sm:flex-row gap-3 mt-6">
-        <Link href={`/chat/${module.id}?mode=try`} className="flex-1">
-          <Button variant="outline" fullWidth size="lg">
-            Try Once (Free)
-          </Button>
-        </Link>
+        {hasFreeTier(module) && (
+          <Link href={`/chat/${module.id}?mode=try`} className="flex-1">
+            <Button variant="outline" fullWidth size="lg">
+              Try Once (Free)
+            </Button>
+          </Link>
+        )}
         <Link href={`/chat/${module.id}`} className="flex-1">
           <Button fullWidth size="lg">
             Start Paid Chat
@@ -116,7 +116,7 @@ export default function MarketplacePage() {
 
   const formatPrice = (amount: string, mode: string) => {
     const value = parseInt(amount, 10) / 1e6;
-    return `$${value.toFixed(2)} / ${mode === 'per_message' ? 'msg' : 'session'}`;
+    return `$${value.toFixed(2)} / ${mode === 'per_session' ? 'session' : mode === 'metered' ? 'msg max' : mode === 'subscription' ? 'period' : 'msg'}`;
   };
 
   const clearFilters = () => {
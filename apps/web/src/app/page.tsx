@@ -44,7 +44,7 @@ export default function Home() {
 
   const formatPrice = (amount: string, mode: string) => {
     const value = parseInt(amount, 10) / 1e6;
-    return `$${value.toFixed(2)}/${mode === 'per_message' ? 'msg' : 'session'}`;
+    return `$${value.toFixed(2)}/${mode === 'per_session' ? 'session' : mode === 'metered' ? 'msg max' : mode === 'subscription' ? 'period' : 'msg'}`;
   };
 
   return (
@@ -30,10 +30,15 @@ export default function CreateModulePage() {
   const [tags, setTags] = useState('');
   const [personaPrompt, setPersonaPrompt] = useState('');
   const [qaItems, setQaItems] = useState<QAItem[]>([{ question: '', answer: '' }]);
-  const [pricingMode, setPricingMode] = useState<'per_message' | 'per_session'>('per_message');
+  const [pricingMode, setPricingMode] = useState<'per_message' | 'per_session' | 'metered' | 'subscription'>(
+    'per_message'
+  );
   const [priceAmount, setPriceAmount] = useState('0.01');
+  const [pricePer1kTokens, setPricePer1kTokens] = useState('0.002');
   const [sessionMinutes, setSessionMinutes] = useState('30');
   const [sessionCredits, setSessionCredits] = useState('10');
+  const [subscriptionDays, setSubscriptionDays] = useState('30');
+  const [subscriptionMessageCap, setSubscriptionMessageCap] = useState('');
   const [payTo, setPayTo] = useState(address || '');
 
   // Update payTo when address changes
@@ -86,6 +91,7 @@ export default function CreateModulePage() {
     try {
       // Convert price to smallest units (assuming 6 decimals)
       const priceInSmallestUnits = Math.round(parseFloat(priceAmount) * 1e6).toString();
+      const pricePer1kInSmallestUnits = Math.round(parseFloat(pricePer1kTokens) * 1e6).toString();
 
       // Create module
       const createRes = await fetch(`${API_URL}/api/seller/modules`, {
@@ -104,6 +110,7 @@ export default function CreateModulePage() {
           personaPrompt,
           pricingMode,
           priceAmount: priceInSmallestUnits,
+          pricePer1kTokens: pricingMode === 'metered' ? pricePer1kInSmallestUnits : undefined,
           sessionPolicy:
             pricingMode === 'per_session'
               ? {
@@ -111,6 +118,13 @@ export default function CreateModulePage() {
                   messageCredits: parseInt(sessionCredits, 10),
                 }
               : undefined,
+          subscriptionPolicy:
+            pricingMode === 'subscription'
+              ? {
+                  periodDays: parseInt(subscriptionDays, 10),
+                  messageCap: subscriptionMessageCap ? parseInt(subscriptionMessageCap, 10) : undefined,
+                }
+              : undefined,
           payTo,
         }),
       });
@@ -393,16 +407,27 @@ export default function CreateModulePage() {
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>Pricing Mode</label>
             <select
               value={pricingMode}
-              onChange={(e) => setPricingMode(e.target.value as 'per_message' | 'per_session')}
+              onChange={(e) =>
+                setPricingMode(e.target.value as 'per_message' | 'per_session' | 'metered' | 'subscription')
+              }
               style={{ width: '100%', padding: '0.75rem', border: '1px solid var(--color-border)', borderRadius: '4px' }}
             >
               <option value="per_message">Per Message</option>
               <option value="per_session">Per Session</option>
+              <option value="metered">Metered (per 1k tokens)</option>
+              <option value="subscription">Subscription</option>
             </select>
           </div>
           <div style={{ marginBottom: '1rem' }}>
             <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
-              Price (USD) {pricingMode === 'per_message' ? 'per message' : 'per session'}
+              Price (USD){' '}
+              {pricingMode === 'per_message'
+                ? 'per message'
+                : pricingMode === 'metered'
+                  ? 'max per message'
+                  : pricingMode === 'subscription'
+                    ? 'per period'
+                    : 'per session'}
             </label>
             <input
               type="number"
@@ -413,6 +438,51 @@ export default function CreateModulePage() {
               style={{ width: '100%', padding: '0.75rem', border: '1px solid var(--color-border)', borderRadius: '4px' }}
             />
           </div>
+          {pricingMode === 'metered' && (
+            <div style={{ marginBottom: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>Price (USD) per 1k tokens</label>
+              <input
+                type="number"
+                value={pricePer1kTokens}
+                onChange={(e) => setPricePer1kTokens(e.target.value)}
+                min="0.000001"
+                step="0.000001"
+                style={{ width: '100%', padding: '0.75rem', border: '1px solid var(--color-border)', borderRadius: '4px' }}
+              />
+              <p style={{ fontSize: '0.875rem', color: 'var(--color-text-secondary)', marginTop: '0.25rem' }}>
+                Buyers authorize the max price; each message is charged by actual token usage
+              </p>
+            </div>
+          )}
+          {pricingMode === 'subscription' && (
+            <div style={{ marginBottom: '1rem', padding: '1rem', backgroundColor: 'var(--color-background-secondary)', borderRadius: '4px' }}>
+              <h3 style={{ margin: '0 0 1rem' }}>Subscription Policy</h3>
+              <div style={{ display: 'flex', gap: '1rem' }}>
+                <div style={{ flex: 1 }}>
+                  <label style={{ display: 'block', marginBottom: '0.5rem' }}>Period (days)</label>
+                  <input
+                    type="number"
+                    value={subscriptionDays}
+                    onChange={(e) => setSubscriptionDays(e.target.value)}
+                    min="1"
+                    max="366"
+                    style={{ width: '100%', padding: '0.5rem', border: '1px solid var(--color-border)', borderRadius: '4px' }}
+                  />
+                </div>
+                <div style={{ flex: 1 }}>
+                  <label style={{ display: 'block', marginBottom: '0.5rem' }}>Fair-use Message Cap (optional)</label>
+                  <input
+                    type="number"
+                    value={subscriptionMessageCap}
+                    onChange={(e) => setSubscriptionMessageCap(e.target.value)}
+                    min="1"
+                    placeholder="Unlimited"
+                    style={{ width: '100%', padding: '0.5rem', border: '1px solid var(--color-border)', borderRadius: '4px' }}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
           {pricingMode === 'per_session' && (
             <div style={{ marginBottom: '1rem', padding: '1rem', backgroundColor: 'var(--color-background-secondary)', borderRadius: '4px' }}>
               <h3 style={{ margin: '0 0 1rem' }}>Session Policy</h3>
@@ -171,7 +171,7 @@ export default function ModuleDetailPage() {
 
   const formatPrice = (amount: string, mode: string) => {
     const value = parseInt(amount, 10) / 1e6;
-    return `$${value.toFixed(2)} / ${mode === 'per_message' ? 'message' : 'session'}`;
+    return `$${value.toFixed(2)} / ${mode === 'per_session' ? 'session' : mode === 'metered' ? 'message (max)' : mode === 'subscription' ? 'period' : 'message'}`;
   };
 
   const handleAddEvalCase = async () => {
@@ -709,7 +709,7 @@ export default function SellerDashboard() {
                       </Badge>
                     </div>
                     <p className="text-sm text-[var(--color-text-secondary)] mt-1">
-                      {module.pricingMode === 'per_message' ? 'Per message' : 'Per session'}: {formatPrice(module.priceAmount)}
+                      {module.pricingMode === 'per_session' ? 'Per session' : module.pricingMode === 'metered' ? 'Metered, max' : module.pricingMode === 'subscription' ? 'Per period' : 'Per message'}: {formatPrice(module.priceAmount)}
                       {module.evalScore !== null && (
                         <span className="ml-3">• Eval: {module.evalScore}/10</span>
                       )}
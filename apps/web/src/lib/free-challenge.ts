@@ -0,0 +1,31 @@
+export interface FreeChallenge {
+  id: string;
+  moduleId: string;
+  nonce: string;
+  accepts: Array<'pow' | 'signature'>;
+  powDifficulty: number | null;
+  statement: string | null;
+  expiresAt: string;
+}
+
+function countLeadingZeroBits(bytes: Uint8Array): number {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+}
+
+// Find an answer whose sha256("<nonce>:<answer>") starts with `difficulty` zero bits
+export async function solveProofOfWork(nonce: string, difficulty: number): Promise<string> {
+  const encoder = new TextEncoder();
+  for (let counter = 0; ; counter++) {
+    const answer = counter.toString(16);
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${nonce}:${answer}`));
+    if (countLeadingZeroBits(new Uint8Array(digest)) >= difficulty) return answer;
+  }
+}
@@ -28,13 +28,73 @@ EXCEPTION
 END $$;
 
 DO $$ BEGIN
-    CREATE TYPE pricing_mode AS ENUM ('per_message', 'per_session');
+    CREATE TYPE pricing_mode AS ENUM ('per_message', 'per_session', 'metered', 'subscription');
 EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
 
 DO $$ BEGIN
-    CREATE TYPE payment_event AS ENUM ('settled', 'failed');
+    CREATE TYPE payment_event AS ENUM ('settled', 'failed', 'pending');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE onchain_status AS ENUM ('confirmed', 'not_found', 'reverted', 'mismatch', 'unsupported_network', 'error');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE discrepancy_kind AS ENUM ('payment_unconfirmed', 'unrecorded_transfer');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE credit_status AS ENUM ('outstanding', 'redeemed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE balance_entry_type AS ENUM ('deposit', 'debit', 'refund');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE settlement_job_status AS ENUM ('queued', 'processing', 'succeeded', 'dead');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE webhook_delivery_status AS ENUM ('queued', 'processing', 'delivered', 'dead');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE idempotency_status AS ENUM ('in_progress', 'completed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE coupon_redemption_kind AS ENUM ('discount', 'free_message');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE agent_wallet_sweep_status AS ENUM ('dry_run', 'submitted', 'succeeded', 'failed', 'mock');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE session_credit_entry_type AS ENUM ('issue', 'top_up', 'consume', 'refund');
 EXCEPTION
     WHEN duplicate_object THEN null;
 END $$;
@@ -74,10 +134,16 @@ CREATE TABLE IF NOT EXISTS modules (
     persona_prompt TEXT NOT NULL DEFAULT '',
     pricing_mode pricing_mode NOT NULL DEFAULT 'per_message',
     price_amount TEXT NOT NULL DEFAULT '10000',
+    price_per_1k_tokens TEXT,
     session_policy JSONB,
+    subscription_policy JSONB,
+    pricing_tiers JSONB,
+    -- FreeTierPolicy; NULL uses the platform default (one truncated preview a day)
+    free_tier_policy JSONB,
     pay_to TEXT NOT NULL,
     network TEXT NOT NULL,
     asset_contract TEXT NOT NULL,
+    payment_options JSONB,
     upstream_module_id UUID REFERENCES modules(id) ON DELETE SET NULL,
     remix_policy JSONB,
     eval_score INTEGER,
@@ -113,10 +179,22 @@ CREATE TABLE IF NOT EXISTS payments (
     payer_wallet TEXT NOT NULL,
     pay_to TEXT NOT NULL,
     value TEXT NOT NULL,
+    authorized_value TEXT,
     tx_hash TEXT,
     network TEXT NOT NULL,
+    asset TEXT,
     event payment_event NOT NULL,
     error TEXT,
+    -- PaymentErrorCode (packages/shared) for failed payments; error keeps the raw reason
+    error_code TEXT,
+    nonce TEXT,
+    -- Filled in once by the reconciliation worker (reconciled_at stays NULL while it retries)
+    onchain_status onchain_status,
+    onchain_block_number BIGINT,
+    onchain_block_timestamp TIMESTAMPTZ,
+    onchain_error TEXT,
+    reconcile_attempts INTEGER NOT NULL DEFAULT 0,
+    reconciled_at TIMESTAMPTZ,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
@@ -124,6 +202,84 @@ CREATE INDEX IF NOT EXISTS idx_payments_module ON payments(module_id);
 CREATE INDEX IF NOT EXISTS idx_payments_payer ON payments(payer_wallet);
 CREATE INDEX IF NOT EXISTS idx_payments_tx_hash ON payments(tx_hash);
 CREATE INDEX IF NOT EXISTS idx_payments_event ON payments(event);
+CREATE INDEX IF NOT EXISTS idx_payments_nonce ON payments(nonce);
+CREATE INDEX IF NOT EXISTS idx_payments_unreconciled ON payments(created_at)
+    WHERE event = 'settled' AND reconciled_at IS NULL;
+
+-- Discrepancy report: settled payments the chain does not confirm, and transfers to seller
+-- pay_to addresses with no payment record
+CREATE TABLE IF NOT EXISTS payment_discrepancies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    kind discrepancy_kind NOT NULL,
+    payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+    network TEXT NOT NULL,
+    asset TEXT,
+    tx_hash TEXT,
+    log_index INTEGER,
+    from_address TEXT,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    block_number BIGINT,
+    block_timestamp TIMESTAMPTZ,
+    detail TEXT,
+    resolved_at TIMESTAMPTZ,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolution_note TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_discrepancies_payment
+    ON payment_discrepancies(payment_id) WHERE payment_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_discrepancies_transfer
+    ON payment_discrepancies(network, tx_hash, log_index) WHERE kind = 'unrecorded_transfer';
+CREATE INDEX IF NOT EXISTS idx_payment_discrepancies_to ON payment_discrepancies(LOWER(to_address), created_at DESC);
+
+-- How far the reconciliation worker has scanned transfers per network and asset
+CREATE TABLE IF NOT EXISTS reconciliation_cursors (
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    scanned_until TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (network, asset)
+);
+
+-- Transfer events of payment assets, written by the token indexer
+CREATE TABLE IF NOT EXISTS token_transfers (
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash TEXT NOT NULL,
+    block_timestamp TIMESTAMPTZ NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (network, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_transfers_block ON token_transfers(network, asset, block_number);
+CREATE INDEX IF NOT EXISTS idx_token_transfers_to ON token_transfers(network, asset, to_address, block_timestamp);
+
+-- Last block the token indexer has read per network and asset
+CREATE TABLE IF NOT EXISTS token_indexer_cursors (
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    last_block BIGINT NOT NULL,
+    last_block_timestamp TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (network, asset)
+);
+
+-- Payment nonces table (EIP-3009 replay protection)
+CREATE TABLE IF NOT EXISTS payment_nonces (
+    payer TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    network TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (payer, asset, nonce)
+);
 
 -- Chats table
 CREATE TABLE IF NOT EXISTS chats (
@@ -148,6 +304,313 @@ CREATE TABLE IF NOT EXISTS chat_messages (
 
 CREATE INDEX IF NOT EXISTS idx_chat_messages_chat ON chat_messages(chat_id);
 
+-- Buyer credits table (owed turns after a settled payment failed to produce a reply)
+CREATE TABLE IF NOT EXISTS buyer_credits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+    value TEXT NOT NULL,
+    reason TEXT,
+    status credit_status NOT NULL DEFAULT 'outstanding',
+    redeemed_at TIMESTAMPTZ,
+    redeemed_chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_buyer_credits_lookup
+    ON buyer_credits(module_id, wallet_address) WHERE status = 'outstanding';
+CREATE INDEX IF NOT EXISTS idx_buyer_credits_status ON buyer_credits(status);
+
+-- Prepaid buyer balance ledger (append-only; every entry points at its deposit payment)
+CREATE TABLE IF NOT EXISTS buyer_balance_ledger (
+    id BIGSERIAL PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    entry_type balance_entry_type NOT NULL,
+    amount TEXT NOT NULL,
+    payment_id UUID NOT NULL REFERENCES payments(id),
+    module_id UUID REFERENCES modules(id) ON DELETE SET NULL,
+    pay_to TEXT,
+    chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+    reverses_entry_id BIGINT REFERENCES buyer_balance_ledger(id),
+    memo TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_buyer_balance_ledger_wallet
+    ON buyer_balance_ledger(wallet_address, network, asset, id);
+CREATE INDEX IF NOT EXISTS idx_buyer_balance_ledger_payment ON buyer_balance_ledger(payment_id);
+
+-- Subscriptions (one row per buyer and module; expires_at is the end of the last paid period)
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    canceled_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(module_id, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_wallet ON subscriptions(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_expires ON subscriptions(expires_at);
+
+-- Paid subscription periods (one per payment; the fair-use cap is counted per period)
+CREATE TABLE IF NOT EXISTS subscription_periods (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id),
+    period_start TIMESTAMPTZ NOT NULL,
+    period_end TIMESTAMPTZ NOT NULL,
+    message_cap INTEGER,
+    messages_used INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_periods_subscription
+    ON subscription_periods(subscription_id, period_start);
+
+-- Purchased credit packs (pricing tiers); credits never expire
+CREATE TABLE IF NOT EXISTS credit_packs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id),
+    tier_id TEXT NOT NULL,
+    credits_total INTEGER NOT NULL,
+    credits_remaining INTEGER NOT NULL CHECK (credits_remaining >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_packs_wallet ON credit_packs(module_id, wallet_address);
+
+-- Signed payment receipts; module_id has no FK so receipts outlive deleted modules
+CREATE TABLE IF NOT EXISTS payment_receipts (
+    id UUID PRIMARY KEY,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id),
+    module_id UUID NOT NULL,
+    payer TEXT NOT NULL,
+    pay_to TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    request_hash TEXT NOT NULL,
+    response_hash TEXT NOT NULL,
+    issued_at BIGINT NOT NULL,
+    signer TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_receipts_payer ON payment_receipts(payer, issued_at DESC);
+
+-- Background settlement queue for payments answered before settlement (risk policy)
+CREATE TABLE IF NOT EXISTS settlement_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+    payment_header TEXT NOT NULL,
+    requirements JSONB NOT NULL,
+    amount TEXT,
+    status settlement_job_status NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    -- EIP-3009 validBefore of the signed authorization; the job is dead-lettered once it passes
+    valid_before TIMESTAMPTZ,
+    locked_at TIMESTAMPTZ,
+    last_error TEXT,
+    tx_hash TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_jobs_due ON settlement_jobs(status, next_attempt_at);
+
+-- Deferral slots: a payer's deferred payment between the risk check and its 'pending' payment row.
+-- Counted with pending payments against SETTLEMENT_ASYNC_MAX_PENDING; a slot left behind expires.
+CREATE TABLE IF NOT EXISTS settlement_deferral_slots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payer TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_deferral_slots_payer ON settlement_deferral_slots(payer, expires_at);
+
+-- Seller webhook subscriptions (module_id NULL = every module the seller owns)
+CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    module_id UUID REFERENCES modules(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    events TEXT[] NOT NULL,
+    -- HMAC-SHA256 signing key, shown to the seller once at creation
+    secret TEXT NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_owner ON webhook_subscriptions(owner_user_id);
+
+-- Webhook delivery log, doubling as the retry queue
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    event TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status webhook_delivery_status NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMPTZ,
+    last_status_code INTEGER,
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    delivered_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);
+
+-- Session passes (the bearer JWT is checked against its row, which holds the expiry and revocation)
+CREATE TABLE IF NOT EXISTS session_passes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    payment_tx_hash TEXT NOT NULL,
+    max_credits INTEGER NOT NULL,
+    -- Source of truth for credits; Redis only caches it
+    credits_remaining INTEGER NOT NULL CHECK (credits_remaining >= 0),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(module_id, wallet_address, payment_tx_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_passes_wallet ON session_passes(wallet_address, expires_at);
+
+-- Paid session pass top-ups (one per payment)
+CREATE TABLE IF NOT EXISTS session_pass_topups (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_pass_id UUID NOT NULL REFERENCES session_passes(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id),
+    credits_added INTEGER NOT NULL,
+    minutes_added INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_pass_topups_pass ON session_pass_topups(session_pass_id);
+
+-- Session credit ledger (append-only; session_passes.credits_remaining is its running total)
+CREATE TABLE IF NOT EXISTS session_credit_ledger (
+    id BIGSERIAL PRIMARY KEY,
+    session_pass_id UUID NOT NULL REFERENCES session_passes(id) ON DELETE CASCADE,
+    entry_type session_credit_entry_type NOT NULL,
+    credits INTEGER NOT NULL,
+    payment_id UUID REFERENCES payments(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_credit_ledger_pass ON session_credit_ledger(session_pass_id, created_at);
+
+-- Idempotency-Key claims and stored responses for the paid chat endpoint
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    -- Who sent the request (see getIdempotencyCaller): keys never replay to another caller
+    caller TEXT NOT NULL DEFAULT '',
+    idempotency_key TEXT NOT NULL,
+    fingerprint TEXT NOT NULL,
+    status idempotency_status NOT NULL DEFAULT 'in_progress',
+    response_status INTEGER,
+    response_body JSONB,
+    payment_response TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (module_id, caller, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+
+-- Coupons (seller promo codes; codes are stored upper-case and unique per seller)
+CREATE TABLE IF NOT EXISTS coupons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code TEXT NOT NULL,
+    -- NULL = every module the owner sells
+    module_ids UUID[],
+    -- Exactly one benefit: a percentage off, or free messages per buyer wallet
+    discount_percent INTEGER CHECK (discount_percent BETWEEN 1 AND 99),
+    free_messages INTEGER CHECK (free_messages > 0),
+    max_redemptions INTEGER CHECK (max_redemptions > 0),
+    redemption_count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (owner_user_id, code),
+    CHECK ((discount_percent IS NULL) <> (free_messages IS NULL))
+);
+
+-- Coupon redemptions (one row per discounted payment or free message)
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    kind coupon_redemption_kind NOT NULL,
+    discount_amount TEXT NOT NULL,
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon ON coupon_redemptions(coupon_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_wallet ON coupon_redemptions(coupon_id, wallet_address);
+
+-- Buyer spending policies (self-imposed caps on x402 chat payments, set with a SIWE signature)
+CREATE TABLE IF NOT EXISTS buyer_spending_policies (
+    wallet_address TEXT PRIMARY KEY,
+    max_per_message TEXT,
+    daily_limit TEXT,
+    module_daily_limit TEXT,
+    -- Raised or removed limits wait until pending_effective_at (lowered ones apply at once)
+    pending_max_per_message TEXT,
+    pending_daily_limit TEXT,
+    pending_module_daily_limit TEXT,
+    pending_effective_at TIMESTAMPTZ,
+    -- The signed SIWE request that set the current policy
+    siwe_message TEXT NOT NULL,
+    siwe_signature TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Spend checked against a buyer's spending policy but not yet recorded. Taken under a per-payer lock
+-- and held until the payment is recorded; stale rows stop counting once they expire.
+CREATE TABLE IF NOT EXISTS spending_policy_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallet_address TEXT NOT NULL,
+    module_id UUID NOT NULL,
+    value TEXT NOT NULL,
+    -- The payment's authorization nonce; the reservation stops counting once that payment is recorded
+    nonce TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_spending_policy_reservations_wallet
+    ON spending_policy_reservations(wallet_address, expires_at);
+
 -- Agent wallets table
 CREATE TABLE IF NOT EXISTS agent_wallets (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -155,10 +618,57 @@ CREATE TABLE IF NOT EXISTS agent_wallets (
     wallet_address TEXT NOT NULL,
     encrypted_private_key TEXT NOT NULL,
     key_version INTEGER NOT NULL DEFAULT 1,
+    -- Custody: 'local' stores AES-GCM ciphertext encrypted under master key encryption_key_version;
+    -- external providers store a key reference and leave the version NULL
+    key_provider TEXT NOT NULL DEFAULT 'local',
+    encryption_key_version INTEGER,
+    -- Spending limits in the payment asset's smallest units (NULL = no limit)
+    daily_limit TEXT,
+    monthly_limit TEXT,
+    per_call_max TEXT,
+    low_balance_threshold TEXT,
     created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
 CREATE INDEX IF NOT EXISTS idx_agent_wallets_module ON agent_wallets(module_id);
+-- Agent wallet spend lookups (payer addresses are stored in mixed case)
+CREATE INDEX IF NOT EXISTS idx_payments_payer_lower ON payments(LOWER(payer_wallet), created_at);
+
+-- Agent wallet sweeps (audit log of withdrawals and dry runs; kept after the module is deleted)
+CREATE TABLE IF NOT EXISTS agent_wallet_sweeps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID REFERENCES modules(id) ON DELETE SET NULL,
+    requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    wallet_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    balance_before TEXT NOT NULL,
+    status agent_wallet_sweep_status NOT NULL,
+    tx_hash TEXT,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_wallet_sweeps_module ON agent_wallet_sweeps(module_id, created_at DESC);
+-- One in-flight sweep per module, so two sweeps cannot sign for the same balance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_wallet_sweeps_submitted ON agent_wallet_sweeps(module_id) WHERE status = 'submitted';
+
+-- Agent wallet budget reservations: upstream spend signed but not yet recorded in payments.
+-- Held until the upstream call finishes; stale rows stop counting once the authorization expires.
+CREATE TABLE IF NOT EXISTS agent_wallet_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallet_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_wallet_reservations_wallet
+    ON agent_wallet_reservations(wallet_address, expires_at);
 
 -- Eval cases table
 CREATE TABLE IF NOT EXISTS eval_cases (
@@ -183,6 +693,24 @@ CREATE TABLE IF NOT EXISTS eval_runs (
 
 CREATE INDEX IF NOT EXISTS idx_eval_runs_module ON eval_runs(module_id);
 
+-- Local facilitator ledger (append-only; balances are derived by replaying entries)
+CREATE TABLE IF NOT EXISTS facilitator_ledger (
+    id BIGSERIAL PRIMARY KEY,
+    entry_type TEXT NOT NULL,
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    from_address TEXT,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    nonce TEXT,
+    tx_hash TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_facilitator_ledger_nonce
+    ON facilitator_ledger(network, asset, from_address, nonce) WHERE nonce IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_facilitator_ledger_to ON facilitator_ledger(network, asset, to_address);
+
 -- Updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -205,6 +733,66 @@ CREATE TRIGGER update_modules_updated_at
     FOR EACH ROW
     EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_subscriptions_updated_at ON subscriptions;
+CREATE TRIGGER update_subscriptions_updated_at
+    BEFORE UPDATE ON subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_credit_packs_updated_at ON credit_packs;
+CREATE TRIGGER update_credit_packs_updated_at
+    BEFORE UPDATE ON credit_packs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_settlement_jobs_updated_at ON settlement_jobs;
+CREATE TRIGGER update_settlement_jobs_updated_at
+    BEFORE UPDATE ON settlement_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_coupons_updated_at ON coupons;
+CREATE TRIGGER update_coupons_updated_at
+    BEFORE UPDATE ON coupons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_buyer_spending_policies_updated_at ON buyer_spending_policies;
+CREATE TRIGGER update_buyer_spending_policies_updated_at
+    BEFORE UPDATE ON buyer_spending_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_reconciliation_cursors_updated_at ON reconciliation_cursors;
+CREATE TRIGGER update_reconciliation_cursors_updated_at
+    BEFORE UPDATE ON reconciliation_cursors
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_token_indexer_cursors_updated_at ON token_indexer_cursors;
+CREATE TRIGGER update_token_indexer_cursors_updated_at
+    BEFORE UPDATE ON token_indexer_cursors
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_webhook_subscriptions_updated_at ON webhook_subscriptions;
+CREATE TRIGGER update_webhook_subscriptions_updated_at
+    BEFORE UPDATE ON webhook_subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_webhook_deliveries_updated_at ON webhook_deliveries;
+CREATE TRIGGER update_webhook_deliveries_updated_at
+    BEFORE UPDATE ON webhook_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_session_passes_updated_at ON session_passes;
+CREATE TRIGGER update_session_passes_updated_at
+    BEFORE UPDATE ON session_passes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- Log successful initialization
 DO $$
 BEGIN
@@ -0,0 +1,25 @@
+-- Migration: Add local facilitator ledger
+-- Append-only ledger backing the local x402 facilitator stand-in (X402_LOCAL_FACILITATOR=true)
+
+CREATE TABLE IF NOT EXISTS facilitator_ledger (
+    id BIGSERIAL PRIMARY KEY,
+    entry_type TEXT NOT NULL, -- 'mint' | 'transfer'
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    from_address TEXT,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL, -- Integer string in smallest units
+    nonce TEXT, -- EIP-3009 authorization nonce (transfers only)
+    tx_hash TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_facilitator_ledger_nonce
+    ON facilitator_ledger(network, asset, from_address, nonce) WHERE nonce IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_facilitator_ledger_to ON facilitator_ledger(network, asset, to_address);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 003: Added facilitator_ledger table';
+END $$;
@@ -0,0 +1,21 @@
+-- Migration: Add payment nonce registry
+-- Records consumed EIP-3009 authorization nonces so X-PAYMENT headers cannot be replayed
+
+CREATE TABLE IF NOT EXISTS payment_nonces (
+    payer TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    network TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (payer, asset, nonce)
+);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS nonce TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payments_nonce ON payments(nonce);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 004: Added payment_nonces table and payments.nonce column';
+END $$;
@@ -0,0 +1,31 @@
+-- Migration: Add buyer credits
+-- A paid turn that settles but fails to generate a reply leaves the buyer a credit for the next turn
+
+DO $$ BEGIN
+    CREATE TYPE credit_status AS ENUM ('outstanding', 'redeemed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS buyer_credits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+    value TEXT NOT NULL, -- Integer string in smallest units
+    reason TEXT,
+    status credit_status NOT NULL DEFAULT 'outstanding',
+    redeemed_at TIMESTAMPTZ,
+    redeemed_chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_buyer_credits_lookup
+    ON buyer_credits(module_id, wallet_address) WHERE status = 'outstanding';
+CREATE INDEX IF NOT EXISTS idx_buyer_credits_status ON buyer_credits(status);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 005: Added buyer_credits table';
+END $$;
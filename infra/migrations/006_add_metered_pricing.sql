@@ -0,0 +1,15 @@
+-- Migration: Add metered (upto) pricing
+-- Metered modules charge per 1k tokens up to price_amount; payments keep both the
+-- authorized maximum and the amount actually charged
+
+ALTER TYPE pricing_mode ADD VALUE IF NOT EXISTS 'metered';
+
+ALTER TABLE modules ADD COLUMN IF NOT EXISTS price_per_1k_tokens TEXT;
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS authorized_value TEXT;
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 006: Added metered pricing mode, modules.price_per_1k_tokens and payments.authorized_value';
+END $$;
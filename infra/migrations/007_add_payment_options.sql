@@ -0,0 +1,12 @@
+-- Migration: Add multi-network payment options
+-- Modules can accept extra (network, asset) pairs; payments record the asset actually used
+
+ALTER TABLE modules ADD COLUMN IF NOT EXISTS payment_options JSONB;
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS asset TEXT;
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 007: Added modules.payment_options and payments.asset';
+END $$;
@@ -0,0 +1,35 @@
+-- Migration: Add prepaid buyer balances
+-- Buyers top up once via x402; chat turns are debited from an append-only ledger
+-- whose entries all reference the deposit payment they draw from
+
+DO $$ BEGIN
+    CREATE TYPE balance_entry_type AS ENUM ('deposit', 'debit', 'refund');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS buyer_balance_ledger (
+    id BIGSERIAL PRIMARY KEY,
+    wallet_address TEXT NOT NULL,
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    entry_type balance_entry_type NOT NULL,
+    amount TEXT NOT NULL,
+    payment_id UUID NOT NULL REFERENCES payments(id),
+    module_id UUID REFERENCES modules(id) ON DELETE SET NULL,
+    pay_to TEXT,
+    chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+    reverses_entry_id BIGINT REFERENCES buyer_balance_ledger(id),
+    memo TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_buyer_balance_ledger_wallet
+    ON buyer_balance_ledger(wallet_address, network, asset, id);
+CREATE INDEX IF NOT EXISTS idx_buyer_balance_ledger_payment ON buyer_balance_ledger(payment_id);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 008: Added buyer_balance_ledger table';
+END $$;
@@ -0,0 +1,48 @@
+-- Migration: Add subscription pricing
+-- One payment grants access to a module for a calendar period (modules.subscription_policy).
+-- Entitlements live in Postgres: subscriptions (per buyer/module) and subscription_periods
+-- (one per payment, carrying the fair-use message count)
+
+ALTER TYPE pricing_mode ADD VALUE IF NOT EXISTS 'subscription';
+
+ALTER TABLE modules ADD COLUMN IF NOT EXISTS subscription_policy JSONB;
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    canceled_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(module_id, wallet_address)
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_wallet ON subscriptions(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_expires ON subscriptions(expires_at);
+
+CREATE TABLE IF NOT EXISTS subscription_periods (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id),
+    period_start TIMESTAMPTZ NOT NULL,
+    period_end TIMESTAMPTZ NOT NULL,
+    message_cap INTEGER,
+    messages_used INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_periods_subscription
+    ON subscription_periods(subscription_id, period_start);
+
+DROP TRIGGER IF EXISTS update_subscriptions_updated_at ON subscriptions;
+CREATE TRIGGER update_subscriptions_updated_at
+    BEFORE UPDATE ON subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 009: Added subscription pricing mode, subscriptions and subscription_periods tables';
+END $$;
@@ -0,0 +1,31 @@
+-- Migration: Add pricing tiers and credit packs
+-- per_message modules can sell packs of N message credits (modules.pricing_tiers);
+-- each paid pack is a credit_packs row whose credits do not expire
+
+ALTER TABLE modules ADD COLUMN IF NOT EXISTS pricing_tiers JSONB;
+
+CREATE TABLE IF NOT EXISTS credit_packs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id),
+    tier_id TEXT NOT NULL,
+    credits_total INTEGER NOT NULL,
+    credits_remaining INTEGER NOT NULL CHECK (credits_remaining >= 0),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_packs_wallet ON credit_packs(module_id, wallet_address);
+
+DROP TRIGGER IF EXISTS update_credit_packs_updated_at ON credit_packs;
+CREATE TRIGGER update_credit_packs_updated_at
+    BEFORE UPDATE ON credit_packs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 010: Added modules.pricing_tiers and credit_packs table';
+END $$;
@@ -0,0 +1,29 @@
+-- Migration: Add signed payment receipts
+-- Each settled chat payment gets an EIP-712 receipt signed by the server, covering
+-- module, amount, txHash and hashes of the request and response
+
+CREATE TABLE IF NOT EXISTS payment_receipts (
+    id UUID PRIMARY KEY,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id),
+    module_id UUID NOT NULL,
+    payer TEXT NOT NULL,
+    pay_to TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    tx_hash TEXT NOT NULL,
+    request_hash TEXT NOT NULL,
+    response_hash TEXT NOT NULL,
+    issued_at BIGINT NOT NULL,
+    signer TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_receipts_payer ON payment_receipts(payer, issued_at DESC);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 011: Added payment_receipts table';
+END $$;
@@ -0,0 +1,43 @@
+-- Migration: Add background settlement queue
+-- Verified payments allowed by the risk policy are answered first and recorded as 'pending';
+-- settlement_jobs retries them with exponential backoff and dead-letters them after max_attempts
+
+ALTER TYPE payment_event ADD VALUE IF NOT EXISTS 'pending';
+
+DO $$ BEGIN
+    CREATE TYPE settlement_job_status AS ENUM ('queued', 'processing', 'succeeded', 'dead');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS settlement_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id) ON DELETE CASCADE,
+    payment_header TEXT NOT NULL,
+    requirements JSONB NOT NULL,
+    amount TEXT,
+    status settlement_job_status NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_at TIMESTAMPTZ,
+    last_error TEXT,
+    tx_hash TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_jobs_due ON settlement_jobs(status, next_attempt_at);
+
+DROP TRIGGER IF EXISTS update_settlement_jobs_updated_at ON settlement_jobs;
+CREATE TRIGGER update_settlement_jobs_updated_at
+    BEFORE UPDATE ON settlement_jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 012: Added pending payment event and settlement_jobs table';
+END $$;
@@ -0,0 +1,31 @@
+-- Migration: Add Idempotency-Key support for paid chat
+-- A retried POST /api/modules/:id/chat with the same key replays the stored response
+-- instead of verifying, settling and generating again
+
+DO $$ BEGIN
+    CREATE TYPE idempotency_status AS ENUM ('in_progress', 'completed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS idempotency_keys (
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    idempotency_key TEXT NOT NULL,
+    fingerprint TEXT NOT NULL,
+    status idempotency_status NOT NULL DEFAULT 'in_progress',
+    response_status INTEGER,
+    response_body JSONB,
+    payment_response TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ,
+    expires_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (module_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 013: Added idempotency_keys table';
+END $$;
@@ -0,0 +1,16 @@
+-- Migration: Add agent wallet spending budgets
+-- Sellers cap what a remix agent wallet may sign for upstream calls (per call, per UTC day and month);
+-- spend is summed from the payments the wallet made
+
+ALTER TABLE agent_wallets ADD COLUMN IF NOT EXISTS daily_limit TEXT;
+ALTER TABLE agent_wallets ADD COLUMN IF NOT EXISTS monthly_limit TEXT;
+ALTER TABLE agent_wallets ADD COLUMN IF NOT EXISTS per_call_max TEXT;
+ALTER TABLE agent_wallets ADD COLUMN IF NOT EXISTS low_balance_threshold TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payments_payer_lower ON payments(LOWER(payer_wallet), created_at);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 014: Added agent wallet spending limits';
+END $$;
@@ -0,0 +1,16 @@
+-- Migration: Add agent wallet key custody metadata
+-- Records which provider holds each agent wallet key and, for locally encrypted keys, which
+-- master key version encrypted it, so old and new AGENT_WALLET_ENCRYPTION_KEYs can coexist during a rollover
+
+ALTER TABLE agent_wallets ADD COLUMN IF NOT EXISTS key_provider TEXT NOT NULL DEFAULT 'local';
+ALTER TABLE agent_wallets ADD COLUMN IF NOT EXISTS encryption_key_version INTEGER;
+
+-- Existing keys were encrypted with the original (version 1) master key
+UPDATE agent_wallets SET encryption_key_version = 1
+WHERE key_provider = 'local' AND encryption_key_version IS NULL;
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 015: Added agent_wallets.key_provider and encryption_key_version';
+END $$;
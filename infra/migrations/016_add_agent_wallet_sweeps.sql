@@ -0,0 +1,34 @@
+-- Migration: Add agent wallet sweeps
+-- Sellers withdraw tokens left in a remix agent wallet; every sweep (and dry run) is audited here
+
+DO $$ BEGIN
+    CREATE TYPE agent_wallet_sweep_status AS ENUM ('dry_run', 'submitted', 'succeeded', 'failed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS agent_wallet_sweeps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID REFERENCES modules(id) ON DELETE SET NULL,
+    requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    wallet_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    balance_before TEXT NOT NULL,
+    status agent_wallet_sweep_status NOT NULL,
+    tx_hash TEXT,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_wallet_sweeps_module ON agent_wallet_sweeps(module_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_wallet_sweeps_submitted ON agent_wallet_sweeps(module_id) WHERE status = 'submitted';
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 016: Added agent wallet sweeps';
+END $$;
@@ -0,0 +1,57 @@
+-- Migration: Add coupons
+-- Seller promo codes (percentage off or free messages) sent on chat requests as X-COUPON,
+-- with every redemption recorded for analytics
+
+DO $$ BEGIN
+    CREATE TYPE coupon_redemption_kind AS ENUM ('discount', 'free_message');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Coupons (seller promo codes; codes are stored upper-case and unique per seller)
+CREATE TABLE IF NOT EXISTS coupons (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    code TEXT NOT NULL,
+    -- NULL = every module the owner sells
+    module_ids UUID[],
+    -- Exactly one benefit: a percentage off, or free messages per buyer wallet
+    discount_percent INTEGER CHECK (discount_percent BETWEEN 1 AND 99),
+    free_messages INTEGER CHECK (free_messages > 0),
+    max_redemptions INTEGER CHECK (max_redemptions > 0),
+    redemption_count INTEGER NOT NULL DEFAULT 0,
+    expires_at TIMESTAMPTZ,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (owner_user_id, code),
+    CHECK ((discount_percent IS NULL) <> (free_messages IS NULL))
+);
+
+-- Coupon redemptions (one row per discounted payment or free message)
+CREATE TABLE IF NOT EXISTS coupon_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    kind coupon_redemption_kind NOT NULL,
+    discount_amount TEXT NOT NULL,
+    payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+    chat_id UUID REFERENCES chats(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon ON coupon_redemptions(coupon_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_wallet ON coupon_redemptions(coupon_id, wallet_address);
+
+DROP TRIGGER IF EXISTS update_coupons_updated_at ON coupons;
+CREATE TRIGGER update_coupons_updated_at
+    BEFORE UPDATE ON coupons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 017: Added coupons and coupon redemptions';
+END $$;
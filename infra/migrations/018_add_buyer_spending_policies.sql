@@ -0,0 +1,28 @@
+-- Migration: Add buyer spending policies
+-- A buyer wallet caps its own x402 chat payments (per message, per UTC day, per module per day);
+-- the chat route refuses to settle payments that would break the policy
+
+-- Buyer spending policies (self-imposed caps on x402 chat payments, set with a SIWE signature)
+CREATE TABLE IF NOT EXISTS buyer_spending_policies (
+    wallet_address TEXT PRIMARY KEY,
+    max_per_message TEXT,
+    daily_limit TEXT,
+    module_daily_limit TEXT,
+    -- The signed SIWE request that set the current policy
+    siwe_message TEXT NOT NULL,
+    siwe_signature TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_buyer_spending_policies_updated_at ON buyer_spending_policies;
+CREATE TRIGGER update_buyer_spending_policies_updated_at
+    BEFORE UPDATE ON buyer_spending_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 018: Added buyer spending policies';
+END $$;
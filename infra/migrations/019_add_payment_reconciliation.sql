@@ -0,0 +1,71 @@
+-- Migration: Add payment reconciliation
+-- Settled payments are checked on-chain once and the result stored on the row; transfers to
+-- seller pay_to addresses without a payment record land in a discrepancy report
+
+DO $$ BEGIN
+    CREATE TYPE onchain_status AS ENUM ('confirmed', 'not_found', 'reverted', 'mismatch', 'unsupported_network', 'error');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE discrepancy_kind AS ENUM ('payment_unconfirmed', 'unrecorded_transfer');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS onchain_status onchain_status;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS onchain_block_number BIGINT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS onchain_block_timestamp TIMESTAMPTZ;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS onchain_error TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reconcile_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_payments_unreconciled ON payments(created_at)
+    WHERE event = 'settled' AND reconciled_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS payment_discrepancies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    kind discrepancy_kind NOT NULL,
+    payment_id UUID REFERENCES payments(id) ON DELETE CASCADE,
+    network TEXT NOT NULL,
+    asset TEXT,
+    tx_hash TEXT,
+    log_index INTEGER,
+    from_address TEXT,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    block_number BIGINT,
+    block_timestamp TIMESTAMPTZ,
+    detail TEXT,
+    resolved_at TIMESTAMPTZ,
+    resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+    resolution_note TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_discrepancies_payment
+    ON payment_discrepancies(payment_id) WHERE payment_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_discrepancies_transfer
+    ON payment_discrepancies(network, tx_hash, log_index) WHERE kind = 'unrecorded_transfer';
+CREATE INDEX IF NOT EXISTS idx_payment_discrepancies_to ON payment_discrepancies(LOWER(to_address), created_at DESC);
+
+CREATE TABLE IF NOT EXISTS reconciliation_cursors (
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    scanned_until TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (network, asset)
+);
+
+DROP TRIGGER IF EXISTS update_reconciliation_cursors_updated_at ON reconciliation_cursors;
+CREATE TRIGGER update_reconciliation_cursors_updated_at
+    BEFORE UPDATE ON reconciliation_cursors
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 019: Added payment reconciliation columns, payment_discrepancies and reconciliation_cursors';
+END $$;
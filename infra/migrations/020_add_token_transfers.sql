@@ -0,0 +1,43 @@
+-- Migration: Add token transfer indexer
+-- Transfer events of payment assets are indexed from a per-asset block cursor so reconciliation
+-- and dashboards read local rows instead of rescanning logs over RPC
+
+-- Transfer events of payment assets, written by the token indexer
+CREATE TABLE IF NOT EXISTS token_transfers (
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    block_number BIGINT NOT NULL,
+    block_hash TEXT NOT NULL,
+    block_timestamp TIMESTAMPTZ NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (network, tx_hash, log_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_token_transfers_block ON token_transfers(network, asset, block_number);
+CREATE INDEX IF NOT EXISTS idx_token_transfers_to ON token_transfers(network, asset, to_address, block_timestamp);
+
+-- Last block the token indexer has read per network and asset
+CREATE TABLE IF NOT EXISTS token_indexer_cursors (
+    network TEXT NOT NULL,
+    asset TEXT NOT NULL,
+    last_block BIGINT NOT NULL,
+    last_block_timestamp TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (network, asset)
+);
+
+DROP TRIGGER IF EXISTS update_token_indexer_cursors_updated_at ON token_indexer_cursors;
+CREATE TRIGGER update_token_indexer_cursors_updated_at
+    BEFORE UPDATE ON token_indexer_cursors
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 020: Added token_transfers and token_indexer_cursors';
+END $$;
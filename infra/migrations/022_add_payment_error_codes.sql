@@ -0,0 +1,11 @@
+-- Migration: Add payment error codes
+-- Failed payments get a stable error code (PaymentErrorCode in packages/shared) next to the
+-- free-form error. Rows recorded before this migration keep a NULL code.
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS error_code TEXT;
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 022: Added payments.error_code';
+END $$;
@@ -0,0 +1,11 @@
+-- Migration: Add per-module free tier policy
+-- Sellers choose how many free messages a wallet/IP gets per day, whether they are full answers
+-- or previews, and whether a wallet is required. NULL keeps the old one-preview-a-day try-once.
+
+ALTER TABLE modules ADD COLUMN IF NOT EXISTS free_tier_policy JSONB;
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 023: Added modules.free_tier_policy';
+END $$;
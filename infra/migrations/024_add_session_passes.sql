@@ -0,0 +1,43 @@
+-- Migration: Add session pass records and top-ups
+-- Buyers can list their passes, pay to add credits and time, and revoke a leaked token. Passes
+-- issued before this migration have no row and keep working until their JWT expires.
+
+-- Session passes (the bearer JWT is checked against its row, which holds the expiry and revocation)
+CREATE TABLE IF NOT EXISTS session_passes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    wallet_address TEXT NOT NULL,
+    payment_tx_hash TEXT NOT NULL,
+    max_credits INTEGER NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(module_id, wallet_address, payment_tx_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_passes_wallet ON session_passes(wallet_address, expires_at);
+
+-- Paid session pass top-ups (one per payment)
+CREATE TABLE IF NOT EXISTS session_pass_topups (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_pass_id UUID NOT NULL REFERENCES session_passes(id) ON DELETE CASCADE,
+    payment_id UUID NOT NULL UNIQUE REFERENCES payments(id),
+    credits_added INTEGER NOT NULL,
+    minutes_added INTEGER NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_pass_topups_pass ON session_pass_topups(session_pass_id);
+
+DROP TRIGGER IF EXISTS update_session_passes_updated_at ON session_passes;
+CREATE TRIGGER update_session_passes_updated_at
+    BEFORE UPDATE ON session_passes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 024: Added session_passes and session_pass_topups';
+END $$;
@@ -0,0 +1,46 @@
+-- Migration: Add the session credit ledger
+-- Session pass credits move from Redis-only counters to Postgres: session_passes.credits_remaining
+-- is the source of truth and session_credit_ledger records every grant, use and refund. Redis
+-- keeps a cache that is rebuilt from Postgres when missing.
+-- Redis held the usage of existing passes, which SQL cannot read: they start from max_credits here,
+-- and their cached counters keep applying until the cache is lost.
+
+DO $$ BEGIN
+    CREATE TYPE session_credit_entry_type AS ENUM ('issue', 'top_up', 'consume', 'refund');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE session_passes ADD COLUMN IF NOT EXISTS credits_remaining INTEGER;
+UPDATE session_passes SET credits_remaining = max_credits WHERE credits_remaining IS NULL;
+ALTER TABLE session_passes ALTER COLUMN credits_remaining SET NOT NULL;
+
+DO $$ BEGIN
+    ALTER TABLE session_passes ADD CONSTRAINT session_passes_credits_remaining_check CHECK (credits_remaining >= 0);
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Session credit ledger (append-only; session_passes.credits_remaining is its running total)
+CREATE TABLE IF NOT EXISTS session_credit_ledger (
+    id BIGSERIAL PRIMARY KEY,
+    session_pass_id UUID NOT NULL REFERENCES session_passes(id) ON DELETE CASCADE,
+    entry_type session_credit_entry_type NOT NULL,
+    credits INTEGER NOT NULL,
+    payment_id UUID REFERENCES payments(id),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_credit_ledger_pass ON session_credit_ledger(session_pass_id, created_at);
+
+-- Opening entry for passes that already exist
+INSERT INTO session_credit_ledger (session_pass_id, entry_type, credits)
+SELECT p.id, 'issue'::session_credit_entry_type, p.credits_remaining
+FROM session_passes p
+WHERE NOT EXISTS (SELECT 1 FROM session_credit_ledger l WHERE l.session_pass_id = p.id);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 025: Added session_passes.credits_remaining and session_credit_ledger';
+END $$;
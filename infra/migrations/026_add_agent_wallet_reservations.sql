@@ -0,0 +1,23 @@
+-- Migration: Add agent wallet budget reservations
+-- Remix upstream payments used to be checked against the budget from recorded payments only, so
+-- concurrent calls could each see room for one more payment and together exceed the limit. A
+-- reservation is now taken under a per-wallet lock before signing and released once the upstream
+-- call finishes; a reservation left behind stops counting when its authorization expires.
+
+CREATE TABLE IF NOT EXISTS agent_wallet_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallet_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_agent_wallet_reservations_wallet
+    ON agent_wallet_reservations(wallet_address, expires_at);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 026: Added agent_wallet_reservations';
+END $$;
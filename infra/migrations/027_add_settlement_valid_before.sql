@@ -0,0 +1,13 @@
+-- Migration: Store the authorization expiry on settlement jobs
+-- An EIP-3009 authorization can only be settled before its validBefore (a few minutes after
+-- signing), but the retry backoff could push attempts past it. The worker now dead-letters jobs
+-- whose authorization has expired and schedules retries inside the window.
+-- Jobs queued before this migration keep a NULL valid_before and are retried as before.
+
+ALTER TABLE settlement_jobs ADD COLUMN IF NOT EXISTS valid_before TIMESTAMPTZ;
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 027: Added settlement_jobs.valid_before';
+END $$;
@@ -0,0 +1,17 @@
+-- Migration: Scope Idempotency-Key to the caller
+-- Keys were unique per module only, so anyone who knew (or guessed) another buyer's key and body
+-- got their stored response replayed, including session pass tokens and X-PAYMENT-RESPONSE.
+-- Keys are now unique per (module, caller, key). Keys stored before this have no known caller and
+-- are dropped; a retry that used one is handled as a new request.
+
+ALTER TABLE idempotency_keys ADD COLUMN IF NOT EXISTS caller TEXT NOT NULL DEFAULT '';
+DELETE FROM idempotency_keys WHERE caller = '';
+
+ALTER TABLE idempotency_keys DROP CONSTRAINT IF EXISTS idempotency_keys_pkey;
+ALTER TABLE idempotency_keys ADD PRIMARY KEY (module_id, caller, idempotency_key);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 028: Scoped idempotency_keys to the caller';
+END $$;
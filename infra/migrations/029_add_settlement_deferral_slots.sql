@@ -0,0 +1,19 @@
+-- Migration: Add settlement deferral slots
+-- The per-payer SETTLEMENT_ASYNC_MAX_PENDING check was a plain read, so concurrent requests from
+-- one payer all saw room and were all deferred. Deferral now takes a slot under a per-payer lock;
+-- the slot counts like a pending payment until that payment is recorded, and expires if abandoned.
+
+CREATE TABLE IF NOT EXISTS settlement_deferral_slots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    payer TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_deferral_slots_payer ON settlement_deferral_slots(payer, expires_at);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 029: Added settlement_deferral_slots';
+END $$;
@@ -0,0 +1,24 @@
+-- Migration: Add spending policy reservations
+-- checkSpendingPolicy read the payer's recorded spend and then settled, so concurrent payments from one
+-- wallet all saw the same headroom and could together exceed its limits. The check now reserves the
+-- spend under a per-payer lock; the reservation counts until its payment is recorded, and expires if abandoned.
+
+CREATE TABLE IF NOT EXISTS spending_policy_reservations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallet_address TEXT NOT NULL,
+    module_id UUID NOT NULL,
+    value TEXT NOT NULL,
+    -- The payment's authorization nonce; the reservation stops counting once that payment is recorded
+    nonce TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_spending_policy_reservations_wallet
+    ON spending_policy_reservations(wallet_address, expires_at);
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 030: Added spending_policy_reservations';
+END $$;
@@ -0,0 +1,15 @@
+-- Migration: Add pending spending policy limits
+-- A newer SIWE-signed policy replaced the limits at once, so whoever held the wallet key could lift the
+-- caps and spend in the same minute. Raised or removed limits now wait in the pending_* columns until
+-- pending_effective_at (SPENDING_POLICY_INCREASE_DELAY_HOURS later); lowered limits still apply at once.
+
+ALTER TABLE buyer_spending_policies ADD COLUMN IF NOT EXISTS pending_max_per_message TEXT;
+ALTER TABLE buyer_spending_policies ADD COLUMN IF NOT EXISTS pending_daily_limit TEXT;
+ALTER TABLE buyer_spending_policies ADD COLUMN IF NOT EXISTS pending_module_daily_limit TEXT;
+ALTER TABLE buyer_spending_policies ADD COLUMN IF NOT EXISTS pending_effective_at TIMESTAMPTZ;
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 031: Added pending limits to buyer_spending_policies';
+END $$;
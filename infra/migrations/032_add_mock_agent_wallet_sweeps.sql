@@ -0,0 +1,11 @@
+-- Migration: Record mock agent wallet sweeps separately
+-- Under X402_MOCK_MODE a sweep was recorded as 'succeeded' with the mock facilitator's fake tx hash,
+-- indistinguishable from a real transfer in the audit log. Such sweeps are now 'mock', with no tx hash.
+
+ALTER TYPE agent_wallet_sweep_status ADD VALUE IF NOT EXISTS 'mock';
+
+-- Log successful migration
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 032: Added mock agent wallet sweep status';
+END $$;
@@ -43,11 +43,68 @@ const ApiConfigSchema = z.object({
   X402_RPC_URL: z.string().url().optional(),
   X402_EIP712_NAME: z.string().default('x402'),
   X402_EIP712_VERSION: z.string().default('1'),
+  // Optional: extra chains for module payment options, JSON array of {network, chainId, rpcUrl, name?, aliases?}.
+  X402_CHAINS: z.string().optional(),
   X402_MOCK_MODE: EnvBooleanSchema.default(false),
+  // Serve a local facilitator stand-in under /facilitator (point X402_FACILITATOR_BASE_URL at it).
+  X402_LOCAL_FACILITATOR: EnvBooleanSchema.default(false),
+  // Platform address that receives prepaid balance top-ups (deposits disabled when unset).
+  PLATFORM_PAY_TO: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(),
+  // Subscriptions expiring within this many days are flagged for renewal.
+  SUBSCRIPTION_REMINDER_DAYS: z.coerce.number().int().nonnegative().default(3),
+  // Private key that signs payment receipts (derived from JWT_SECRET in development when unset).
+  RECEIPT_SIGNING_KEY: z.string().regex(/^0x[a-fA-F0-9]{64}$/).optional(),
+  // Hours before a buyer's raised (or removed) spending policy limit takes effect; lowered limits apply at once.
+  SPENDING_POLICY_INCREASE_DELAY_HOURS: z.coerce.number().nonnegative().default(24),
+  // Risk policy: verified payments up to this value (base units) are answered before settlement,
+  // which completes in the background. Unset keeps settlement inline.
+  SETTLEMENT_ASYNC_MAX_VALUE: z.string().regex(/^\d+$/).optional(),
+  // Max unsettled (pending) payments a payer may have before settlement is required inline again.
+  SETTLEMENT_ASYNC_MAX_PENDING: z.coerce.number().int().positive().default(3),
+  SETTLEMENT_MAX_ATTEMPTS: z.coerce.number().int().positive().default(6),
+  // Retry backoff: base * 2^(attempt-1), capped at 10 minutes.
+  SETTLEMENT_RETRY_BASE_MS: z.coerce.number().int().positive().default(5000),
+  SETTLEMENT_WORKER_INTERVAL_MS: z.coerce.number().int().positive().default(5000),
+  // Webhook deliveries: attempts before a delivery is dead, backoff base (doubles per attempt, capped
+  // at 1 hour), per-request timeout and worker poll interval.
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+  WEBHOOK_RETRY_BASE_MS: z.coerce.number().int().positive().default(10000),
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().int().positive().default(10000),
+  WEBHOOK_WORKER_INTERVAL_MS: z.coerce.number().int().positive().default(5000),
+  // Free messages need an answered challenge: a hashcash proof-of-work, a SIWE signature, either, or nothing ('off').
+  // Buyers signed in with a SIWE JWT skip it.
+  FREE_TIER_CHALLENGE: z.enum(['off', 'pow', 'signature', 'any']).default('any'),
+  // Leading zero bits required of sha256("<nonce>:<answer>") (each extra bit doubles the work).
+  FREE_TIER_POW_DIFFICULTY: z.coerce.number().int().min(1).max(32).default(18),
+  FREE_TIER_CHALLENGE_TTL_SECONDS: z.coerce.number().int().positive().default(300),
+  // Free messages a module gives out per UTC day across all buyers (0 removes the cap).
+  FREE_TIER_MODULE_DAILY_BUDGET: z.coerce.number().int().nonnegative().default(500),
+  // How long a chat Idempotency-Key and its stored response are kept.
+  IDEMPOTENCY_KEY_TTL_HOURS: z.coerce.number().int().positive().default(24),
+  // How often settled payments are checked on-chain and seller pay_to addresses scanned (0 disables).
+  RECONCILE_INTERVAL_MS: z.coerce.number().int().nonnegative().default(300000),
+  // How far back the first transfer scan of a network/asset reaches.
+  RECONCILE_LOOKBACK_DAYS: z.coerce.number().int().positive().default(7),
+  // Not-found/RPC-error checks before a settled payment is reported as unconfirmed.
+  RECONCILE_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+  // How often the token indexer follows Transfer events of payment assets (0 disables).
+  TOKEN_INDEXER_INTERVAL_MS: z.coerce.number().int().nonnegative().default(15000),
+  // Blocks re-read on every pass so transfers dropped by a reorg this deep are replaced.
+  TOKEN_INDEXER_REORG_DEPTH: z.coerce.number().int().positive().default(12),
+  // First block to index (default: the block RECONCILE_LOOKBACK_DAYS ago).
+  TOKEN_INDEXER_START_BLOCK: z.string().regex(/^\d+$/).optional(),
+  // New blocks read per asset per pass.
+  TOKEN_INDEXER_MAX_BLOCKS: z.coerce.number().int().positive().default(5000),
 
   // Security
   JWT_SECRET: z.string().min(32).optional(),
   AGENT_WALLET_ENCRYPTION_KEY: z.string().min(32).optional(),
+  // Version recorded on agent wallet keys encrypted with AGENT_WALLET_ENCRYPTION_KEY; bump it on rotation.
+  AGENT_WALLET_ENCRYPTION_KEY_VERSION: z.coerce.number().int().positive().default(1),
+  // Older master keys still needed during a rollover, as "version:base64key" pairs separated by commas.
+  AGENT_WALLET_PREVIOUS_ENCRYPTION_KEYS: z.string().optional(),
+  // Custody provider for new agent wallets ('local' = AES-GCM in Postgres; external signers register their own id).
+  AGENT_WALLET_KEY_PROVIDER: z.string().default('local'),
 
   // Admin Bootstrap (optional - set this to auto-promote a wallet to admin on first login)
   INITIAL_ADMIN_ADDRESS: z.string().regex(/^0x[a-fA-F0-9]{40}$/).optional(),
@@ -6,13 +6,66 @@ export const ModuleTypeSchema = z.enum(['base', 'remix']);
 
 export const ModuleStatusSchema = z.enum(['draft', 'published', 'blocked']);
 
-export const PricingModeSchema = z.enum(['per_message', 'per_session']);
+export const PricingModeSchema = z.enum(['per_message', 'per_session', 'metered', 'subscription']);
+
+export const PaymentSchemeSchema = z.enum(['exact', 'upto']);
+
+// Webhook events a seller can subscribe to
+export const WebhookEventSchema = z.enum([
+  'payment.settled',
+  'payment.failed',
+  'session_pass.issued',
+  'session_pass.topped_up',
+  'module.blocked',
+]);
 
 export const SessionPolicySchema = z.object({
   minutes: z.number().int().positive(),
   messageCredits: z.number().int().positive(),
 });
 
+export const SubscriptionPolicySchema = z.object({
+  periodDays: z.number().int().positive().max(366),
+  messageCap: z.number().int().positive().optional(),
+});
+
+export const FreeTierPolicySchema = z.object({
+  messagesPerDay: z.number().int().min(0).max(100),
+  fullAnswers: z.boolean().default(false),
+  requireWallet: z.boolean().default(false),
+  dailyBudget: z.number().int().positive().max(100000).optional(),
+});
+
+export const PricingTierSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]{0,31}$/, 'Tier id must be lowercase letters, digits or dashes'),
+  credits: z.number().int().min(2).max(10000),
+  priceAmount: z
+    .string()
+    .regex(/^\d+$/, 'Must be integer string in smallest units')
+    .refine((val) => BigInt(val) > 0n, 'Price must be greater than 0'),
+  label: z.string().max(100).optional(),
+});
+
+const OptionalLimitSchema = z
+  .string()
+  .regex(/^\d+$/, 'Must be integer string in smallest units')
+  .refine((val) => BigInt(val) > 0n, 'Limit must be greater than 0')
+  .nullable()
+  .optional();
+
+export const AgentWalletBudgetSchema = z.object({
+  dailyLimit: OptionalLimitSchema,
+  monthlyLimit: OptionalLimitSchema,
+  perCallMax: OptionalLimitSchema,
+  lowBalanceThreshold: OptionalLimitSchema,
+});
+
+export const BuyerSpendingPolicySchema = z.object({
+  maxPerMessage: OptionalLimitSchema,
+  dailyLimit: OptionalLimitSchema,
+  moduleDailyLimit: OptionalLimitSchema,
+});
+
 export const RemixPolicySchema = z.object({
   deltaPersona: z.string(),
   upstreamWeight: z.number().min(0).max(1),
@@ -24,7 +77,7 @@ export const ChatRequestSchema = z.object({
 });
 
 export const PaymentRequirementsSchema = z.object({
-  scheme: z.literal('exact'),
+  scheme: PaymentSchemeSchema,
   network: z.string(),
   payTo: z.string(),
   asset: z.string(),
@@ -32,6 +85,22 @@ export const PaymentRequirementsSchema = z.object({
   mimeType: z.string(),
   maxAmountRequired: z.string(),
   maxTimeoutSeconds: z.number().int().positive(),
+  extra: z
+    .object({
+      name: z.string(),
+      version: z.string(),
+      chainId: z.number().int().positive().optional(),
+    })
+    .optional(),
+});
+
+export const PaymentOptionSchema = z.object({
+  network: z.string().min(1),
+  asset: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid asset address'),
+  payTo: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address').optional(),
+  priceAmount: z.string().regex(/^\d+$/, 'Must be integer string in smallest units').optional(),
+  eip712Name: z.string().min(1).optional(),
+  eip712Version: z.string().min(1).optional(),
 });
 
 export const CreateModuleSchema = z.object({
@@ -41,8 +110,13 @@ export const CreateModuleSchema = z.object({
   personaPrompt: z.string().min(1).max(10000),
   pricingMode: PricingModeSchema,
   priceAmount: z.string().regex(/^\d+$/, 'Must be integer string in smallest units'),
+  pricePer1kTokens: z.string().regex(/^\d+$/, 'Must be integer string in smallest units').nullable().optional(),
   sessionPolicy: SessionPolicySchema.nullable().optional(),
+  subscriptionPolicy: SubscriptionPolicySchema.nullable().optional(),
+  pricingTiers: z.array(PricingTierSchema).max(10).nullable().optional(),
+  freeTierPolicy: FreeTierPolicySchema.nullable().optional(),
   payTo: z.string().regex(/^0x[a-fA-F0-9]{40}$/, 'Invalid EVM address'),
+  paymentOptions: z.array(PaymentOptionSchema).max(10).nullable().optional(),
 });
 
 export const ModuleDocumentInputSchema = z.object({
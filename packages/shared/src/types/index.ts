@@ -4,9 +4,74 @@ export type ModuleType = 'base' | 'remix';
 
 export type ModuleStatus = 'draft' | 'published' | 'blocked';
 
-export type PricingMode = 'per_message' | 'per_session';
+export type PricingMode = 'per_message' | 'per_session' | 'metered' | 'subscription';
 
-export type PaymentEvent = 'settled' | 'failed';
+// 'exact' charges maxAmountRequired; 'upto' authorizes maxAmountRequired and charges actual usage
+export type PaymentScheme = 'exact' | 'upto';
+
+// 'pending': verified and queued for background settlement
+export type PaymentEvent = 'settled' | 'failed' | 'pending';
+
+// Why a payment was rejected, stable for clients to branch on (the free-form error is for people)
+export type PaymentErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'SCHEME_MISMATCH'
+  | 'WRONG_NETWORK'
+  | 'WRONG_ASSET'
+  | 'WRONG_RECIPIENT'
+  | 'INSUFFICIENT_AMOUNT'
+  | 'INSUFFICIENT_FUNDS'
+  | 'NOT_YET_VALID'
+  | 'EXPIRED'
+  | 'BAD_SIGNATURE'
+  | 'NONCE_REUSED'
+  | 'FACILITATOR_UNAVAILABLE'
+  | 'SETTLEMENT_FAILED'
+  | 'UNKNOWN';
+
+// What a client can do about a rejected payment
+export type PaymentErrorRecovery = 're_sign' | 'switch_network' | 'fund_wallet' | 'retry_later' | 'none';
+
+// On-chain check of a settled payment's tx, stored by the reconciliation worker
+export type PaymentOnchainStatus =
+  | 'confirmed'
+  | 'not_found'
+  | 'reverted'
+  | 'mismatch'
+  | 'unsupported_network'
+  | 'error';
+
+// 'payment_unconfirmed': settled in the DB but not backed by the chain;
+// 'unrecorded_transfer': a transfer to a seller pay_to address with no payment record
+export type DiscrepancyKind = 'payment_unconfirmed' | 'unrecorded_transfer';
+
+// Events a seller can subscribe a webhook to ('webhook.ping' is only sent by the test endpoint)
+export type WebhookEvent =
+  | 'payment.settled'
+  | 'payment.failed'
+  | 'session_pass.issued'
+  | 'session_pass.topped_up'
+  | 'module.blocked'
+  | 'webhook.ping';
+
+// 'dead': gave up after retries; the seller can redeliver it
+export type WebhookDeliveryStatus = 'queued' | 'processing' | 'delivered' | 'dead';
+
+// 'dead': gave up after retries (dead-lettered); an admin can requeue it
+export type SettlementJobStatus = 'queued' | 'processing' | 'succeeded' | 'dead';
+
+export type CreditStatus = 'outstanding' | 'redeemed';
+
+export type CouponRedemptionKind = 'discount' | 'free_message';
+
+// 'submitted' until the facilitator answers; dry runs are audited too
+// 'mock': settled by the X402_MOCK_MODE facilitator stand-in, so nothing moved on-chain
+export type AgentWalletSweepStatus = 'dry_run' | 'submitted' | 'succeeded' | 'failed' | 'mock';
+
+export type BalanceEntryType = 'deposit' | 'debit' | 'refund';
+
+// Derived on read: 'canceled' still grants access until the paid period ends
+export type SubscriptionStatus = 'active' | 'canceled' | 'expired';
 
 export interface User {
   id: string;
@@ -27,10 +92,15 @@ export interface Module {
   personaPrompt: string;
   pricingMode: PricingMode;
   priceAmount: string;
+  pricePer1kTokens: string | null;
   sessionPolicy: SessionPolicy | null;
+  subscriptionPolicy: SubscriptionPolicy | null;
+  pricingTiers: PricingTier[] | null;
+  freeTierPolicy: FreeTierPolicy | null;
   payTo: string;
   network: string;
   assetContract: string;
+  paymentOptions: PaymentOption[] | null;
   upstreamModuleId: string | null;
   remixPolicy: RemixPolicy | null;
   evalScore: number | null;
@@ -39,11 +109,49 @@ export interface Module {
   updatedAt: Date;
 }
 
+/**
+ * An additional (network, asset) pair a module accepts payment in.
+ * Unset fields fall back to the module's own payTo/priceAmount and the global EIP-712 domain.
+ */
+export interface PaymentOption {
+  network: string;
+  asset: string;
+  payTo?: string;
+  priceAmount?: string;
+  eip712Name?: string;
+  eip712Version?: string;
+}
+
 export interface SessionPolicy {
   minutes: number;
   messageCredits: number;
 }
 
+// One payment grants access for periodDays; messageCap is an optional fair-use limit per period
+export interface SubscriptionPolicy {
+  periodDays: number;
+  messageCap?: number;
+}
+
+// Unpaid messages per wallet/IP per day (0 turns the free tier off); null on a module means the platform default
+export interface FreeTierPolicy {
+  messagesPerDay: number;
+  // false: answers are cut to a short preview
+  fullAnswers: boolean;
+  // Only buyers who connect a wallet get free messages
+  requireWallet: boolean;
+  // Free messages the module gives out per UTC day across all buyers (capped by the platform budget)
+  dailyBudget?: number;
+}
+
+// A credit pack on a per_message module: `credits` messages for `priceAmount` (paid once, no expiry)
+export interface PricingTier {
+  id: string;
+  credits: number;
+  priceAmount: string;
+  label?: string;
+}
+
 export interface RemixPolicy {
   deltaPersona: string;
   upstreamWeight: number;
@@ -87,15 +195,228 @@ export interface Payment {
   payerWallet: string;
   payTo: string;
   value: string;
+  authorizedValue: string | null;
   txHash: string | null;
   network: string;
   event: PaymentEvent;
   error: string | null;
+  errorCode: PaymentErrorCode | null;
+  nonce: string | null;
   createdAt: Date;
 }
 
+// Entry in the reconciliation discrepancy report
+export interface PaymentDiscrepancy {
+  id: string;
+  kind: DiscrepancyKind;
+  paymentId: string | null;
+  network: string;
+  asset: string | null;
+  txHash: string | null;
+  logIndex: number | null;
+  fromAddress: string | null;
+  toAddress: string;
+  value: string;
+  blockNumber: string | null;
+  blockTimestamp: Date | null;
+  detail: string | null;
+  resolvedAt: Date | null;
+  resolutionNote: string | null;
+  createdAt: Date;
+}
+
+export interface SettlementJob {
+  id: string;
+  paymentId: string;
+  status: SettlementJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  // The authorization's validBefore: the job cannot settle after it (null for jobs queued before it was stored)
+  validBefore: Date | null;
+  lastError: string | null;
+  txHash: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+// Seller endpoint notified of events on all their modules (moduleId null) or one module
+export interface WebhookSubscription {
+  id: string;
+  ownerUserId: string;
+  moduleId: string | null;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: Date;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  deliveredAt: Date | null;
+}
+
+export interface BuyerCredit {
+  id: string;
+  moduleId: string;
+  walletAddress: string;
+  paymentId: string;
+  value: string;
+  reason: string | null;
+  status: CreditStatus;
+  redeemedAt: Date | null;
+  redeemedChatId: string | null;
+  createdAt: Date;
+}
+
+// Prepaid balance ledger entry; paymentId is the deposit (top-up) payment the amount belongs to
+export interface BalanceLedgerEntry {
+  id: string;
+  walletAddress: string;
+  network: string;
+  asset: string;
+  entryType: BalanceEntryType;
+  amount: string;
+  paymentId: string;
+  moduleId: string | null;
+  payTo: string | null;
+  chatId: string | null;
+  reversesEntryId: string | null;
+  memo: string | null;
+  createdAt: Date;
+}
+
+export interface Subscription {
+  id: string;
+  moduleId: string;
+  walletAddress: string;
+  status: SubscriptionStatus;
+  currentPeriodStart: Date | null;
+  currentPeriodEnd: Date | null;
+  expiresAt: Date; // end of the last paid period
+  messageCap: number | null;
+  messagesUsed: number;
+  canceledAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreditPack {
+  id: string;
+  moduleId: string;
+  walletAddress: string;
+  paymentId: string;
+  tierId: string;
+  creditsTotal: number;
+  creditsRemaining: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Spending limits for a remix agent wallet, in the payment asset's smallest units (null = no limit)
+export interface AgentWalletBudget {
+  dailyLimit: string | null;
+  monthlyLimit: string | null;
+  perCallMax: string | null;
+  lowBalanceThreshold: string | null;
+}
+
+// Seller promo code: either a percentage off or a number of free messages per buyer wallet
+export interface Coupon {
+  id: string;
+  ownerUserId: string;
+  code: string;
+  moduleIds: string[] | null; // null = every module the seller owns
+  discountPercent: number | null;
+  freeMessages: number | null;
+  maxRedemptions: number | null;
+  redemptionCount: number;
+  expiresAt: Date | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CouponRedemption {
+  id: string;
+  couponId: string;
+  moduleId: string;
+  walletAddress: string;
+  kind: CouponRedemptionKind;
+  discountAmount: string; // list price minus what was charged
+  paymentId: string | null;
+  chatId: string | null;
+  createdAt: Date;
+}
+
+// Withdrawal of tokens from a remix agent wallet to a seller-chosen address
+export interface AgentWalletSweep {
+  id: string;
+  moduleId: string | null;
+  requestedBy: string | null;
+  walletAddress: string;
+  toAddress: string;
+  network: string;
+  asset: string;
+  amount: string;
+  balanceBefore: string;
+  status: AgentWalletSweepStatus;
+  txHash: string | null;
+  error: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+// Caps a buyer wallet puts on its own x402 chat payments, in smallest units (null = no limit)
+export interface BuyerSpendingPolicy {
+  walletAddress: string;
+  maxPerMessage: string | null;
+  dailyLimit: string | null;
+  moduleDailyLimit: string | null;
+  // Limits from a request that raised or removed a cap; they replace the current ones at effectiveAt
+  pendingLimits: {
+    maxPerMessage: string | null;
+    dailyLimit: string | null;
+    moduleDailyLimit: string | null;
+    effectiveAt: Date;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Server-signed (EIP-712) proof of what a settled payment bought
+export interface PaymentReceipt {
+  id: string;
+  paymentId: string;
+  moduleId: string;
+  payer: string;
+  payTo: string;
+  amount: string;
+  network: string;
+  asset: string;
+  txHash: string;
+  requestHash: string;
+  responseHash: string;
+  issuedAt: number; // unix seconds
+  signer: string;
+  signature: string;
+}
+
 export interface PaymentRequirements {
-  scheme: 'exact';
+  scheme: PaymentScheme;
   network: string;
   payTo: string;
   asset: string;
@@ -103,6 +424,12 @@ export interface PaymentRequirements {
   mimeType: string;
   maxAmountRequired: string;
   maxTimeoutSeconds: number;
+  // EIP-712 domain of the asset (x402 `extra`)
+  extra?: {
+    name: string;
+    version: string;
+    chainId?: number;
+  };
 }
 
 export interface ChatRequest {
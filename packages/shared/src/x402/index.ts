@@ -1,3 +1,5 @@
+import type { PaymentErrorCode, PaymentErrorRecovery } from '../types/index.js';
+
 export const X402_EIP712_TYPES = {
   TransferWithAuthorization: [
     { name: 'from', type: 'address' },
@@ -9,6 +11,27 @@ export const X402_EIP712_TYPES = {
   ],
 } as const;
 
+/**
+ * Recovery for each payment error code. 're_sign' means a fresh authorization for the same
+ * requirements can succeed; 'retry_later' means the same one may succeed once time has passed.
+ */
+export const PAYMENT_ERROR_RECOVERY: Record<PaymentErrorCode, PaymentErrorRecovery> = {
+  INVALID_PAYLOAD: 're_sign',
+  SCHEME_MISMATCH: 're_sign',
+  WRONG_NETWORK: 'switch_network',
+  WRONG_ASSET: 're_sign',
+  WRONG_RECIPIENT: 're_sign',
+  INSUFFICIENT_AMOUNT: 're_sign',
+  INSUFFICIENT_FUNDS: 'fund_wallet',
+  NOT_YET_VALID: 'retry_later',
+  EXPIRED: 're_sign',
+  BAD_SIGNATURE: 're_sign',
+  NONCE_REUSED: 're_sign',
+  FACILITATOR_UNAVAILABLE: 'retry_later',
+  SETTLEMENT_FAILED: 'none',
+  UNKNOWN: 'none',
+};
+
 export interface X402PaymentConfig {
   network: string;
   chainId: number;
@@ -32,3 +55,21 @@ export function getX402EIP712Domain(
     verifyingContract: config.verifyingContract,
   } as const;
 }
+
+export interface X402TransferAuthorization {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: number | string;
+  validBefore: number | string;
+  nonce: string;
+  signature: string;
+  asset?: string;
+}
+
+export interface X402PaymentHeader {
+  x402Version: number;
+  scheme: string;
+  network: string;
+  payload: X402TransferAuthorization;
+}